@@ -212,11 +212,11 @@ npm start
 - **Port**: ${config.port}
 - **API Spec**: ${config.apiSpecPath}
 
-## OpenAI Integration
+## LLM Integration
 
-${config.openaiApiKey ? '✅ OpenAI API key is configured' : '⚠️  OpenAI API key not configured - using fallback matching'}
+${config.llm || config.openaiApiKey ? `✅ LLM provider is configured (${config.llm ? config.llm.provider : 'openai'})` : '⚠️  No LLM provider configured - using fallback matching'}
 
-${config.openaiApiKey ? '' : 'To enable AI-powered query matching, add your OpenAI API key to the .mcpfy.json file or set the OPENAI_API_KEY environment variable.'}
+${config.llm || config.openaiApiKey ? '' : 'To enable AI-powered query matching, add an \`llm\` block to the .mcphy.json file or set the OPENAI_API_KEY or ANTHROPIC_API_KEY environment variable.'}
 
 ## Usage
 
@@ -12,9 +12,18 @@ import * as readline from 'readline';
 import { Logger } from './utils/logger';
 import { SwaggerAPIParser } from './parser/swaggerParser';
 import { PostmanParser } from './parser/postmanParser';
+import { GraphQLParser } from './parser/graphqlParser';
+import { HarParser } from './parser/harParser';
+import { CurlParser } from './parser/curlParser';
+import { InsomniaParser } from './parser/insomniaParser';
+import { BrunoParser } from './parser/brunoParser';
 import { ManifestGenerator } from './server/manifest';
 import { ManifestEnhancer } from './server/manifestEnhancer';
-import { startFromConfig } from './server/mcpServer';
+import { UpstreamAuth } from './server/upstreamAuth';
+import { EndpointFilter } from './server/endpointFilter';
+import { LLMConfig } from './llm/llmProvider';
+import { LLMProviderFactory } from './llm/providerFactory';
+import { MCPServer, startFromConfig, startStdioFromConfig } from './server/mcpServer';
 
 const program = new Command();
 
@@ -52,6 +61,8 @@ program
   .description('Initialize MCPhy project by detecting API specification')
   .option('-f, --file <path>', 'Path to API specification file')
   .option('-o, --output <path>', 'Output path for config file', '.mcphy.json')
+  .option('-e, --environment <name>', 'Environment of an Insomnia export or Bruno collection (default: the first)')
+  .option('--env-file <paths...>', 'Postman environment file(s); later files override earlier ones')
   .action(async (options) => {
     try {
       Logger.info('Initializing MCPhy project...');
@@ -66,13 +77,19 @@ program
         Logger.info('Detecting API specification files...');
         const swaggerFiles = await SwaggerAPIParser.detectAPIFiles();
         const postmanFiles = await PostmanParser.detectCollectionFiles();
-        const detectedFiles = [...swaggerFiles, ...postmanFiles];
+        const insomniaFiles = await InsomniaParser.detectExportFiles();
+        const brunoCollections = await BrunoParser.detectCollections();
+        const graphqlFiles = await GraphQLParser.detectSchemaFiles();
+        const harFiles = await HarParser.detectHarFiles();
+        const curlFiles = await CurlParser.detectCurlFiles();
+        const detectedFiles = [...swaggerFiles, ...postmanFiles, ...insomniaFiles, ...brunoCollections, ...graphqlFiles, ...harFiles, ...curlFiles];
 
         if (detectedFiles.length === 0) {
           Logger.warn('No API specification files found in project root');
           console.log('\n💡 Quick fixes:');
           console.log('   1. Specify file: mcphy init -f path/to/your/api.yaml');
-          console.log('   2. Rename your file to: swagger.yaml, openapi.yaml, api.yaml, or postman_collection.json');
+          console.log('   2. Rename your file to: swagger.yaml, openapi.yaml, api.yaml, postman_collection.json or schema.graphql');
+          console.log('      (Insomnia exports, Bruno collections, HAR captures and curl files work too)');
           console.log('   3. Place file in current directory\n');
 
           // Prompt user for file path
@@ -109,83 +126,135 @@ program
       // Detect format and parse accordingly
       let apiSpec: any;
       let isPostman = false;
+      let isGraphQL = false;
+      let isHar = false;
+      let isCurl = false;
+      let isInsomnia = false;
+      let isBruno = false;
       
       // Check if it's a Postman collection
       if (apiSpecPath.endsWith('.json') && await PostmanParser.isValidCollection(apiSpecPath)) {
         Logger.info('Detected Postman collection format');
         isPostman = true;
-        // Will parse with OpenAI key later
+        // Will parse once the LLM provider is chosen
+      } else if (await GraphQLParser.isGraphQLSchema(apiSpecPath)) {
+        Logger.info('Detected GraphQL schema format');
+        isGraphQL = true;
+      } else if (await InsomniaParser.isInsomniaExport(apiSpecPath)) {
+        Logger.info('Detected Insomnia export');
+        isInsomnia = true;
+      } else if (await BrunoParser.isBrunoCollection(apiSpecPath)) {
+        Logger.info('Detected Bruno collection');
+        isBruno = true;
+      } else if (await HarParser.isHarFile(apiSpecPath)) {
+        Logger.info('Detected HAR capture');
+        isHar = true;
+      } else if (await CurlParser.isCurlFile(apiSpecPath)) {
+        Logger.info('Detected curl commands');
+        isCurl = true;
       } else {
         Logger.info('Detected OpenAPI/Swagger format');
-        // Will parse with OpenAI key after prompt
+        // Will parse once the LLM provider is chosen
       }
 
-      // Prompt for OpenAI API key (optional but recommended)
-      console.log('\n🤖 OpenAI API Key (Optional but Recommended)');
-      console.log('   MCPhy can intelligently understand your API with GPT-4');
-      console.log('   Without it, you\'ll get basic parsing (still works great!)');
-      console.log('   Get your key at: https://platform.openai.com/api-keys\n');
-      
-      let openaiApiKey = '';
-      let attempts = 0;
-      const maxAttempts = 3;
-      
-      while (!openaiApiKey && attempts < maxAttempts) {
-        openaiApiKey = await prompt(`Enter your OpenAI API key (or press Enter to skip) [${process.env.OPENAI_API_KEY ? 'current key set' : 'none'}]: `);
-        
-        if (!openaiApiKey) {
-          console.log('📝 Continuing with basic parsing (no AI enhancement)');
-          break;
-        } else if (!openaiApiKey.startsWith('sk-')) {
-          attempts++;
-          console.log(`❌ Invalid API key format. Must start with "sk-" (attempt ${attempts}/${maxAttempts})`);
-          if (attempts < maxAttempts) {
-            console.log('   Get your key at: https://platform.openai.com/api-keys\n');
-            openaiApiKey = '';
-          } else {
-            console.log('   Skipping AI enhancement due to invalid key format\n');
-            openaiApiKey = '';
-          }
-        }
-      }
-      
-      const finalOpenAIKey = openaiApiKey || process.env.OPENAI_API_KEY;
+      // Prompt for an LLM provider (optional but recommended)
+      console.log('\n🤖 LLM Provider (Optional but Recommended)');
+      console.log('   MCPhy can intelligently understand your API with an LLM');
+      console.log('   Without one, you\'ll get basic parsing (still works great!)');
+      console.log('   1. OpenAI');
+      console.log('   2. Anthropic');
+      console.log('   3. Ollama (local)');
+      console.log('   4. OpenAI-compatible server (vLLM, llama.cpp, LM Studio, ...)');
+      console.log('   5. Skip\n');
+
+      const defaultChoice = process.env.OPENAI_API_KEY ? '1' : process.env.ANTHROPIC_API_KEY ? '2' : '5';
+      const providerChoice = await prompt(`Select provider [1-5] or press Enter for default [${defaultChoice}]: `) || defaultChoice;
+
+      let llmConfig: LLMConfig | null = null;
 
-      // Prompt for LLM model selection if OpenAI key is available
-      let llmModel = 'gpt-4o-mini'; // Default
-      if (finalOpenAIKey) {
-        console.log('\n🤖 LLM Model Selection');
-        console.log('   Choose which model to use for query matching:');
+      if (providerChoice === '1') {
+        const apiKey = await prompt(`Enter your OpenAI API key [${process.env.OPENAI_API_KEY ? 'use OPENAI_API_KEY' : 'none'}]: `);
+
+        console.log('\n   Choose which model to use:');
         console.log('   1. gpt-4o-mini (fast, cost-effective) - Recommended');
         console.log('   2. gpt-4o (most capable)');
         console.log('   3. gpt-3.5-turbo (fastest, cheapest)');
         console.log('   4. Custom model\n');
-        
+
         const modelChoice = await prompt('Select model [1-4] or press Enter for default [1]: ') || '1';
-        
         const modelMap: Record<string, string> = {
           '1': 'gpt-4o-mini',
           '2': 'gpt-4o',
           '3': 'gpt-3.5-turbo',
         };
-        
-        if (modelChoice === '4') {
-          const customModel = await prompt('Enter custom model name: ');
-          llmModel = customModel || 'gpt-4o-mini';
-        } else {
-          llmModel = modelMap[modelChoice] || 'gpt-4o-mini';
+        const model = modelChoice === '4'
+          ? await prompt('Enter custom model name: ') || 'gpt-4o-mini'
+          : modelMap[modelChoice] || 'gpt-4o-mini';
+
+        llmConfig = { provider: 'openai', model, ...(apiKey ? { apiKey } : { apiKeyEnv: 'OPENAI_API_KEY' }) };
+      } else if (providerChoice === '2') {
+        const apiKey = await prompt(`Enter your Anthropic API key [${process.env.ANTHROPIC_API_KEY ? 'use ANTHROPIC_API_KEY' : 'none'}]: `);
+        const model = await prompt('Enter model name [claude-3-5-haiku-latest]: ') || 'claude-3-5-haiku-latest';
+        llmConfig = { provider: 'anthropic', model, ...(apiKey ? { apiKey } : { apiKeyEnv: 'ANTHROPIC_API_KEY' }) };
+      } else if (providerChoice === '3') {
+        const baseUrl = await prompt('Enter Ollama URL [http://localhost:11434/v1]: ') || 'http://localhost:11434/v1';
+        const model = await prompt('Enter model name [llama3.1]: ') || 'llama3.1';
+        llmConfig = { provider: 'ollama', baseUrl, model };
+      } else if (providerChoice === '4') {
+        let baseUrl = '';
+        while (!baseUrl) {
+          baseUrl = await prompt('Enter the server base URL (e.g. http://localhost:8080/v1): ');
         }
-        
-        console.log(`✅ Selected model: ${llmModel}\n`);
+        let model = '';
+        while (!model) {
+          model = await prompt('Enter model name: ');
+        }
+        const apiKey = await prompt('Enter API key (or press Enter if none): ');
+        llmConfig = { provider: 'openai-compatible', baseUrl, model, ...(apiKey ? { apiKey } : {}) };
+      } else {
+        console.log('📝 Continuing with basic parsing (no AI enhancement)');
       }
 
-      // Parse with OpenAI key
+      const llm = llmConfig ? LLMProviderFactory.create(llmConfig) : null;
+      if (llmConfig && !llm) {
+        console.log('⚠️  LLM provider is not usable yet; continuing with basic parsing');
+      } else if (llm) {
+        console.log(`✅ Using ${llm.name} (model: ${llm.model})\n`);
+      }
+
+      // Include/exclude rules from an existing config survive re-initialization
+      const configPath = path.resolve(options.output);
+      const existingConfig = await fs.pathExists(configPath) ? await fs.readJSON(configPath).catch(() => ({})) : {};
+      const endpointFilter = new EndpointFilter(existingConfig.filters);
+      if (endpointFilter.isEnabled()) {
+        console.log(`🔎 Applying endpoint filters from ${options.output}`);
+      }
+
+      // Parse with the selected LLM
       console.log('📡 Parsing API specification...');
       
+      // Postman environment files of an earlier init are kept unless others are given
+      const postmanEnvironments: string[] = options.envFile
+        ? options.envFile.map((file: string) => path.resolve(file))
+        : (existingConfig.postmanEnvironments || []).map((file: string) => path.resolve(file));
+
       if (isPostman) {
-        apiSpec = await PostmanParser.parse(apiSpecPath, finalOpenAIKey || undefined);
+        apiSpec = await PostmanParser.parse(apiSpecPath, llm, endpointFilter, postmanEnvironments);
+      } else if (isGraphQL) {
+        // Endpoint path and selection depth come from the graphql block of an existing config
+        apiSpec = await GraphQLParser.parse(apiSpecPath, existingConfig.graphql, endpointFilter);
+      } else if (isInsomnia || isBruno) {
+        // The environment choice of an earlier init is kept unless another one is given
+        const environment = options.environment || existingConfig.collectionEnvironment;
+        apiSpec = isInsomnia
+          ? await InsomniaParser.parse(apiSpecPath, environment, endpointFilter)
+          : await BrunoParser.parse(apiSpecPath, environment, endpointFilter);
+      } else if (isHar) {
+        apiSpec = await HarParser.parse(apiSpecPath, endpointFilter);
+      } else if (isCurl) {
+        apiSpec = await CurlParser.parse(apiSpecPath, endpointFilter);
       } else {
-        apiSpec = await SwaggerAPIParser.parse(apiSpecPath, finalOpenAIKey || undefined);
+        apiSpec = await SwaggerAPIParser.parse(apiSpecPath, llm, endpointFilter);
       }
       
       // Display beautiful summary
@@ -201,7 +270,7 @@ program
 
       // Prompt for API base URL
       console.log('\n🌐 API Configuration');
-      const suggestedBaseUrl = isPostman && apiSpec.baseUrl ? apiSpec.baseUrl : 'http://localhost:8000';
+      const suggestedBaseUrl = (isPostman || isInsomnia || isBruno || isHar || isCurl) && apiSpec.baseUrl ? apiSpec.baseUrl : 'http://localhost:8000';
       const apiBaseUrl = await prompt(`Enter your API base URL [${suggestedBaseUrl}]: `);
       let finalApiBaseUrl = apiBaseUrl || suggestedBaseUrl;
       
@@ -218,13 +287,16 @@ program
 
       // Generate manifest
       console.log('\n⚙️  Generating MCP manifest...');
-      let manifest = isPostman
-        ? await ManifestGenerator.generateFromPostman(apiSpec)
-        : await ManifestGenerator.generateFromSwagger(apiSpec);
+      // Other collections and recorded requests are parsed into the same paths structure as Postman collections
+      let manifest = isPostman || isInsomnia || isBruno || isHar || isCurl
+        ? await ManifestGenerator.generateFromPostman(apiSpec, endpointFilter)
+        : isGraphQL
+        ? await ManifestGenerator.generateFromGraphQL(apiSpec, endpointFilter)
+        : await ManifestGenerator.generateFromSwagger(apiSpec, endpointFilter);
 
       // Optionally enhance manifest with LLM
       let enhancementEnabled = false;
-      if (finalOpenAIKey) {
+      if (llm) {
         console.log('\n🤖 LLM Manifest Enhancement (Optional)');
         console.log('   AI can improve your manifest by:');
         console.log('   • Inferring missing parameter types (e.g., integer, boolean)');
@@ -239,8 +311,7 @@ program
             console.log('   🔄 Analyzing manifest with AI...');
             const enhancer = new ManifestEnhancer({
               enabled: true,
-              apiKey: finalOpenAIKey,
-              model: llmModel,
+              provider: llm,
             });
 
             manifest = await enhancer.enhanceManifest(manifest);
@@ -258,22 +329,58 @@ program
       const manifestPath = path.resolve('.mcphy-manifest.json');
       await ManifestGenerator.saveManifest(manifest, manifestPath);
 
-      // Create config file
-      const config = {
+      // With an embeddings block, the endpoint index is built now so that serve starts from the cache
+      const endpointIndex = MCPServer.createEndpointIndex(existingConfig.embeddings, configPath);
+      if (endpointIndex) {
+        console.log('🧭 Building endpoint embedding index...');
+        try {
+          const { embedded, cached } = await endpointIndex.build(manifest.endpoints);
+          console.log(`   ✅ ${embedded} endpoint(s) embedded, ${cached} from cache\n`);
+        } catch (error) {
+          console.log(`   ⚠️  Could not build the index (${(error as Error).message}); it will be built when the server starts\n`);
+        }
+      }
+
+      // Create config file; blocks of an earlier init (safety, inboundAuth, uploads, ...) are kept,
+      // and what init derives from the spec is replaced
+      const config: Record<string, any> = {
+        ...existingConfig,
         name: apiSpec.info.title,
         description: apiSpec.info.description || '',
         version: apiSpec.info.version,
         apiSpecPath: path.relative(process.cwd(), apiSpecPath),
-        apiSpecFormat: isPostman ? 'postman' : 'openapi',
+        apiSpecFormat: isPostman ? 'postman' : isInsomnia ? 'insomnia' : isBruno ? 'bruno' : isGraphQL ? 'graphql' : isHar ? 'har' : isCurl ? 'curl' : 'openapi',
         manifestPath: path.relative(process.cwd(), manifestPath),
-        port: 3000,
-        openaiApiKey: finalOpenAIKey,
+        port: existingConfig.port || 3000,
         apiBaseUrl: finalApiBaseUrl,
-        llmModel: llmModel,
+        llm: llmConfig,
         manifestEnhancement: enhancementEnabled,
       };
 
-      const configPath = path.resolve(options.output);
+      // The llm block replaces the older top-level fields, which would otherwise still select a provider
+      delete config.openaiApiKey;
+      delete config.llmModel;
+
+      // Starter upstream auth profiles; secrets stay in environment variables
+      // Profiles of an earlier init may have been customised, so they are kept by name
+      const starterProfiles = UpstreamAuth.profilesFromSecuritySchemes(manifest.securitySchemes || {});
+      const authProfiles = { ...starterProfiles, ...(existingConfig.auth?.profiles || {}) };
+      if (Object.keys(authProfiles).length > 0) {
+        config.auth = { ...existingConfig.auth, profiles: authProfiles };
+      }
+
+      // Environment choices only apply to the format they were made for
+      delete config.collectionEnvironment;
+      delete config.postmanEnvironments;
+
+      if ((isInsomnia || isBruno) && (options.environment || existingConfig.collectionEnvironment)) {
+        config.collectionEnvironment = options.environment || existingConfig.collectionEnvironment;
+      }
+
+      if (isPostman && postmanEnvironments.length > 0) {
+        config.postmanEnvironments = postmanEnvironments.map((file) => path.relative(process.cwd(), file));
+      }
+
       await fs.writeJSON(configPath, config, { spaces: 2 });
 
       // Beautiful success message
@@ -283,6 +390,17 @@ program
       console.log('│ ✅ MCP manifest generated                              │');
       console.log('│ ✅ Ready to start your conversational API server!      │');
       console.log('└─────────────────────────────────────────────────────────┘');
+      if (Object.keys(starterProfiles).length > 0) {
+        console.log('\n🔐 Upstream authentication');
+        console.log('   Your API declares security schemes. Set these environment variables before serving:');
+        for (const profile of Object.keys(starterProfiles).map((name) => authProfiles[name])) {
+          const envNames = Object.entries(profile)
+            .filter(([key]) => key.endsWith('Env'))
+            .map(([, value]) => value);
+          envNames.forEach((envName) => console.log(`   • ${envName}`));
+        }
+      }
+
       console.log('\n🚀 Next steps:');
       console.log('   1. Run: mcphy serve');
       console.log('   2. Open: http://localhost:3000');
@@ -318,7 +436,7 @@ program
         console.log('   • Try: chmod u+w .');
       } else {
         console.log('   • Invalid API spec? Run: mcphy validate <your-file>');
-        console.log('   • Wrong file format? Ensure it\'s OpenAPI/Swagger or Postman');
+        console.log('   • Wrong file format? Ensure it\'s OpenAPI/Swagger, Postman, GraphQL, HAR or curl commands');
         console.log('   • Check file exists and is readable');
       }
       
@@ -337,9 +455,22 @@ program
   .description('Start the MCP server')
   .option('-c, --config <path>', 'Path to config file', '.mcphy.json')
   .option('-p, --port <number>', 'Port to run server on', '3000')
+  .option('--stdio', 'Speak MCP JSON-RPC over stdin/stdout instead of HTTP')
+  .option('--env-file <paths...>', 'Postman environment file(s) to regenerate the manifest with')
   .action(async (options) => {
     try {
       const configPath = path.resolve(options.config);
+      const environmentPaths: string[] | undefined = options.envFile?.map((file: string) => path.resolve(file));
+
+      // stdout belongs to the MCP client in stdio mode, so skip the banners
+      if (options.stdio) {
+        if (!await fs.pathExists(configPath)) {
+          console.error(`Config file not found: ${configPath}. Run "mcphy init" first.`);
+          process.exit(1);
+        }
+        await startStdioFromConfig(configPath, environmentPaths);
+        process.exit(0);
+      }
 
       // Check if config exists
       if (!await fs.pathExists(configPath)) {
@@ -362,7 +493,7 @@ program
       console.log(`│ 🌐 Server starting on port ${port}...                    │`);
       console.log('└─────────────────────────────────────────────────────────┘');
       
-      await startFromConfig(configPath, port);
+      await startFromConfig(configPath, port, environmentPaths);
       
       console.log('\n✨ MCPhy Server is Running!');
       console.log('┌─────────────────────────────────────────────────────────┐');
@@ -418,15 +549,79 @@ program
       console.log('\n🔍 Validating API specification...');
       console.log(`   File: ${filePath}`);
 
-      // Check if it's Postman or OpenAPI/Swagger
+      // Check if it's Postman, GraphQL or OpenAPI/Swagger
       const isPostman = filePath.endsWith('.json') && await PostmanParser.isValidCollection(filePath);
+      const isGraphQL = !isPostman && await GraphQLParser.isGraphQLSchema(filePath);
+      const isInsomnia = !isPostman && !isGraphQL && await InsomniaParser.isInsomniaExport(filePath);
+      const isBruno = !isPostman && !isGraphQL && !isInsomnia && await BrunoParser.isBrunoCollection(filePath);
+      const isHar = !isPostman && !isGraphQL && !isInsomnia && !isBruno && await HarParser.isHarFile(filePath);
+      const isCurl = !isPostman && !isGraphQL && !isInsomnia && !isBruno && !isHar && await CurlParser.isCurlFile(filePath);
       
-      if (isPostman) {
+      if (isInsomnia || isBruno || isHar || isCurl) {
+        console.log(`   Format: ${isInsomnia ? 'Insomnia export' : isBruno ? 'Bruno collection' : isHar ? 'HAR capture' : 'curl commands'}`);
+
+        // Parse errors are reported below
+        const apiSpec = isInsomnia
+          ? await InsomniaParser.parse(filePath)
+          : isBruno
+          ? await BrunoParser.parse(filePath)
+          : isHar
+          ? await HarParser.parse(filePath)
+          : await CurlParser.parse(filePath);
+        const operations = Object.values(apiSpec.paths).reduce((count: number, pathItem: any) => count + Object.keys(pathItem).length, 0);
+
+        console.log('\n✅ Validation Successful!');
+        console.log('┌─────────────────────────────────────────────────────────┐');
+        console.log('│ 🎉 Requests can be imported!                          │');
+        console.log('└─────────────────────────────────────────────────────────┘');
+
+        console.log('\n📊 Import Summary:');
+        console.log('┌─────────────────────────────────────────────────────────┐');
+        console.log(`│ 🌐 Base URL: ${(apiSpec.baseUrl || 'none').padEnd(38)} │`);
+        console.log(`│ 🔗 Paths: ${Object.keys(apiSpec.paths).length.toString().padEnd(41)} │`);
+        console.log(`│ 🚀 Operations: ${operations.toString().padEnd(36)} │`);
+        console.log('└─────────────────────────────────────────────────────────┘');
+
+        console.log('\n🚀 Next steps:');
+        console.log('   • Run: mcphy init -f ' + file);
+      } else if (isGraphQL) {
+        console.log('   Format: GraphQL schema');
+
+        if (await GraphQLParser.isValidSchema(filePath)) {
+          const apiSpec = await GraphQLParser.parse(filePath);
+          const operations = Object.values(apiSpec.paths).map((pathItem: any) => pathItem.post['x-mcphy-graphql'].operation);
+
+          console.log('\n✅ Validation Successful!');
+          console.log('┌─────────────────────────────────────────────────────────┐');
+          console.log('│ 🎉 GraphQL schema is valid!                            │');
+          console.log('└─────────────────────────────────────────────────────────┘');
+
+          console.log('\n📊 Schema Summary:');
+          console.log('┌─────────────────────────────────────────────────────────┐');
+          console.log(`│ 📋 ${apiSpec.info.title.padEnd(47)} │`);
+          console.log(`│ 🔎 Queries: ${operations.filter((op) => op === 'query').length.toString().padEnd(39)} │`);
+          console.log(`│ ✏️  Mutations: ${operations.filter((op) => op === 'mutation').length.toString().padEnd(36)} │`);
+          console.log('└─────────────────────────────────────────────────────────┘');
+
+          console.log('\n🚀 Next steps:');
+          console.log('   • Run: mcphy init -f ' + file);
+        } else {
+          console.log('\n❌ Validation Failed!');
+          console.log('┌─────────────────────────────────────────────────────────┐');
+          console.log('│ 🚨 GraphQL schema is invalid                           │');
+          console.log('└─────────────────────────────────────────────────────────┘');
+          console.log('\n🔧 Common issues:');
+          console.log('   • Check the SDL syntax, or that the JSON is an introspection result with __schema');
+          console.log('   • Ensure the schema defines a Query or Mutation type');
+          console.log('\n📖 See: https://github.com/sehmim/mcphy/blob/main/docs/troubleshooting.md\n');
+          process.exit(1);
+        }
+      } else if (isPostman) {
         console.log('   Format: Postman Collection');
         const isValid = await PostmanParser.isValidCollection(filePath);
         
         if (isValid) {
-          const apiSpec = await PostmanParser.parse(filePath);
+          const apiSpec = await PostmanParser.parse(filePath, LLMProviderFactory.fromConfig());
           
           console.log('\n✅ Validation Successful!');
           console.log('┌─────────────────────────────────────────────────────────┐');
@@ -442,7 +637,7 @@ program
           
           console.log('\n🚀 Next steps:');
           console.log('   • Run: mcphy init -f ' + file);
-          console.log('   • Use OpenAI API key for enhanced parsing');
+          console.log('   • Configure an LLM provider for enhanced parsing');
         } else {
           console.log('\n❌ Validation Failed!');
           console.log('┌─────────────────────────────────────────────────────────┐');
@@ -460,7 +655,7 @@ program
         const isValid = await SwaggerAPIParser.isValidSpec(filePath);
 
         if (isValid) {
-          const apiSpec = await SwaggerAPIParser.parse(filePath);
+          const apiSpec = await SwaggerAPIParser.parse(filePath, LLMProviderFactory.fromConfig());
           
           console.log('\n✅ Validation Successful!');
           console.log('┌─────────────────────────────────────────────────────────┐');
@@ -476,7 +671,7 @@ program
           
           console.log('\n🚀 Next steps:');
           console.log('   • Run: mcphy init -f ' + file);
-          console.log('   • Use OpenAI API key for enhanced parsing');
+          console.log('   • Configure an LLM provider for enhanced parsing');
         } else {
           console.log('\n❌ Validation Failed!');
           console.log('┌─────────────────────────────────────────────────────────┐');
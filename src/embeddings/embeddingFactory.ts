@@ -0,0 +1,78 @@
+/**
+ * Builds the configured embedding provider
+ */
+
+import { Logger } from '../utils/logger';
+import { EmbeddingConfig, EmbeddingProvider } from './embeddingProvider';
+import { HashingEmbedder } from './hashingEmbedder';
+import { OpenAIEmbedder } from './openaiEmbedder';
+import { TransformersEmbedder } from './transformersEmbedder';
+
+const DEFAULT_MODELS: Record<string, string> = {
+  openai: 'text-embedding-3-small',
+  ollama: 'nomic-embed-text',
+};
+
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434/v1';
+
+export class EmbeddingProviderFactory {
+  /**
+   * Instantiate a provider; returns null (with a warning) when the config is incomplete
+   */
+  static create(config: EmbeddingConfig): EmbeddingProvider | null {
+    const apiKey = this.readApiKey(config);
+    const model = config.model || DEFAULT_MODELS[config.provider];
+
+    switch (config.provider) {
+      case 'hashing':
+        return this.announce(new HashingEmbedder(config.dimensions));
+
+      case 'transformers':
+        return this.announce(new TransformersEmbedder(config.model));
+
+      case 'openai':
+        if (!apiKey) {
+          Logger.warn('Embedding provider "openai" has no API key (set OPENAI_API_KEY or embeddings.apiKeyEnv)');
+          return null;
+        }
+        return this.announce(new OpenAIEmbedder({ model, apiKey, baseUrl: config.baseUrl }));
+
+      case 'ollama':
+        return this.announce(
+          new OpenAIEmbedder({ name: 'ollama', model, apiKey, baseUrl: config.baseUrl || DEFAULT_OLLAMA_URL })
+        );
+
+      case 'openai-compatible':
+        if (!config.baseUrl || !model) {
+          Logger.warn('Embedding provider "openai-compatible" needs both embeddings.baseUrl and embeddings.model');
+          return null;
+        }
+        return this.announce(new OpenAIEmbedder({ name: 'openai-compatible', model, apiKey, baseUrl: config.baseUrl }));
+
+      default:
+        Logger.warn(`Unknown embedding provider "${(config as any).provider}"`);
+        return null;
+    }
+  }
+
+  /**
+   * Key from embeddings.apiKeyEnv, embeddings.apiKey, or OPENAI_API_KEY for OpenAI
+   */
+  private static readApiKey(config: EmbeddingConfig): string | undefined {
+    if (config.apiKeyEnv) {
+      return process.env[config.apiKeyEnv] || undefined;
+    }
+    if (config.apiKey) {
+      return config.apiKey;
+    }
+    return config.provider === 'openai' ? process.env.OPENAI_API_KEY : undefined;
+  }
+
+  /**
+   * Log the selected provider
+   */
+  private static announce(provider: EmbeddingProvider): EmbeddingProvider {
+    Logger.info(`Embedding provider: ${provider.name} (model: ${provider.model})`);
+    return provider;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Provider-neutral interface for text embeddings
+ */
+
+export type EmbeddingProviderType = 'hashing' | 'openai' | 'openai-compatible' | 'ollama' | 'transformers';
+
+/**
+ * The `embeddings` block of .mcphy.json
+ */
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderType;
+  model?: string;
+  /** Literal key; prefer apiKeyEnv so the key stays out of the config file */
+  apiKey?: string;
+  apiKeyEnv?: string;
+  /** Server URL for openai-compatible/ollama providers */
+  baseUrl?: string;
+  /** Vector size of the hashing embedder */
+  dimensions?: number;
+  /** Where endpoint vectors are cached (default .mcphy-embeddings.json next to the config) */
+  cachePath?: string;
+  /** Endpoints retrieved for the LLM prompt */
+  topN?: number;
+  /** Manifests with fewer endpoints send every endpoint to the LLM */
+  minEndpoints?: number;
+}
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderType;
+  readonly model: string;
+
+  /**
+   * Embed texts, returning one vector per text in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Cosine similarity of two vectors; 0 when either is all zeros
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
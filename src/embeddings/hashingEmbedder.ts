@@ -0,0 +1,76 @@
+/**
+ * Deterministic embeddings without a model: stemmed words, word pairs and
+ * character trigrams are hashed into a fixed number of dimensions
+ *
+ * Similar wording gives similar vectors, so retrieval works offline and in
+ * reproducible tests; it knows nothing about meaning beyond shared word parts.
+ */
+
+import { EmbeddingProvider, EmbeddingProviderType } from './embeddingProvider';
+import { tokenize } from '../utils/tokenizer';
+
+export const DEFAULT_HASHING_DIMENSIONS = 512;
+
+// Word parts count less than whole words
+const PAIR_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+export class HashingEmbedder implements EmbeddingProvider {
+  readonly name: EmbeddingProviderType = 'hashing';
+  readonly model: string;
+  private dimensions: number;
+
+  constructor(dimensions: number = DEFAULT_HASHING_DIMENSIONS) {
+    this.dimensions = dimensions;
+    this.model = `hashing-${dimensions}`;
+  }
+
+  /**
+   * Embed texts, returning L2-normalized vectors
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  /**
+   * Vector of one text
+   */
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = tokenize(text);
+
+    words.forEach((word, i) => {
+      this.add(vector, `w:${word}`, 1);
+      if (i > 0) {
+        this.add(vector, `p:${words[i - 1]} ${word}`, PAIR_WEIGHT);
+      }
+      const padded = `^${word}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        this.add(vector, `t:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  /**
+   * Add a feature to its hashed dimension; a second hash bit picks the sign so collisions tend to cancel out
+   */
+  private add(vector: number[], feature: string, weight: number): void {
+    const hash = this.hash(feature);
+    vector[hash % this.dimensions] += (hash & 0x80000000 ? -1 : 1) * weight;
+  }
+
+  /**
+   * 32-bit FNV-1a hash
+   */
+  private hash(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * OpenAI and OpenAI-compatible embedding providers
+ * (Ollama, vLLM, LM Studio, text-embeddings-inference, ...)
+ */
+
+import OpenAI from 'openai';
+import { EmbeddingProvider, EmbeddingProviderType } from './embeddingProvider';
+
+export interface OpenAIEmbedderOptions {
+  name?: EmbeddingProviderType;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+// Keeps each request well below provider input limits
+const BATCH_SIZE = 100;
+
+export class OpenAIEmbedder implements EmbeddingProvider {
+  readonly name: EmbeddingProviderType;
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(options: OpenAIEmbedderOptions) {
+    this.name = options.name || 'openai';
+    this.model = options.model;
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseUrl,
+    });
+  }
+
+  /**
+   * Embed texts via /embeddings, in batches
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const response = await this.client.embeddings.create({ model: this.model, input: texts.slice(i, i + BATCH_SIZE) });
+      vectors.push(...response.data.sort((a, b) => a.index - b.index).map((item) => item.embedding));
+    }
+
+    return vectors;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Local embeddings in pure JavaScript with Transformers.js
+ *
+ * The model runs in-process (ONNX via WebAssembly/Node); it is downloaded from the
+ * Hugging Face hub on first use and cached. @huggingface/transformers is an optional
+ * dependency: install it to use this provider.
+ */
+
+import { EmbeddingProvider, EmbeddingProviderType } from './embeddingProvider';
+
+export const DEFAULT_TRANSFORMERS_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+const PACKAGE_NAME = '@huggingface/transformers';
+
+// The package is ESM-only; a CommonJS build would otherwise turn import() into require()
+const importModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<any>;
+
+export class TransformersEmbedder implements EmbeddingProvider {
+  readonly name: EmbeddingProviderType = 'transformers';
+  readonly model: string;
+  private extractor?: Promise<any>;
+
+  constructor(model: string = DEFAULT_TRANSFORMERS_MODEL) {
+    this.model = model;
+  }
+
+  /**
+   * Embed texts with mean pooling, returning L2-normalized vectors
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const extractor = await this.load();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist();
+  }
+
+  /**
+   * Load the feature-extraction pipeline once
+   */
+  private load(): Promise<any> {
+    if (!this.extractor) {
+      this.extractor = importModule(PACKAGE_NAME)
+        .catch(() => {
+          throw new Error(`Embedding provider "transformers" needs the ${PACKAGE_NAME} package (npm install ${PACKAGE_NAME})`);
+        })
+        .then((transformers) => transformers.pipeline('feature-extraction', this.model));
+
+      // A failed load can be retried, e.g. after installing the package
+      this.extractor.catch(() => {
+        this.extractor = undefined;
+      });
+    }
+
+    return this.extractor;
+  }
+}
@@ -3,9 +3,48 @@
  * Main entry point for programmatic usage
  */
 
-export { MCPServer, MCPServerOptions, startFromConfig } from './server/mcpServer';
-export { ManifestGenerator, MCPManifest, MCPEndpoint, MCPParameter } from './server/manifest';
-export { QueryMatcher, QueryMatchResult } from './server/queryMatcher';
+export { MCPServer, MCPServerOptions, startFromConfig, startStdioFromConfig } from './server/mcpServer';
+export { MCPProtocolHandler, MCPTool, MCPClientConnection, ClientRequests } from './server/mcpProtocol';
+export { RequestExecutor, ExecutionResult } from './server/requestExecutor';
+export { StdioTransport } from './server/stdioTransport';
+export { StreamableHttpTransport, StreamableHttpConfig } from './server/httpTransport';
+export { SchemaConverter } from './server/schemaConverter';
+export { SchemaNormalizer } from './server/schemaNormalizer';
+export { QueryExecutor, QueryExecutionResult } from './server/queryExecutor';
+export { QueryPlanner, QueryPlan, PlanStep, PlanExecutionResult, PlanValidationError } from './server/queryPlanner';
+export { ResponseSummarizer } from './server/responseSummarizer';
+export { AnswerGenerator, AnswerConfig, AnswerCitation, GroundedAnswer } from './server/answerGenerator';
+export { UpstreamAuth, UpstreamAuthConfig, AuthProfile } from './server/upstreamAuth';
+export { InboundAuth, InboundAuthConfig, AccessScope } from './server/inboundAuth';
+export { EndpointFilter, EndpointFilterConfig, EndpointFilterRule } from './server/endpointFilter';
+export { SafetyPolicy, SafetyConfig, SafetyDecision, SafetyPolicyError, redactRequest } from './server/safetyPolicy';
+export { RequestBodyEncoder, UploadConfig, FileInput, UploadError } from './server/requestBodyEncoder';
+export { ResponseHandler, ResponseConfig, SavedResponse } from './server/responseHandler';
+export { Paginator, PaginationConfig } from './server/pagination';
+export { ConversationStore, ConversationConfig, ConversationTurn, SESSION_HEADER } from './server/conversationStore';
+export { ClarificationStore, ClarificationConfig, ClarificationField, ClarificationRequest, ClarificationError, PendingCall } from './server/clarification';
+export { ParamValidator, ParamValidationError, ParamValidationResult, ParamErrorCode } from './server/paramValidator';
+export { EndpointRanker, MatchingConfig, RankedEndpoint } from './server/endpointRanker';
+export { EndpointIndex, EndpointIndexOptions, RetrievedEndpoint } from './server/endpointIndex';
+export { LLMProvider, LLMConfig, LLMMessage, LLMCompletionRequest, parseJsonResponse } from './llm/llmProvider';
+export { LLMProviderFactory } from './llm/providerFactory';
+export { EmbeddingProvider, EmbeddingConfig, EmbeddingProviderType, cosineSimilarity } from './embeddings/embeddingProvider';
+export { EmbeddingProviderFactory } from './embeddings/embeddingFactory';
+export { HashingEmbedder } from './embeddings/hashingEmbedder';
+export { OpenAIEmbedder } from './embeddings/openaiEmbedder';
+export { TransformersEmbedder } from './embeddings/transformersEmbedder';
+export { OpenAIProvider } from './llm/openaiProvider';
+export { AnthropicProvider } from './llm/anthropicProvider';
+export { ManifestGenerator, MCPManifest, MCPEndpoint, MCPParameter, MCPResponse, MCPPagination, MCPGraphQLOperation, SafetyLevel } from './server/manifest';
+export { QueryMatcher, QueryMatchResult, MatchCandidate } from './server/queryMatcher';
 export { SwaggerAPIParser, ParsedAPI } from './parser/swaggerParser';
 export { PostmanParser } from './parser/postmanParser';
+export { GraphQLParser, GraphQLConfig, ParsedGraphQLAPI } from './parser/graphqlParser';
+export { RecordedRequestMerger, RecordedRequest, RecordedBody, ParsedRecordedAPI } from './parser/recordedRequests';
+export { HarParser } from './parser/harParser';
+export { CurlParser } from './parser/curlParser';
+export { CollectionConverter, CollectionRequest, CollectionValue, CollectionBody, CollectionAuth, ParsedCollectionAPI } from './parser/collectionRequests';
+export { InsomniaParser } from './parser/insomniaParser';
+export { BrunoParser, BruDocument } from './parser/brunoParser';
+export { GraphQLDocument, GraphQLRequestBody } from './server/graphqlDocument';
 export { Logger, LogLevel } from './utils/logger';
@@ -0,0 +1,74 @@
+/**
+ * Anthropic Messages API provider
+ */
+
+import { LLMCompletionRequest, LLMProvider } from './llmProvider';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+
+export interface AnthropicProviderOptions {
+  model: string;
+  apiKey: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+  private headers: Record<string, string>;
+
+  constructor(options: AnthropicProviderOptions) {
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+    this.headers = options.headers || {};
+  }
+
+  /**
+   * Run a completion via /v1/messages
+   * System messages go in the top-level system field; JSON mode is requested in the prompt
+   */
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const systemParts = request.messages.filter((m) => m.role === 'system').map((m) => m.content);
+    if (request.json) {
+      systemParts.push('Respond with a single JSON object only, without Markdown or commentary.');
+    }
+
+    const body = {
+      model: this.model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(systemParts.length > 0 ? { system: systemParts.join('\n\n') } : {}),
+      messages: request.messages
+        .filter((m) => m.role !== 'system')
+        .map((m) => ({ role: m.role, content: m.content })),
+    };
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': API_VERSION,
+        ...this.headers,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text();
+      throw new Error(`Anthropic API error ${response.status}: ${detail}`);
+    }
+
+    const data: any = await response.json();
+    return (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Provider-neutral interface for chat-style LLM calls
+ */
+
+export type LLMProviderType = 'openai' | 'openai-compatible' | 'ollama' | 'anthropic';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the model for a single JSON object */
+  json?: boolean;
+}
+
+/**
+ * The `llm` block of .mcphy.json
+ */
+export interface LLMConfig {
+  provider: LLMProviderType;
+  model?: string;
+  /** Literal key; prefer apiKeyEnv so the key stays out of the config file */
+  apiKey?: string;
+  apiKeyEnv?: string;
+  /** Server URL for openai-compatible/ollama providers, or a proxy for hosted ones */
+  baseUrl?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderType;
+  readonly model: string;
+
+  /**
+   * Run a chat completion and return the text of the reply
+   */
+  complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+/**
+ * Parse a JSON reply, tolerating Markdown code fences and surrounding prose
+ */
+export function parseJsonResponse<T = any>(text: string): T {
+  const trimmed = (text || '').trim();
+  if (!trimmed) return {} as T;
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1].trim() : trimmed;
+
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      return JSON.parse(candidate.slice(start, end + 1));
+    }
+    throw error;
+  }
+}
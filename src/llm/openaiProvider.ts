@@ -0,0 +1,47 @@
+/**
+ * OpenAI and OpenAI-compatible chat completion providers
+ * (vLLM, llama.cpp server, Ollama, LM Studio, ...)
+ */
+
+import OpenAI from 'openai';
+import { LLMCompletionRequest, LLMProvider, LLMProviderType } from './llmProvider';
+
+export interface OpenAIProviderOptions {
+  name?: LLMProviderType;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderType;
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name || 'openai';
+    this.model = options.model;
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseUrl,
+      defaultHeaders: options.headers,
+    });
+  }
+
+  /**
+   * Run a chat completion via /chat/completions
+   */
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    return response.choices[0]?.message?.content || '';
+  }
+}
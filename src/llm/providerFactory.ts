@@ -0,0 +1,139 @@
+/**
+ * Builds the configured LLM provider
+ */
+
+import { Logger } from '../utils/logger';
+import { LLMConfig, LLMProvider } from './llmProvider';
+import { OpenAIProvider } from './openaiProvider';
+import { AnthropicProvider } from './anthropicProvider';
+
+const DEFAULT_MODELS: Record<string, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  ollama: 'llama3.1',
+};
+
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434/v1';
+
+/**
+ * Config fields that select the provider: the `llm` block, or the
+ * older top-level openaiApiKey/llmModel pair
+ */
+export interface LLMConfigSource {
+  llm?: LLMConfig | null;
+  openaiApiKey?: string | null;
+  llmModel?: string;
+}
+
+export class LLMProviderFactory {
+  /**
+   * Resolve the provider from config and environment, or null when no LLM is available
+   */
+  static fromConfig(source: LLMConfigSource = {}): LLMProvider | null {
+    const config = this.resolveConfig(source);
+    return config ? this.create(config) : null;
+  }
+
+  /**
+   * Work out which provider config applies
+   * An explicit `llm` block wins, and `llm: null` turns the LLM off;
+   * otherwise fall back to OpenAI/Anthropic keys in config or env
+   */
+  static resolveConfig(source: LLMConfigSource = {}): LLMConfig | null {
+    if (source.llm === null) {
+      return null;
+    }
+
+    if (source.llm?.provider) {
+      return source.llm;
+    }
+
+    const openaiKey = source.openaiApiKey || process.env.OPENAI_API_KEY;
+    if (openaiKey) {
+      return { provider: 'openai', apiKey: openaiKey, model: source.llmModel };
+    }
+
+    if (process.env.ANTHROPIC_API_KEY) {
+      return { provider: 'anthropic', apiKey: process.env.ANTHROPIC_API_KEY, model: source.llmModel };
+    }
+
+    return null;
+  }
+
+  /**
+   * Instantiate a provider; returns null (with a warning) when the config is incomplete
+   */
+  static create(config: LLMConfig): LLMProvider | null {
+    const apiKey = this.readApiKey(config);
+    const model = config.model || DEFAULT_MODELS[config.provider];
+
+    switch (config.provider) {
+      case 'openai':
+        if (!apiKey) {
+          Logger.warn('LLM provider "openai" has no API key (set OPENAI_API_KEY or llm.apiKeyEnv)');
+          return null;
+        }
+        return this.announce(new OpenAIProvider({ model, apiKey, baseUrl: config.baseUrl, headers: config.headers }));
+
+      case 'anthropic':
+        if (!apiKey) {
+          Logger.warn('LLM provider "anthropic" has no API key (set ANTHROPIC_API_KEY or llm.apiKeyEnv)');
+          return null;
+        }
+        return this.announce(new AnthropicProvider({ model, apiKey, baseUrl: config.baseUrl, headers: config.headers }));
+
+      case 'ollama':
+        return this.announce(
+          new OpenAIProvider({
+            name: 'ollama',
+            model,
+            apiKey,
+            baseUrl: config.baseUrl || DEFAULT_OLLAMA_URL,
+            headers: config.headers,
+          })
+        );
+
+      case 'openai-compatible':
+        if (!config.baseUrl || !model) {
+          Logger.warn('LLM provider "openai-compatible" needs both llm.baseUrl and llm.model');
+          return null;
+        }
+        return this.announce(
+          new OpenAIProvider({
+            name: 'openai-compatible',
+            model,
+            apiKey,
+            baseUrl: config.baseUrl,
+            headers: config.headers,
+          })
+        );
+
+      default:
+        Logger.warn(`Unknown LLM provider "${(config as any).provider}"`);
+        return null;
+    }
+  }
+
+  /**
+   * Key from llm.apiKeyEnv, llm.apiKey, or the provider's usual environment variable
+   */
+  private static readApiKey(config: LLMConfig): string | undefined {
+    if (config.apiKeyEnv) {
+      return process.env[config.apiKeyEnv] || undefined;
+    }
+    if (config.apiKey) {
+      return config.apiKey;
+    }
+    if (config.provider === 'openai') return process.env.OPENAI_API_KEY;
+    if (config.provider === 'anthropic') return process.env.ANTHROPIC_API_KEY;
+    return undefined;
+  }
+
+  /**
+   * Log the selected provider
+   */
+  private static announce(provider: LLMProvider): LLMProvider {
+    Logger.info(`LLM provider: ${provider.name} (model: ${provider.model})`);
+    return provider;
+  }
+}
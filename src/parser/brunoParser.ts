@@ -0,0 +1,351 @@
+/**
+ * Parser for Bruno collections: a directory with bruno.json and one .bru file per request
+ *
+ * Subdirectories are folders (named by their folder.bru when present) and
+ * become tags. Variables come from one environment in environments/ (the first
+ * unless one is named), collection.bru and folder.bru request variables.
+ * Headers and auth set on the collection or a folder apply to the requests
+ * inside it; requests with `auth: inherit` use the nearest one.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Logger } from '../utils/logger';
+import { EndpointFilter } from '../server/endpointFilter';
+import { CollectionAuth, CollectionBody, CollectionConverter, CollectionRequest, CollectionValue, ParsedCollectionAPI } from './collectionRequests';
+
+/**
+ * Blocks of a .bru file: key/value blocks, text blocks (bodies, docs) and lists (vars:secret)
+ */
+export interface BruDocument {
+  [block: string]: { values?: CollectionValue[]; text?: string; list?: string[] };
+}
+
+/** Blocks whose content is text rather than key: value lines */
+const TEXT_BLOCK = /^(body:(json|text|xml|graphql|graphql:vars|sparql)|docs|script:.*|tests)$/;
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head'];
+
+interface FolderScope {
+  folders: string[];
+  variables: Record<string, any>;
+  headers: CollectionValue[];
+  auth: CollectionAuth | null | undefined;
+}
+
+export class BrunoParser {
+  /**
+   * Parse a Bruno collection
+   * @param collectionPath - The collection directory or its bruno.json
+   * @param environment - Environment to use; the first one when unset
+   */
+  static async parse(collectionPath: string, environment?: string, filter?: EndpointFilter): Promise<ParsedCollectionAPI> {
+    try {
+      const directory = path.basename(collectionPath) === 'bruno.json' ? path.dirname(collectionPath) : collectionPath;
+      Logger.info(`Parsing Bruno collection from ${directory}`);
+
+      const config = await fs.readJSON(path.join(directory, 'bruno.json'));
+      const collection = await this.readBru(path.join(directory, 'collection.bru'));
+      const variables = {
+        ...(await this.readEnvironment(directory, environment)),
+        ...this.variablesOf(collection),
+      };
+
+      const requests: CollectionRequest[] = [];
+      await this.collectRequests(
+        directory,
+        {
+          folders: [],
+          variables,
+          headers: this.values(collection, 'headers'),
+          auth: this.readAuth(collection, collection.auth ? this.value(collection, 'auth', 'mode') : undefined),
+        },
+        requests,
+        true
+      );
+
+      const parsedAPI = CollectionConverter.toAPI(
+        { title: config.name || path.basename(directory), description: collection.docs?.text },
+        requests,
+        variables,
+        filter
+      );
+
+      Logger.success(`Successfully parsed Bruno collection: ${parsedAPI.info.title}`);
+      return parsedAPI;
+    } catch (error) {
+      Logger.error('Failed to parse Bruno collection', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read the requests of a directory and its subdirectories, in `seq` order
+   */
+  private static async collectRequests(directory: string, scope: FolderScope, requests: CollectionRequest[], isRoot = false): Promise<void> {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    const files: Array<{ seq: number; document: BruDocument }> = [];
+
+    for (const entry of entries) {
+      if (!entry.isFile() || !entry.name.endsWith('.bru') || ['collection.bru', 'folder.bru'].includes(entry.name)) continue;
+      const document = await this.readBru(path.join(directory, entry.name));
+      files.push({ seq: Number(this.value(document, 'meta', 'seq')) || 0, document });
+    }
+
+    for (const { document } of files.sort((a, b) => a.seq - b.seq)) {
+      const request = this.toRequest(document, scope);
+      if (request) requests.push(request);
+    }
+
+    for (const entry of entries) {
+      // environments/ holds environments, not requests; dot-directories are tooling
+      if (!entry.isDirectory() || entry.name.startsWith('.') || entry.name === 'node_modules' || (isRoot && entry.name === 'environments')) continue;
+
+      const folderPath = path.join(directory, entry.name);
+      const folder = await this.readBru(path.join(folderPath, 'folder.bru'));
+      const mode = folder.auth ? this.value(folder, 'auth', 'mode') : undefined;
+      const auth = this.readAuth(folder, mode);
+
+      await this.collectRequests(folderPath, {
+        folders: [...scope.folders, this.value(folder, 'meta', 'name') || entry.name],
+        variables: { ...scope.variables, ...this.variablesOf(folder) },
+        headers: [...scope.headers, ...this.values(folder, 'headers')],
+        auth: auth === undefined ? scope.auth : auth,
+      }, requests);
+    }
+  }
+
+  /**
+   * Request described by a .bru file; GraphQL and other non-HTTP requests are skipped
+   */
+  private static toRequest(document: BruDocument, scope: FolderScope): CollectionRequest | null {
+    const method = HTTP_METHODS.find((name) => document[name]);
+    const type = this.value(document, 'meta', 'type') || 'http';
+    if (!method || type !== 'http') {
+      return null;
+    }
+
+    const mode = this.value(document, method, 'auth') || 'none';
+    const auth = this.readAuth(document, mode);
+
+    return {
+      name: this.value(document, 'meta', 'name') || 'Request',
+      description: document.docs?.text,
+      folders: scope.folders,
+      method,
+      url: this.value(document, method, 'url') || '',
+      query: this.values(document, 'params:query'),
+      pathParams: this.values(document, 'params:path'),
+      headers: [...scope.headers, ...this.values(document, 'headers')],
+      body: this.readBody(document, this.value(document, method, 'body') || 'none'),
+      auth: auth === undefined ? scope.auth : auth,
+      variables: { ...scope.variables, ...this.variablesOf(document) },
+    };
+  }
+
+  /**
+   * Auth for an auth mode; undefined when it inherits
+   */
+  private static readAuth(document: BruDocument, mode?: string): CollectionAuth | null | undefined {
+    switch (mode) {
+      case undefined:
+      case 'inherit':
+        return undefined;
+      case 'none':
+        return null;
+      case 'bearer':
+        return { type: 'bearer' };
+      case 'basic':
+        return { type: 'basic' };
+      case 'apikey':
+        return {
+          type: 'apikey',
+          in: this.value(document, 'auth:apikey', 'placement') === 'queryparams' ? 'query' : 'header',
+          name: this.value(document, 'auth:apikey', 'key'),
+        };
+      case 'oauth2':
+        return { type: 'oauth2', tokenUrl: this.value(document, 'auth:oauth2', 'access_token_url') };
+      default:
+        Logger.warn(`Unsupported Bruno auth mode "${mode}"; configure an auth profile for it`);
+        return undefined;
+    }
+  }
+
+  private static readBody(document: BruDocument, mode: string): CollectionBody | undefined {
+    switch (mode) {
+      case 'json':
+        return { mode: 'json', text: document['body:json']?.text };
+      case 'text':
+      case 'xml':
+      case 'sparql':
+        return {
+          mode: 'text',
+          text: document[`body:${mode}`]?.text,
+          contentType: mode === 'xml' ? 'application/xml' : mode === 'sparql' ? 'application/sparql-query' : 'text/plain',
+        };
+      case 'formUrlEncoded':
+        return { mode: 'urlencoded', fields: this.values(document, 'body:form-urlencoded') };
+      case 'multipartForm':
+        return {
+          mode: 'multipart',
+          fields: this.values(document, 'body:multipart-form').map((field) => ({
+            name: field.name,
+            value: field.value,
+            file: /^@file\(/.test(field.value || ''),
+          })),
+        };
+      case 'file':
+        return { mode: 'file', contentType: (this.value(document, 'body:file', 'file') || '').match(/@contentType\(([^)]+)\)/)?.[1] };
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Variables of an environment file; vars:secret values live outside the collection and stay unresolved
+   */
+  private static async readEnvironment(directory: string, name?: string): Promise<Record<string, any>> {
+    const environmentsDir = path.join(directory, 'environments');
+    const files = (await fs.pathExists(environmentsDir))
+      ? (await fs.readdir(environmentsDir)).filter((file) => file.endsWith('.bru')).sort()
+      : [];
+    const names = files.map((file) => path.basename(file, '.bru'));
+
+    const selected = name ? names.find((env) => env === name) : names[0];
+    if (name && !selected) {
+      Logger.warn(`Environment "${name}" not found; available: ${names.join(', ') || 'none'}`);
+      return {};
+    }
+    if (!selected) {
+      return {};
+    }
+
+    Logger.info(`Using environment "${selected}"${names.length > 1 ? ` (of ${names.join(', ')})` : ''}`);
+    const environment = await this.readBru(path.join(environmentsDir, `${selected}.bru`));
+    return Object.fromEntries(this.values(environment, 'vars').map(({ name: key, value }) => [key, value]));
+  }
+
+  /**
+   * Request variables set by a .bru file
+   */
+  private static variablesOf(document: BruDocument): Record<string, any> {
+    return Object.fromEntries(this.values(document, 'vars:pre-request').map(({ name, value }) => [name, value]));
+  }
+
+  /**
+   * Enabled key/value pairs of a block
+   */
+  private static values(document: BruDocument, block: string): CollectionValue[] {
+    return document[block]?.values || [];
+  }
+
+  private static value(document: BruDocument, block: string, key: string): string | undefined {
+    return this.values(document, block).find((entry) => entry.name === key)?.value;
+  }
+
+  /**
+   * Read a .bru file; a missing file reads as empty
+   */
+  private static async readBru(filePath: string): Promise<BruDocument> {
+    if (!(await fs.pathExists(filePath))) {
+      return {};
+    }
+    return this.parseBru(await fs.readFile(filePath, 'utf-8'));
+  }
+
+  /**
+   * Parse the .bru format
+   * Blocks open with `name {` or `name [` and close with `}` or `]` at the start of a line;
+   * disabled entries (`~key: value`) are left out
+   */
+  static parseBru(content: string): BruDocument {
+    const document: BruDocument = {};
+    const lines = content.replace(/\r\n/g, '\n').split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const open = lines[i].match(/^([\w:-]+)\s*([{[])\s*$/);
+      if (!open) continue;
+
+      const [, name, bracket] = open;
+      const close = bracket === '{' ? '}' : ']';
+      const body: string[] = [];
+      for (i++; i < lines.length && lines[i].trimEnd() !== close; i++) {
+        body.push(lines[i]);
+      }
+
+      if (bracket === '[') {
+        document[name] = { list: body.map((line) => line.trim().replace(/,$/, '')).filter(Boolean) };
+      } else if (TEXT_BLOCK.test(name)) {
+        document[name] = { text: body.map((line) => line.replace(/^ {2}/, '')).join('\n').trim() };
+      } else {
+        document[name] = { values: this.parseValues(body) };
+      }
+    }
+
+    return document;
+  }
+
+  /**
+   * `key: value` lines; values may span lines between ''' quotes
+   */
+  private static parseValues(lines: string[]): CollectionValue[] {
+    const values: CollectionValue[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      const colon = line.indexOf(':');
+      if (!line || colon <= 0 || line.startsWith('~')) continue;
+
+      let value = line.slice(colon + 1).trim();
+      if (value === "'''") {
+        const text: string[] = [];
+        for (i++; i < lines.length && lines[i].trim() !== "'''"; i++) {
+          text.push(lines[i].replace(/^ {4}/, ''));
+        }
+        value = text.join('\n');
+      }
+
+      values.push({ name: line.slice(0, colon).trim(), value });
+    }
+
+    return values;
+  }
+
+  /**
+   * Check if a path is a Bruno collection (its directory or bruno.json)
+   */
+  static async isBrunoCollection(collectionPath: string): Promise<boolean> {
+    const configPath = path.basename(collectionPath) === 'bruno.json' ? collectionPath : path.join(collectionPath, 'bruno.json');
+    try {
+      const config = await fs.readJSON(configPath);
+      return Boolean(config && (config.type === 'collection' || config.version));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Detect Bruno collections in a directory: the directory itself or its subdirectories
+   */
+  static async detectCollections(directory: string = process.cwd()): Promise<string[]> {
+    if (await this.isBrunoCollection(directory)) {
+      return [directory];
+    }
+
+    const foundCollections: string[] = [];
+
+    try {
+      const entries = await fs.readdir(directory, { withFileTypes: true });
+      for (const entry of entries) {
+        const collectionPath = path.join(directory, entry.name);
+        if (entry.isDirectory() && !entry.name.startsWith('.') && await this.isBrunoCollection(collectionPath)) {
+          foundCollections.push(collectionPath);
+        }
+      }
+    } catch (error) {
+      // Directory read error, skip
+    }
+
+    return foundCollections;
+  }
+}
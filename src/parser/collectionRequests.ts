@@ -0,0 +1,368 @@
+/**
+ * Turns requests from API client collections (Insomnia, Bruno) into the
+ * OpenAPI-like `paths` structure the Postman parser produces
+ *
+ * Each request carries the variables in scope for it (environment, collection,
+ * folders). Known `{{variables}}` are substituted, and dynamic ones such as
+ * `{{$guid}}` get a fresh value; variables left in the path become path
+ * parameters, as do `:param` segments. Request auth becomes
+ * security schemes so that `mcphy init` can write matching auth profiles;
+ * credentials themselves are never copied.
+ */
+
+import { randomUUID } from 'crypto';
+import { Logger } from '../utils/logger';
+import { getValueAtPath } from '../utils/valuePath';
+import { EndpointFilter } from '../server/endpointFilter';
+import { RecordedRequestMerger } from './recordedRequests';
+
+export interface CollectionRequest {
+  name: string;
+  description?: string;
+  /** Names of the folders the request is in, outermost first */
+  folders: string[];
+  method: string;
+  /** URL as written in the collection, with {{variables}} and :params */
+  url: string;
+  query: CollectionValue[];
+  /** Values of :params, where the client stores them */
+  pathParams?: CollectionValue[];
+  headers: CollectionValue[];
+  body?: CollectionBody;
+  /** Effective auth after inheritance; null when the request explicitly has none */
+  auth?: CollectionAuth | null;
+  /** Variables in scope for the request */
+  variables: Record<string, any>;
+}
+
+export interface CollectionValue {
+  name: string;
+  value?: string;
+  description?: string;
+}
+
+export interface CollectionBody {
+  mode: 'json' | 'text' | 'urlencoded' | 'multipart' | 'file';
+  text?: string;
+  contentType?: string;
+  fields?: Array<{ name: string; value?: string; file?: boolean }>;
+}
+
+export interface CollectionAuth {
+  type: 'bearer' | 'basic' | 'apikey' | 'oauth2';
+  /** API key location and name */
+  in?: 'header' | 'query';
+  name?: string;
+  /** OAuth2 token endpoint */
+  tokenUrl?: string;
+}
+
+export interface ParsedCollectionAPI {
+  info: {
+    title: string;
+    description?: string;
+    version: string;
+  };
+  baseUrl?: string;
+  /** Collection-wide variables, after the environment was applied */
+  variables?: Record<string, any>;
+  paths: Record<string, any>;
+  components?: { securitySchemes: Record<string, any> };
+}
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const VARIABLE_PATTERN = /\{\{\s*(?:_\.)?([^{}\s]+)\s*\}\}/g;
+
+/** Passes over a string, so variables whose values hold variables are resolved too */
+const MAX_VARIABLE_DEPTH = 5;
+
+/** Dynamic variables of Postman and Bruno, generated on each use */
+const DYNAMIC_VARIABLES: Record<string, () => string> = {
+  $guid: () => randomUUID(),
+  $randomUUID: () => randomUUID(),
+  $timestamp: () => String(Math.floor(Date.now() / 1000)),
+  $isoTimestamp: () => new Date().toISOString(),
+  $randomInt: () => String(Math.floor(Math.random() * 1001)),
+};
+
+export class CollectionConverter {
+  /**
+   * Build the parsed API from collection requests
+   * The base URL is the most frequent origin among the resolved request URLs
+   */
+  static toAPI(
+    info: { title: string; description?: string },
+    requests: CollectionRequest[],
+    variables: Record<string, any> = {},
+    filter?: EndpointFilter
+  ): ParsedCollectionAPI {
+    const parsedAPI: ParsedCollectionAPI = {
+      info: { title: info.title, description: info.description || '', version: '1.0.0' },
+      variables,
+      paths: {},
+    };
+
+    const securitySchemes: Record<string, any> = {};
+    const origins: string[] = [];
+
+    for (const request of requests) {
+      const method = request.method.toLowerCase();
+      if (!METHODS.includes(method)) {
+        Logger.info(`Skipping ${request.method.toUpperCase()} request "${request.name}"`);
+        continue;
+      }
+
+      const { origin, path, query } = this.splitUrl(this.resolveVariables(request.url, request.variables));
+      if (origin) origins.push(origin);
+
+      const operation = this.buildOperation(request, path, query);
+
+      if (request.auth === null) {
+        operation.security = [{}];
+      } else if (request.auth) {
+        const schemeName = this.addSecurityScheme(securitySchemes, request.auth, request.variables);
+        operation.security = [{ [schemeName]: [] }];
+      }
+
+      parsedAPI.paths[path.template] = parsedAPI.paths[path.template] || {};
+      parsedAPI.paths[path.template][method] = operation;
+    }
+
+    const counts = new Map<string, number>();
+    origins.forEach((origin) => counts.set(origin, (counts.get(origin) || 0) + 1));
+    parsedAPI.baseUrl = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+    if (Object.keys(securitySchemes).length > 0) {
+      parsedAPI.components = { securitySchemes };
+    }
+
+    // Filtered-out operations must not reach the LLM or the manifest
+    filter?.applyToPaths(parsedAPI.paths);
+
+    return parsedAPI;
+  }
+
+  /**
+   * Substitute known {{variables}}, including Insomnia's {{ _.name }} and dotted names
+   * Unknown variables are left as they are; dynamic ones ({{$guid}}) get a fresh value
+   */
+  static resolveVariables(text: string, variables: Record<string, any>): string {
+    let result = text;
+
+    for (let depth = 0; depth < MAX_VARIABLE_DEPTH; depth++) {
+      const next = result.replace(VARIABLE_PATTERN, (match, name: string) => {
+        if (name in DYNAMIC_VARIABLES && !(name in variables)) {
+          return DYNAMIC_VARIABLES[name]();
+        }
+        const value = name in variables ? variables[name] : getValueAtPath(variables, name);
+        return value === undefined || value === null || typeof value === 'object' ? match : String(value);
+      });
+
+      if (next === result) break;
+      result = next;
+    }
+
+    return result;
+  }
+
+  /**
+   * Origin, path template and query of a resolved URL
+   * Variables left at the start stand for the base URL and are dropped
+   */
+  static splitUrl(url: string): {
+    origin?: string;
+    path: { template: string; params: string[] };
+    query: CollectionValue[];
+  } {
+    let rest = url.trim();
+    let origin: string | undefined;
+
+    const originMatch = rest.match(/^((?:[a-z][a-z0-9+.-]*|\{\{[^}]+\}\}):\/\/[^/?#]+)/i);
+    if (originMatch) {
+      // An origin still holding variables ({{proto}}://{{host}}) is not known
+      origin = originMatch[1].includes('{{') ? undefined : originMatch[1];
+      rest = rest.slice(originMatch[1].length);
+    } else {
+      rest = rest.replace(/^(\{\{[^}]+\}\})+/, '');
+    }
+
+    const [pathPart, queryPart] = rest.split('#')[0].split(/\?(.*)/s);
+    const query = queryPart
+      ? queryPart.split('&').filter(Boolean).map((pair) => {
+          const [name, value = ''] = pair.split('=');
+          return { name: this.decode(name), value: this.decode(value) };
+        })
+      : [];
+
+    // Variables left in the path and :params become path parameters
+    const params: string[] = [];
+    let template = (pathPart || '/').startsWith('/') ? pathPart || '/' : `/${pathPart}`;
+    template = template.replace(VARIABLE_PATTERN, (_, name: string) => {
+      const param = name.replace(/[^A-Za-z0-9_]/g, '_');
+      params.push(param);
+      return `{${param}}`;
+    });
+    template = template.replace(/(^|\/):([A-Za-z0-9_]+)/g, (_, slash: string, name: string) => {
+      params.push(name);
+      return `${slash}{${name}}`;
+    });
+
+    return { origin, path: { template, params }, query };
+  }
+
+  /**
+   * Operation for one request, in the shape PostmanParser gives its requests
+   */
+  private static buildOperation(request: CollectionRequest, path: { template: string; params: string[] }, urlQuery: CollectionValue[]): any {
+    const operation: any = {
+      summary: request.name,
+      description: request.description || '',
+      tags: request.folders.length > 0 ? request.folders : undefined,
+      parameters: [],
+    };
+
+    for (const name of path.params) {
+      const known = request.pathParams?.find((param) => param.name === name);
+      operation.parameters.push({
+        name,
+        in: 'path',
+        required: true,
+        description: known?.description || '',
+        schema: { type: 'string', ...(known?.value && !known.value.includes('{{') ? { example: known.value } : {}) },
+      });
+    }
+
+    // Query parameters listed by the client and those written into the URL
+    const apiKeyQuery = request.auth?.type === 'apikey' && request.auth.in === 'query' ? request.auth.name : undefined;
+    const query = [...request.query, ...urlQuery.filter((param) => !request.query.some((listed) => listed.name === param.name))];
+    for (const param of query) {
+      if (param.name === apiKeyQuery) continue;
+      operation.parameters.push({
+        name: param.name,
+        in: 'query',
+        required: false,
+        description: param.description || '',
+        schema: { type: 'string' },
+      });
+    }
+
+    // Credentials are applied by auth profiles, not passed as parameters
+    const apiKeyHeader = request.auth?.type === 'apikey' && request.auth.in !== 'query' ? request.auth.name?.toLowerCase() : undefined;
+    for (const header of request.headers) {
+      const name = header.name.toLowerCase();
+      if (['authorization', 'content-type'].includes(name) || name === apiKeyHeader) continue;
+      operation.parameters.push({
+        name: header.name,
+        in: 'header',
+        required: false,
+        description: header.description || '',
+        schema: { type: 'string' },
+      });
+    }
+
+    if (request.body && ['post', 'put', 'patch'].includes(request.method.toLowerCase())) {
+      const requestBody = this.buildRequestBody(request.body, request.variables);
+      if (requestBody) {
+        operation.requestBody = requestBody;
+      }
+    }
+
+    operation.responses = {
+      '200': {
+        description: 'Successful response',
+        content: { 'application/json': { schema: { type: 'object' } } },
+      },
+    };
+
+    return operation;
+  }
+
+  /**
+   * Request body schema; JSON bodies are inferred from the example payload
+   */
+  private static buildRequestBody(body: CollectionBody, variables: Record<string, any>): any | undefined {
+    if (body.mode === 'json') {
+      const text = this.resolveVariables(body.text || '', variables);
+      const example = this.parseJsonExample(text);
+      if (example === undefined) {
+        return text.trim() ? { required: true, content: { 'text/plain': { schema: { type: 'string' } } } } : undefined;
+      }
+      return { required: true, content: { 'application/json': { schema: RecordedRequestMerger.inferSchema(example) } } };
+    }
+
+    if (body.mode === 'urlencoded' || body.mode === 'multipart') {
+      const properties: Record<string, any> = {};
+      for (const field of body.fields || []) {
+        properties[field.name] = field.file ? { type: 'string', format: 'binary' } : { type: 'string' };
+      }
+      const contentType = body.mode === 'urlencoded' ? 'application/x-www-form-urlencoded' : 'multipart/form-data';
+      return { required: true, content: { [contentType]: { schema: { type: 'object', properties } } } };
+    }
+
+    if (body.mode === 'file') {
+      return {
+        required: true,
+        content: { [body.contentType || 'application/octet-stream']: { schema: { type: 'string', format: 'binary' } } },
+      };
+    }
+
+    return body.text?.trim()
+      ? { required: true, content: { [body.contentType || 'text/plain']: { schema: { type: 'string' } } } }
+      : undefined;
+  }
+
+  /**
+   * Parse a JSON body; unresolved variables standing for values (`"age": {{age}}`) are read as null
+   */
+  static parseJsonExample(text: string): any {
+    for (const candidate of [text, text.replace(VARIABLE_PATTERN, 'null')]) {
+      try {
+        return JSON.parse(candidate);
+      } catch {
+        // Try the next candidate
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Add the OpenAPI security scheme for an auth setting and return its name
+   * Requests with the same kind of auth share a scheme
+   */
+  private static addSecurityScheme(schemes: Record<string, any>, auth: CollectionAuth, variables: Record<string, any>): string {
+    let base: string;
+    let scheme: any;
+
+    if (auth.type === 'bearer') {
+      base = 'bearerAuth';
+      scheme = { type: 'http', scheme: 'bearer' };
+    } else if (auth.type === 'basic') {
+      base = 'basicAuth';
+      scheme = { type: 'http', scheme: 'basic' };
+    } else if (auth.type === 'apikey') {
+      base = 'apiKeyAuth';
+      scheme = { type: 'apiKey', in: auth.in || 'header', name: auth.name || 'X-API-Key' };
+    } else {
+      base = 'oauth2Auth';
+      const tokenUrl = auth.tokenUrl ? this.resolveVariables(auth.tokenUrl, variables) : undefined;
+      scheme = { type: 'oauth2', flows: { clientCredentials: { ...(tokenUrl ? { tokenUrl } : {}), scopes: {} } } };
+    }
+
+    let name = base;
+    for (let n = 2; schemes[name] && JSON.stringify(schemes[name]) !== JSON.stringify(scheme); n++) {
+      name = `${base}${n}`;
+    }
+    schemes[name] = scheme;
+
+    return name;
+  }
+
+  private static decode(text: string): string {
+    try {
+      return decodeURIComponent(text.replace(/\+/g, ' '));
+    } catch {
+      return text;
+    }
+  }
+}
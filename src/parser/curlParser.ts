@@ -0,0 +1,344 @@
+/**
+ * Parser for files of curl commands, such as "Copy as cURL" output or shell scripts
+ *
+ * Each `curl` command is read the way a POSIX shell would split it (quotes,
+ * backslash line continuations, $'...' strings); other lines are ignored. The
+ * requests are merged into path templates by RecordedRequestMerger.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Logger } from '../utils/logger';
+import { EndpointFilter } from '../server/endpointFilter';
+import { ParsedRecordedAPI, RecordedRequest, RecordedRequestMerger } from './recordedRequests';
+
+const CURL_EXTENSIONS = ['.curl', '.sh', '.txt'];
+
+/** Options whose value is the next argument and does not describe the request */
+const IGNORED_VALUE_OPTIONS = [
+  '-o', '--output', '-m', '--max-time', '--connect-timeout', '--retry', '-w', '--write-out', '-x', '--proxy',
+  '--cacert', '--cert', '-E', '--key', '--resolve', '--limit-rate', '-c', '--cookie-jar', '-D', '--dump-header',
+  '-K', '--config', '-r', '--range', '-A', '--user-agent', '-e', '--referer', '-b', '--cookie', '-u', '--user',
+  '--retry-delay', '--retry-max-time', '-Y', '--speed-limit', '-y', '--speed-time', '--interface', '--proto',
+];
+
+const DATA_OPTIONS = ['-d', '--data', '--data-raw', '--data-binary', '--data-ascii', '--data-urlencode', '--json'];
+
+/** Short options that take a value, for splitting attached values (-XPOST) from flag groups (-sSL) */
+const SHORT_VALUE_OPTIONS = 'XHdFTomwxEKrAebuDcYy';
+
+export class CurlParser {
+  /**
+   * Parse a file of curl commands
+   * Bodies given as @file are read relative to the file's directory
+   */
+  static async parse(filePath: string, filter?: EndpointFilter): Promise<ParsedRecordedAPI> {
+    try {
+      Logger.info(`Parsing curl commands from ${filePath}`);
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      const parsedAPI = this.parseContent(content, path.basename(filePath, path.extname(filePath)), filter, path.dirname(filePath));
+
+      Logger.success(`Successfully parsed curl commands: ${Object.keys(parsedAPI.paths).length} path(s)`);
+      return parsedAPI;
+    } catch (error) {
+      Logger.error('Failed to parse curl commands', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Parse curl commands that have already been read
+   * @param directory - Where @file bodies are read from; without it they are left out
+   */
+  static parseContent(content: string, title: string, filter?: EndpointFilter, directory?: string): ParsedRecordedAPI {
+    const commands = this.splitCommands(content).filter((words) => words[0] === 'curl');
+    if (commands.length === 0) {
+      throw new Error('No curl commands found');
+    }
+
+    const requests = commands
+      .map((words) => this.toRecordedRequest(words.slice(1), directory))
+      .filter((request): request is RecordedRequest => request !== null);
+
+    return RecordedRequestMerger.toAPI(title, requests, filter);
+  }
+
+  /**
+   * Request described by the arguments of one curl command
+   */
+  static toRecordedRequest(args: string[], directory?: string): RecordedRequest | null {
+    let method: string | undefined;
+    let url: string | undefined;
+    let useGet = false;
+    let json = false;
+    let upload = false;
+    const headers: Record<string, string> = {};
+    const data: string[] = [];
+    const fields: Array<{ name: string; value?: string; file?: boolean }> = [];
+
+    for (let i = 0; i < args.length; i++) {
+      let option = args[i];
+      let value: string | undefined;
+
+      // -XPOST and -H'Accept: ...' carry their value; -sSL is a group of flags
+      if (/^-[a-zA-Z]/.test(option) && option.length > 2) {
+        if (SHORT_VALUE_OPTIONS.includes(option[1])) {
+          value = option.slice(2);
+          option = option.slice(0, 2);
+        } else {
+          if (option.slice(1).includes('G')) useGet = true;
+          continue;
+        }
+      }
+
+      const next = (): string => value ?? args[++i] ?? '';
+
+      if (option === '-X' || option === '--request') {
+        method = next().toUpperCase();
+      } else if (option === '-H' || option === '--header') {
+        const header = next();
+        const colon = header.indexOf(':');
+        if (colon > 0) {
+          headers[header.slice(0, colon).trim()] = header.slice(colon + 1).trim();
+        }
+      } else if (DATA_OPTIONS.includes(option)) {
+        json = json || option === '--json';
+        const body = this.readData(next(), option, directory);
+        if (body !== undefined) data.push(body);
+      } else if (option === '-F' || option === '--form' || option === '--form-string') {
+        const field = next();
+        const equals = field.indexOf('=');
+        if (equals > 0) {
+          const fieldValue = field.slice(equals + 1);
+          const isFile = option !== '--form-string' && fieldValue.startsWith('@');
+          fields.push({ name: field.slice(0, equals), value: isFile ? undefined : fieldValue.replace(/^</, ''), file: isFile });
+        }
+      } else if (option === '-T' || option === '--upload-file') {
+        next();
+        upload = true;
+      } else if (option === '--oauth2-bearer') {
+        headers.Authorization = `Bearer ${next()}`;
+      } else if (option === '--url') {
+        url = next();
+      } else if (option === '-G' || option === '--get') {
+        useGet = true;
+      } else if (option === '-I' || option === '--head') {
+        method = 'HEAD';
+      } else if (IGNORED_VALUE_OPTIONS.includes(option)) {
+        next();
+      } else if (!option.startsWith('-') && !url) {
+        url = option;
+      }
+    }
+
+    if (!url) {
+      Logger.warn('Skipping curl command without a URL');
+      return null;
+    }
+
+    // curl defaults to http:// for URLs without a scheme
+    if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+      url = `http://${url}`;
+    }
+
+    if (/\{\{|\$\{?[A-Za-z_]/.test(url)) {
+      Logger.warn(`Skipping curl command with an unresolved variable in its URL: ${url}`);
+      return null;
+    }
+
+    const request: RecordedRequest = { method: 'GET', url, headers };
+    const contentTypeHeader = Object.keys(headers).find((name) => name.toLowerCase() === 'content-type');
+
+    if (useGet && data.length > 0) {
+      request.url = `${url}${url.includes('?') ? '&' : '?'}${data.join('&')}`;
+    } else if (data.length > 0) {
+      const text = data.join('&');
+      const looksLikeJson = /^\s*[[{]/.test(text);
+      request.method = 'POST';
+      request.body = {
+        // curl sends -d as a form unless told otherwise; bodies that are JSON are taken as JSON
+        contentType: contentTypeHeader ? headers[contentTypeHeader] : json || looksLikeJson ? 'application/json' : 'application/x-www-form-urlencoded',
+        text,
+      };
+    } else if (fields.length > 0) {
+      request.method = 'POST';
+      request.body = { contentType: 'multipart/form-data', fields };
+    } else if (upload) {
+      request.method = 'PUT';
+      request.body = { contentType: contentTypeHeader ? headers[contentTypeHeader] : 'application/octet-stream' };
+    }
+
+    if (method) {
+      request.method = method;
+    }
+
+    return request;
+  }
+
+  /**
+   * Value of a data option; @file values are read from the directory when it is known
+   */
+  private static readData(value: string, option: string, directory?: string): string | undefined {
+    if (option === '--data-urlencode') {
+      // name=content is sent with the content encoded
+      const equals = value.indexOf('=');
+      return equals > 0 ? `${value.slice(0, equals)}=${encodeURIComponent(value.slice(equals + 1))}` : encodeURIComponent(value.replace(/^=/, ''));
+    }
+
+    if (option === '--data-raw' || !value.startsWith('@')) {
+      return value;
+    }
+
+    const file = value.slice(1);
+    if (!directory || file === '-') {
+      Logger.warn(`Body file ${file} is not available; the body is left out`);
+      return undefined;
+    }
+
+    try {
+      return fs.readFileSync(path.resolve(directory, file), 'utf-8');
+    } catch {
+      Logger.warn(`Body file ${file} could not be read; the body is left out`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Split shell text into commands of words
+   * Unquoted newlines, `;`, `&` and `|` end a command (so `| jq` is dropped); `#` starts a comment
+   */
+  static splitCommands(content: string): string[][] {
+    const commands: string[][] = [];
+    let words: string[] = [];
+    let word = '';
+    let inWord = false;
+    let i = 0;
+
+    const endWord = () => {
+      if (inWord) words.push(word);
+      word = '';
+      inWord = false;
+    };
+    const endCommand = () => {
+      endWord();
+      if (words.length > 0) commands.push(words);
+      words = [];
+    };
+
+    while (i < content.length) {
+      const char = content[i];
+
+      if (char === '\\' && content[i + 1] === '\n') {
+        i += 2;
+      } else if (char === '\\' && content[i + 1] === '\r' && content[i + 2] === '\n') {
+        i += 3;
+      } else if (char === '\\') {
+        word += content[i + 1] ?? '';
+        inWord = true;
+        i += 2;
+      } else if (char === "'") {
+        const end = content.indexOf("'", i + 1);
+        word += content.slice(i + 1, end === -1 ? undefined : end);
+        inWord = true;
+        i = end === -1 ? content.length : end + 1;
+      } else if (char === '$' && content[i + 1] === "'") {
+        const { text, next } = this.readAnsiString(content, i + 2);
+        word += text;
+        inWord = true;
+        i = next;
+      } else if (char === '"') {
+        i++;
+        while (i < content.length && content[i] !== '"') {
+          if (content[i] === '\\' && '"\\$`\n'.includes(content[i + 1])) {
+            if (content[i + 1] !== '\n') word += content[i + 1];
+            i += 2;
+          } else {
+            word += content[i++];
+          }
+        }
+        inWord = true;
+        i++;
+      } else if (char === '#' && !inWord) {
+        while (i < content.length && content[i] !== '\n') i++;
+      } else if (char === '\n' || char === ';') {
+        endCommand();
+        i++;
+      } else if (char === '&' || char === '|') {
+        endCommand();
+        i += content[i + 1] === char ? 2 : 1;
+      } else if (/\s/.test(char)) {
+        endWord();
+        i++;
+      } else {
+        word += char;
+        inWord = true;
+        i++;
+      }
+    }
+
+    endCommand();
+    return commands;
+  }
+
+  /**
+   * Text of a $'...' string, as written by "Copy as cURL" in browsers
+   */
+  private static readAnsiString(content: string, start: number): { text: string; next: number } {
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', "'": "'", '"': '"', '\\': '\\' };
+    let text = '';
+    let i = start;
+
+    while (i < content.length && content[i] !== "'") {
+      if (content[i] === '\\') {
+        const escaped = content[i + 1];
+        if (escaped === 'u' || escaped === 'x') {
+          const digits = content.slice(i + 2, i + (escaped === 'u' ? 6 : 4));
+          text += String.fromCharCode(parseInt(digits, 16));
+          i += 2 + digits.length;
+        } else {
+          text += escapes[escaped] ?? `\\${escaped}`;
+          i += 2;
+        }
+      } else {
+        text += content[i++];
+      }
+    }
+
+    return { text, next: i + 1 };
+  }
+
+  /**
+   * Check if a file holds curl commands
+   */
+  static async isCurlFile(filePath: string): Promise<boolean> {
+    if (!CURL_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) return false;
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      return /^\s*curl\s/m.test(content);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Detect files of curl commands in a directory
+   */
+  static async detectCurlFiles(directory: string = process.cwd()): Promise<string[]> {
+    const foundFiles: string[] = [];
+
+    try {
+      const files = await fs.readdir(directory);
+      for (const file of files) {
+        const filePath = path.join(directory, file);
+        if (await this.isCurlFile(filePath)) {
+          foundFiles.push(filePath);
+        }
+      }
+    } catch (error) {
+      // Directory read error, skip
+    }
+
+    return foundFiles;
+  }
+}
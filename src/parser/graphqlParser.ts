@@ -0,0 +1,414 @@
+/**
+ * Parser for GraphQL schemas (SDL or introspection JSON)
+ *
+ * Every query and mutation field becomes an operation in the same OpenAPI-like
+ * `paths` shape the other parsers produce: arguments form the JSON request body
+ * schema, the result type (down to the selection depth) the response schema.
+ * The x-mcphy-graphql extension carries what is needed to build the document.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {
+  GraphQLArgument,
+  GraphQLField,
+  GraphQLInputType,
+  GraphQLNamedType,
+  GraphQLObjectType,
+  GraphQLOutputType,
+  GraphQLSchema,
+  buildClientSchema,
+  buildSchema,
+  getNamedType,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isLeafType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isUnionType,
+} from 'graphql';
+import { Logger } from '../utils/logger';
+import { EndpointFilter } from '../server/endpointFilter';
+import { MCPGraphQLOperation } from '../server/manifest';
+
+export const DEFAULT_GRAPHQL_ENDPOINT = '/graphql';
+export const DEFAULT_SELECTION_DEPTH = 2;
+
+const SDL_EXTENSIONS = ['.graphql', '.gql', '.graphqls'];
+
+const SCALAR_SCHEMAS: Record<string, any> = {
+  Int: { type: 'integer' },
+  Float: { type: 'number' },
+  Boolean: { type: 'boolean' },
+  String: { type: 'string' },
+  ID: { type: 'string' },
+  Date: { type: 'string', format: 'date' },
+  DateTime: { type: 'string', format: 'date-time' },
+  Time: { type: 'string', format: 'time' },
+  URL: { type: 'string', format: 'uri' },
+  URI: { type: 'string', format: 'uri' },
+  Email: { type: 'string', format: 'email' },
+  UUID: { type: 'string', format: 'uuid' },
+  JSON: {},
+};
+
+/**
+ * The `graphql` block of .mcphy.json
+ */
+export interface GraphQLConfig {
+  /** HTTP path of the GraphQL endpoint (default /graphql) */
+  endpoint?: string;
+  /** Levels of object fields selected in results (default 2) */
+  depth?: number;
+}
+
+export interface ParsedGraphQLAPI {
+  info: {
+    title: string;
+    description?: string;
+    version: string;
+  };
+  paths: Record<string, any>;
+}
+
+export class GraphQLParser {
+  /**
+   * Parse a GraphQL schema file
+   * @param filter - Include/exclude rules; the named return type acts as the tag
+   */
+  static async parse(filePath: string, config: GraphQLConfig = {}, filter?: EndpointFilter): Promise<ParsedGraphQLAPI> {
+    Logger.info(`Parsing GraphQL schema from ${filePath}`);
+
+    const content = await fs.readFile(filePath, 'utf-8');
+    const title = path.basename(filePath).replace(/\.[^.]+$/, '');
+    return this.parseContent(filePath.endsWith('.json') ? JSON.parse(content) : content, title, config, filter);
+  }
+
+  /**
+   * Parse SDL text or a parsed introspection result
+   * @param title - API name, e.g. the schema file name
+   */
+  static parseContent(
+    content: string | Record<string, any>,
+    title: string = 'GraphQL API',
+    config: GraphQLConfig = {},
+    filter?: EndpointFilter
+  ): ParsedGraphQLAPI {
+    try {
+      const schema = this.buildSchema(content);
+      const endpoint = config.endpoint || DEFAULT_GRAPHQL_ENDPOINT;
+      const depth = Math.max(1, config.depth ?? DEFAULT_SELECTION_DEPTH);
+
+      const parsedAPI: ParsedGraphQLAPI = {
+        info: {
+          title: title || 'GraphQL API',
+          description: schema.description || '',
+          version: '1.0.0',
+        },
+        paths: {},
+      };
+
+      const roots: Array<['query' | 'mutation', GraphQLObjectType | null | undefined]> = [
+        ['query', schema.getQueryType()],
+        ['mutation', schema.getMutationType()],
+      ];
+
+      for (const [operation, rootType] of roots) {
+        for (const field of Object.values(rootType?.getFields() || {})) {
+          parsedAPI.paths[`${endpoint.replace(/\/$/, '')}/${operation}/${field.name}`] = {
+            post: this.parseField(operation, field, endpoint, depth),
+          };
+        }
+      }
+
+      // Filtered-out operations must not reach the manifest
+      filter?.applyToPaths(parsedAPI.paths);
+
+      Logger.success(`Successfully parsed GraphQL schema: ${Object.keys(parsedAPI.paths).length} operations`);
+      return parsedAPI;
+    } catch (error) {
+      Logger.error('Failed to parse GraphQL schema', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build a schema from SDL or from an introspection result ({ data: { __schema } } or { __schema })
+   */
+  private static buildSchema(content: string | Record<string, any>): GraphQLSchema {
+    if (typeof content === 'object' || content.trimStart().startsWith('{')) {
+      const json = typeof content === 'object' ? content : JSON.parse(content);
+      const introspection = json.data?.__schema ? json.data : json;
+      if (!introspection.__schema) {
+        throw new Error('Invalid GraphQL introspection result: missing __schema');
+      }
+      return buildClientSchema(introspection);
+    }
+
+    // Directives of tools like Apollo Federation need not be declared
+    return buildSchema(content, { assumeValidSDL: true });
+  }
+
+  /**
+   * Operation object for one root field
+   */
+  private static parseField(
+    operation: 'query' | 'mutation',
+    field: GraphQLField<any, any>,
+    endpoint: string,
+    depth: number
+  ): any {
+    const returnType = getNamedType(field.type);
+    const selection = this.buildSelection(field.type, depth);
+    const graphql: MCPGraphQLOperation = {
+      operation,
+      field: field.name,
+      endpoint,
+      variables: Object.fromEntries(field.args.map((arg) => [arg.name, arg.type.toString()])),
+      ...(selection ? { selection } : {}),
+    };
+
+    const op: any = {
+      operationId: field.name,
+      summary: field.description?.split('\n')[0] || `${operation === 'query' ? 'Query' : 'Mutation'} ${field.name}`,
+      description: field.description || '',
+      tags: [returnType.name],
+      parameters: [],
+      responses: {
+        '200': {
+          description: `${returnType.name} result`,
+          content: { 'application/json': { schema: this.outputSchema(field.type, depth) } },
+        },
+      },
+      'x-mcphy-graphql': graphql,
+    };
+
+    if (field.deprecationReason) {
+      op.deprecated = true;
+    }
+
+    // Queries only read; mutations keep the confirmation POST requires by default
+    if (operation === 'query') {
+      op['x-mcphy-safety'] = 'safe';
+    }
+
+    if (field.args.length > 0) {
+      const required = field.args.filter((arg) => this.isRequired(arg)).map((arg) => arg.name);
+      op.requestBody = {
+        required: required.length > 0,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: Object.fromEntries(field.args.map((arg) => [arg.name, this.argumentSchema(arg)])),
+              ...(required.length > 0 ? { required } : {}),
+            },
+          },
+        },
+      };
+    }
+
+    return op;
+  }
+
+  /**
+   * An argument must be given when it is non-null and has no default
+   */
+  private static isRequired(arg: GraphQLArgument): boolean {
+    return isNonNullType(arg.type) && arg.defaultValue === undefined;
+  }
+
+  /**
+   * JSON Schema of an argument, with its description and default
+   */
+  private static argumentSchema(arg: GraphQLArgument): any {
+    return {
+      ...this.inputSchema(arg.type, []),
+      ...(arg.description ? { description: arg.description } : {}),
+      ...(arg.defaultValue !== undefined ? { default: arg.defaultValue } : {}),
+    };
+  }
+
+  /**
+   * JSON Schema of an input type; recursive input objects are cut off where they repeat
+   */
+  private static inputSchema(type: GraphQLInputType, stack: string[]): any {
+    if (isNonNullType(type)) {
+      return this.inputSchema(type.ofType, stack);
+    }
+    if (isListType(type)) {
+      return { type: 'array', items: this.inputSchema(type.ofType, stack) };
+    }
+    if (isEnumType(type)) {
+      return { type: 'string', enum: type.getValues().map((value) => value.name) };
+    }
+    if (isInputObjectType(type)) {
+      if (stack.includes(type.name)) {
+        return { type: 'object', description: type.name };
+      }
+
+      const fields = Object.values(type.getFields());
+      const required = fields.filter((f) => isNonNullType(f.type) && f.defaultValue === undefined).map((f) => f.name);
+
+      return {
+        type: 'object',
+        ...(type.description ? { description: type.description } : {}),
+        properties: Object.fromEntries(
+          fields.map((f) => [
+            f.name,
+            {
+              ...this.inputSchema(f.type, [...stack, type.name]),
+              ...(f.description ? { description: f.description } : {}),
+            },
+          ])
+        ),
+        ...(required.length > 0 ? { required } : {}),
+      };
+    }
+
+    return this.scalarSchema(type);
+  }
+
+  /**
+   * JSON Schema of a result, covering the fields the selection set asks for
+   */
+  private static outputSchema(type: GraphQLOutputType, depth: number): any {
+    if (isNonNullType(type)) {
+      return this.outputSchema(type.ofType, depth);
+    }
+    if (isListType(type)) {
+      return { type: 'array', items: this.outputSchema(type.ofType, depth) };
+    }
+    if (isEnumType(type)) {
+      return { type: 'string', enum: type.getValues().map((value) => value.name) };
+    }
+    if (isObjectType(type) || isInterfaceType(type)) {
+      const properties: Record<string, any> = {};
+      for (const field of this.selectableFields(type)) {
+        if (isLeafType(getNamedType(field.type))) {
+          properties[field.name] = this.outputSchema(field.type, depth);
+        } else if (depth > 1) {
+          properties[field.name] = this.outputSchema(field.type, depth - 1);
+        }
+      }
+      return { type: 'object', ...(type.description ? { description: type.description } : {}), properties };
+    }
+    if (isUnionType(type)) {
+      return { type: 'object', description: `One of ${type.getTypes().map((t) => t.name).join(', ')}` };
+    }
+
+    return this.scalarSchema(type);
+  }
+
+  /**
+   * Selection set of a result type: leaf fields, and object fields while depth remains
+   * Returns undefined for scalar and enum results, which take no selection set
+   */
+  private static buildSelection(type: GraphQLOutputType, depth: number): string | undefined {
+    const named = getNamedType(type);
+    if (isLeafType(named)) return undefined;
+
+    if (isUnionType(named)) {
+      const members = named
+        .getTypes()
+        .map((member) => {
+          const selection = this.buildSelection(member, depth);
+          return selection ? `... on ${member.name} ${selection}` : '';
+        })
+        .filter(Boolean);
+      return `{ __typename${members.length > 0 ? ` ${members.join(' ')}` : ''} }`;
+    }
+
+    const fields = this.selectableFields(named as GraphQLObjectType)
+      .map((field) => {
+        if (isLeafType(getNamedType(field.type))) return field.name;
+        if (depth <= 1) return '';
+        const selection = this.buildSelection(field.type, depth - 1);
+        return selection ? `${field.name} ${selection}` : '';
+      })
+      .filter(Boolean);
+
+    // A selection set cannot be empty
+    return `{ ${fields.length > 0 ? fields.join(' ') : '__typename'} }`;
+  }
+
+  /**
+   * Fields that can be selected without arguments
+   */
+  private static selectableFields(type: GraphQLNamedType): Array<GraphQLField<any, any>> {
+    if (!isObjectType(type) && !isInterfaceType(type)) return [];
+    return Object.values(type.getFields()).filter((field) => !field.args.some((arg) => this.isRequired(arg)));
+  }
+
+  /**
+   * JSON Schema of a built-in or custom scalar; unknown custom scalars are strings
+   */
+  private static scalarSchema(type: GraphQLNamedType): any {
+    return SCALAR_SCHEMAS[type.name] || { type: 'string', description: `${type.name} scalar` };
+  }
+
+  /**
+   * Detect GraphQL schema files (SDL or introspection JSON) in a directory
+   */
+  static async detectSchemaFiles(directory: string = process.cwd()): Promise<string[]> {
+    const foundFiles: string[] = [];
+
+    try {
+      const files = await fs.readdir(directory);
+      for (const file of files) {
+        const filePath = path.join(directory, file);
+        if (SDL_EXTENSIONS.includes(path.extname(file).toLowerCase()) || (file.endsWith('.json') && await this.isIntrospectionResult(filePath))) {
+          foundFiles.push(filePath);
+        }
+      }
+    } catch (error) {
+      // Directory read error, skip
+    }
+
+    // schema.graphql and the like come first
+    return foundFiles.sort((a, b) => Number(!/^schema\./.test(path.basename(a))) - Number(!/^schema\./.test(path.basename(b))));
+  }
+
+  /**
+   * Check if a file is a GraphQL schema: SDL by extension, or an introspection result
+   */
+  static async isGraphQLSchema(filePath: string): Promise<boolean> {
+    if (SDL_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) {
+      return fs.pathExists(filePath);
+    }
+    return filePath.endsWith('.json') && this.isIntrospectionResult(filePath);
+  }
+
+  /**
+   * Check if parsed JSON is an introspection result
+   */
+  static isIntrospection(json: any): boolean {
+    return Boolean(json?.__schema || json?.data?.__schema);
+  }
+
+  /**
+   * Check if a JSON file holds an introspection result
+   */
+  private static async isIntrospectionResult(filePath: string): Promise<boolean> {
+    try {
+      return this.isIntrospection(await fs.readJSON(filePath));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Validate if a file is a usable GraphQL schema
+   */
+  static async isValidSchema(filePath: string): Promise<boolean> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const schema = this.buildSchema(content);
+      return Boolean(schema.getQueryType() || schema.getMutationType());
+    } catch {
+      return false;
+    }
+  }
+}
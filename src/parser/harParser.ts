@@ -0,0 +1,175 @@
+/**
+ * Parser for HAR (HTTP Archive) captures, as saved from browser dev tools or proxies
+ *
+ * API calls (XHR/fetch, or JSON traffic) are kept; pages, scripts, styles,
+ * images and fonts are skipped. The calls are merged into path templates by
+ * RecordedRequestMerger.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Logger } from '../utils/logger';
+import { EndpointFilter } from '../server/endpointFilter';
+import { ParsedRecordedAPI, RecordedRequest, RecordedRequestMerger } from './recordedRequests';
+
+interface HarEntry {
+  _resourceType?: string;
+  request: {
+    method: string;
+    url: string;
+    headers?: Array<{ name: string; value: string }>;
+    postData?: {
+      mimeType?: string;
+      text?: string;
+      params?: Array<{ name: string; value?: string; fileName?: string; contentType?: string }>;
+    };
+  };
+  response?: {
+    status: number;
+    content?: { mimeType?: string; text?: string; encoding?: string };
+  };
+}
+
+/** Chrome resource types that are never API calls */
+const STATIC_RESOURCE_TYPES = ['document', 'stylesheet', 'image', 'media', 'font', 'script', 'texttrack', 'manifest', 'websocket'];
+
+/** Response types of pages and assets */
+const STATIC_CONTENT_TYPE = /^(text\/(html|css|javascript)|application\/(javascript|x-javascript|wasm)|image\/|font\/|audio\/|video\/)/i;
+
+const STATIC_EXTENSION = /\.(js|mjs|css|map|png|jpe?g|gif|svg|ico|webp|avif|woff2?|ttf|otf|eot|mp4|webm|mp3|html?)$/i;
+
+export class HarParser {
+  /**
+   * Parse a HAR file
+   */
+  static async parse(filePath: string, filter?: EndpointFilter): Promise<ParsedRecordedAPI> {
+    try {
+      Logger.info(`Parsing HAR capture from ${filePath}`);
+
+      const har = await fs.readJSON(filePath);
+      const parsedAPI = this.parseContent(har, path.basename(filePath, path.extname(filePath)), filter);
+
+      Logger.success(`Successfully parsed HAR capture: ${Object.keys(parsedAPI.paths).length} path(s)`);
+      return parsedAPI;
+    } catch (error) {
+      Logger.error('Failed to parse HAR capture', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Parse HAR content that has already been read
+   */
+  static parseContent(har: any, title: string, filter?: EndpointFilter): ParsedRecordedAPI {
+    if (!this.isHar(har)) {
+      throw new Error('Invalid HAR format: missing log.entries');
+    }
+
+    const entries: HarEntry[] = har.log.entries;
+    const calls = entries.filter((entry) => this.isApiCall(entry));
+    if (calls.length < entries.length) {
+      Logger.info(`Skipped ${entries.length - calls.length} page, asset or failed request(s)`);
+    }
+
+    return RecordedRequestMerger.toAPI(
+      har.log.pages?.[0]?.title || title,
+      calls.map((entry) => this.toRecordedRequest(entry)),
+      filter
+    );
+  }
+
+  /**
+   * Whether an entry is an API call rather than a page or asset load
+   */
+  private static isApiCall(entry: HarEntry): boolean {
+    if (!entry.request?.url || !entry.request.method) return false;
+    if (entry._resourceType && STATIC_RESOURCE_TYPES.includes(entry._resourceType)) return false;
+
+    // Blocked and cancelled requests have status 0
+    if (entry.response && entry.response.status === 0) return false;
+
+    if (entry.request.method.toUpperCase() !== 'GET') return true;
+
+    const pathname = entry.request.url.split(/[?#]/)[0];
+    return !STATIC_EXTENSION.test(pathname) && !STATIC_CONTENT_TYPE.test(entry.response?.content?.mimeType || '');
+  }
+
+  private static toRecordedRequest(entry: HarEntry): RecordedRequest {
+    const headers: Record<string, string> = {};
+    for (const header of entry.request.headers || []) {
+      // HTTP/2 pseudo-headers (:authority, :path) are not request headers
+      if (!header.name.startsWith(':')) {
+        headers[header.name] = header.value;
+      }
+    }
+
+    const postData = entry.request.postData;
+    const contentType = postData?.mimeType || Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+
+    const request: RecordedRequest = {
+      method: entry.request.method,
+      url: entry.request.url,
+      headers,
+    };
+
+    if (postData && (postData.text || postData.params?.length)) {
+      request.body = {
+        contentType,
+        text: postData.text,
+        fields: postData.params?.length
+          ? postData.params.map((param) => ({ name: param.name, value: param.value, file: Boolean(param.fileName) }))
+          : undefined,
+      };
+    }
+
+    if (entry.response) {
+      const content = entry.response.content;
+      request.response = {
+        status: entry.response.status,
+        contentType: content?.mimeType,
+        text: content?.text && content.encoding === 'base64' ? Buffer.from(content.text, 'base64').toString('utf-8') : content?.text,
+      };
+    }
+
+    return request;
+  }
+
+  /**
+   * Check if parsed JSON is a HAR document
+   */
+  static isHar(json: any): boolean {
+    return Boolean(json?.log && Array.isArray(json.log.entries));
+  }
+
+  /**
+   * Check if a file is a HAR capture
+   */
+  static async isHarFile(filePath: string): Promise<boolean> {
+    if (!/\.(har|json)$/i.test(filePath)) return false;
+    try {
+      return this.isHar(await fs.readJSON(filePath));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Detect HAR captures in a directory
+   */
+  static async detectHarFiles(directory: string = process.cwd()): Promise<string[]> {
+    const foundFiles: string[] = [];
+
+    try {
+      const files = await fs.readdir(directory);
+      for (const file of files) {
+        if (file.toLowerCase().endsWith('.har') && await this.isHarFile(path.join(directory, file))) {
+          foundFiles.push(path.join(directory, file));
+        }
+      }
+    } catch (error) {
+      // Directory read error, skip
+    }
+
+    return foundFiles;
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Parser for Insomnia exports: v4 JSON (`_type: "export"`) and v5 YAML collections
+ *
+ * Folders become tags, and their environments are in scope for the requests
+ * inside them. Variables come from the base environment, one sub-environment
+ * (the first unless one is named) and the folders. Requests without auth of
+ * their own inherit the nearest folder's.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { Logger } from '../utils/logger';
+import { EndpointFilter } from '../server/endpointFilter';
+import { CollectionAuth, CollectionBody, CollectionConverter, CollectionRequest, CollectionValue, ParsedCollectionAPI } from './collectionRequests';
+
+/**
+ * Folder or request, in the shape of v5 collections; v4 resources are converted to it
+ */
+interface InsomniaNode {
+  name: string;
+  description?: string;
+  children?: InsomniaNode[];
+  environment?: Record<string, any>;
+  authentication?: any;
+  headers?: Array<{ name: string; value?: string; description?: string; disabled?: boolean }>;
+  method?: string;
+  url?: string;
+  parameters?: Array<{ name: string; value?: string; description?: string; disabled?: boolean }>;
+  pathParameters?: Array<{ name: string; value?: string; description?: string }>;
+  body?: { mimeType?: string; text?: string; fileName?: string; params?: Array<{ name: string; value?: string; type?: string; disabled?: boolean }> };
+}
+
+interface InsomniaEnvironment {
+  name: string;
+  data: Record<string, any>;
+  subEnvironments: Array<{ name: string; data: Record<string, any> }>;
+}
+
+export class InsomniaParser {
+  /**
+   * Parse an Insomnia export
+   * @param environment - Sub-environment to use; the first one when unset
+   */
+  static async parse(filePath: string, environment?: string, filter?: EndpointFilter): Promise<ParsedCollectionAPI> {
+    try {
+      Logger.info(`Parsing Insomnia export from ${filePath}`);
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      const parsedAPI = this.parseContent(content, environment, filter);
+
+      Logger.success(`Successfully parsed Insomnia export: ${parsedAPI.info.title}`);
+      return parsedAPI;
+    } catch (error) {
+      Logger.error('Failed to parse Insomnia export', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Parse an export that has already been read (JSON or YAML text, or parsed JSON)
+   */
+  static parseContent(content: string | any, environment?: string, filter?: EndpointFilter): ParsedCollectionAPI {
+    const document = typeof content === 'string' ? this.readDocument(content) : content;
+    if (!this.isInsomnia(document)) {
+      throw new Error('Invalid Insomnia export: expected an export (v4) or collection (v5) document');
+    }
+
+    const { title, description, root, environments } = document._type === 'export' ? this.fromV4(document) : this.fromV5(document);
+    const variables = this.selectEnvironment(environments, environment);
+
+    const requests: CollectionRequest[] = [];
+    this.collectRequests(root, [], variables, undefined, requests);
+
+    return CollectionConverter.toAPI({ title, description }, requests, variables, filter);
+  }
+
+  /**
+   * Folder tree and environments of a v4 export, whose resources are linked by parentId
+   */
+  private static fromV4(document: any): { title: string; description?: string; root: InsomniaNode[]; environments: InsomniaEnvironment } {
+    const resources: any[] = document.resources || [];
+    const workspace = resources.find((resource) => resource._type === 'workspace');
+
+    const toNode = (resource: any): InsomniaNode => {
+      if (resource._type === 'request_group') {
+        return {
+          name: resource.name,
+          description: resource.description,
+          environment: resource.environment,
+          authentication: resource.authentication,
+          headers: resource.headers,
+          children: childrenOf(resource._id),
+        };
+      }
+      return { ...resource, children: undefined };
+    };
+    const childrenOf = (parentId: string): InsomniaNode[] =>
+      resources
+        .filter((resource) => resource.parentId === parentId && ['request_group', 'request'].includes(resource._type))
+        .sort((a, b) => (a.metaSortKey ?? 0) - (b.metaSortKey ?? 0))
+        .map(toNode);
+
+    // Without a workspace, every top-level request and folder is included
+    const ids = new Set(resources.map((resource) => resource._id));
+    const root = workspace
+      ? childrenOf(workspace._id)
+      : resources.filter((resource) => ['request_group', 'request'].includes(resource._type) && !ids.has(resource.parentId)).map(toNode);
+
+    const environments = resources.filter((resource) => resource._type === 'environment');
+    const base = environments.find((env) => !workspace || env.parentId === workspace._id) || environments.find((env) => !ids.has(env.parentId));
+
+    return {
+      title: workspace?.name || 'Insomnia API',
+      description: workspace?.description,
+      root,
+      environments: {
+        name: base?.name || 'Base Environment',
+        data: base?.data || {},
+        subEnvironments: environments
+          .filter((env) => base && env.parentId === base._id)
+          .map((env) => ({ name: env.name, data: env.data || {} })),
+      },
+    };
+  }
+
+  /**
+   * Folder tree and environments of a v5 collection
+   */
+  private static fromV5(document: any): { title: string; description?: string; root: InsomniaNode[]; environments: InsomniaEnvironment } {
+    return {
+      title: document.name || 'Insomnia API',
+      description: document.meta?.description,
+      root: document.collection || [],
+      environments: {
+        name: document.environments?.name || 'Base Environment',
+        data: document.environments?.data || {},
+        subEnvironments: (document.environments?.subEnvironments || []).map((env: any) => ({ name: env.name, data: env.data || {} })),
+      },
+    };
+  }
+
+  /**
+   * Base environment data overlaid with the chosen sub-environment
+   */
+  private static selectEnvironment(environments: InsomniaEnvironment, name?: string): Record<string, any> {
+    const subEnvironments = environments.subEnvironments;
+    const selected = name ? subEnvironments.find((env) => env.name === name) : subEnvironments[0];
+
+    if (name && !selected) {
+      Logger.warn(`Environment "${name}" not found; available: ${subEnvironments.map((env) => env.name).join(', ') || 'none'}`);
+    } else if (selected) {
+      Logger.info(`Using environment "${selected.name}"${subEnvironments.length > 1 ? ` (of ${subEnvironments.map((env) => env.name).join(', ')})` : ''}`);
+    }
+
+    return { ...environments.data, ...(selected?.data || {}) };
+  }
+
+  /**
+   * Walk the folder tree, carrying folder names, variables and auth down to the requests
+   */
+  private static collectRequests(
+    nodes: InsomniaNode[],
+    folders: string[],
+    variables: Record<string, any>,
+    inheritedAuth: CollectionAuth | null | undefined,
+    requests: CollectionRequest[],
+    inheritedHeaders: CollectionValue[] = []
+  ): void {
+    for (const node of nodes) {
+      const auth = this.readAuth(node.authentication);
+
+      if (node.children) {
+        this.collectRequests(
+          node.children,
+          [...folders, node.name],
+          { ...variables, ...(node.environment || {}) },
+          auth === undefined ? inheritedAuth : auth,
+          requests,
+          [...inheritedHeaders, ...this.enabled(node.headers)]
+        );
+        continue;
+      }
+
+      if (!node.method || node.url === undefined) continue;
+
+      requests.push({
+        name: node.name,
+        description: node.description,
+        folders,
+        method: node.method,
+        url: node.url,
+        query: this.enabled(node.parameters),
+        pathParams: node.pathParameters,
+        headers: [...inheritedHeaders, ...this.enabled(node.headers)],
+        body: this.readBody(node.body),
+        auth: auth === undefined ? inheritedAuth : auth,
+        variables,
+      });
+    }
+  }
+
+  /**
+   * Auth of a folder or request; undefined when it inherits
+   */
+  private static readAuth(authentication: any): CollectionAuth | null | undefined {
+    if (!authentication || !authentication.type || authentication.type === 'inherit') return undefined;
+    if (authentication.disabled || authentication.type === 'none') return null;
+
+    switch (authentication.type) {
+      case 'bearer':
+        return { type: 'bearer' };
+      case 'basic':
+        return { type: 'basic' };
+      case 'apikey':
+        return { type: 'apikey', in: authentication.addTo === 'queryParams' ? 'query' : 'header', name: authentication.key };
+      case 'oauth2':
+        return { type: 'oauth2', tokenUrl: authentication.accessTokenUrl };
+      default:
+        Logger.warn(`Unsupported Insomnia auth type "${authentication.type}"; configure an auth profile for it`);
+        return undefined;
+    }
+  }
+
+  private static readBody(body: InsomniaNode['body']): CollectionBody | undefined {
+    if (!body || (!body.mimeType && !body.text)) return undefined;
+
+    const mimeType = (body.mimeType || '').toLowerCase();
+    const fields = this.enabled(body.params).map((param: any) => ({ name: param.name, value: param.value, file: param.type === 'file' }));
+
+    if (mimeType === 'application/x-www-form-urlencoded') return { mode: 'urlencoded', fields };
+    if (mimeType === 'multipart/form-data') return { mode: 'multipart', fields };
+    if (mimeType === 'application/octet-stream' || body.fileName) return { mode: 'file', contentType: mimeType || undefined };
+    if (mimeType.includes('json')) return { mode: 'json', text: body.text };
+    return { mode: 'text', text: body.text, contentType: mimeType || undefined };
+  }
+
+  private static enabled<T extends { disabled?: boolean }>(values?: T[]): T[] {
+    return (values || []).filter((value) => !value.disabled && (value as any).name);
+  }
+
+  private static readDocument(content: string): any {
+    try {
+      return JSON.parse(content);
+    } catch {
+      return parseYaml(content);
+    }
+  }
+
+  /**
+   * Check if a parsed document is an Insomnia export
+   */
+  static isInsomnia(document: any): boolean {
+    return Boolean(
+      document &&
+        ((document._type === 'export' && Array.isArray(document.resources)) ||
+          (typeof document.type === 'string' && document.type.startsWith('collection.insomnia.rest')))
+    );
+  }
+
+  /**
+   * Check if a file is an Insomnia export
+   */
+  static async isInsomniaExport(filePath: string): Promise<boolean> {
+    if (!/\.(json|ya?ml)$/i.test(filePath)) return false;
+    try {
+      return this.isInsomnia(this.readDocument(await fs.readFile(filePath, 'utf-8')));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Detect Insomnia exports in a directory
+   */
+  static async detectExportFiles(directory: string = process.cwd()): Promise<string[]> {
+    const foundFiles: string[] = [];
+
+    try {
+      const files = await fs.readdir(directory);
+      for (const file of files) {
+        const filePath = path.join(directory, file);
+        if (await this.isInsomniaExport(filePath)) {
+          foundFiles.push(filePath);
+        }
+      }
+    } catch (error) {
+      // Directory read error, skip
+    }
+
+    return foundFiles;
+  }
+}
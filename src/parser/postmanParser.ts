@@ -1,11 +1,17 @@
 /**
  * Parser for Postman collections with LLM-powered understanding
+ *
+ * Variables come from the collection and from any environment files, later
+ * files overriding earlier ones. Known `{{variables}}` are resolved before
+ * URLs and bodies are read; only those left in the path become parameters.
  */
 
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import OpenAI from 'openai';
 import { Logger } from '../utils/logger';
+import { EndpointFilter } from '../server/endpointFilter';
+import { LLMProvider, parseJsonResponse } from '../llm/llmProvider';
+import { CollectionConverter } from './collectionRequests';
 
 export interface PostmanCollection {
   info: {
@@ -45,13 +51,23 @@ export interface PostmanBody {
   mode?: 'raw' | 'urlencoded' | 'formdata' | 'file' | 'graphql';
   raw?: string;
   urlencoded?: Array<{ key: string; value: string; type?: string }>;
-  formdata?: Array<{ key: string; value: string; type?: string }>;
+  formdata?: Array<{ key: string; value?: string; type?: string }>;
 }
 
 export interface PostmanVariable {
   key: string;
   value: string;
   type?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Environment file, as exported from Postman
+ */
+export interface PostmanEnvironment {
+  name: string;
+  values: Array<{ key: string; value: string; type?: string; enabled?: boolean }>;
+  _postman_variable_scope?: string;
 }
 
 export interface ParsedPostmanAPI {
@@ -66,20 +82,21 @@ export interface ParsedPostmanAPI {
   components?: any;
 }
 
+/** Variable names taken for the base URL, in order of preference (compared in lower case) */
+const BASE_URL_KEYS = ['baseurl', 'base_url', 'base-url', 'host', 'url'];
+
 export class PostmanParser {
-  private static openai: OpenAI | null = null;
+  private static llm: LLMProvider | null = null;
 
   /**
-   * Initialize OpenAI client if API key is available
+   * Select the LLM provider used for enhancement
    */
-  private static initOpenAI(apiKey?: string): void {
-    const key = apiKey || process.env.OPENAI_API_KEY;
-    if (key && key.startsWith('sk-')) {
-      this.openai = new OpenAI({ apiKey: key });
-      Logger.info('OpenAI enabled for enhanced Postman parsing');
+  private static initLLM(llm?: LLMProvider | null): void {
+    this.llm = llm || null;
+    if (this.llm) {
+      Logger.info(`${this.llm.name} enabled for enhanced Postman parsing`);
     } else {
-      this.openai = null;
-      Logger.info('Using basic Postman parsing (no OpenAI key)');
+      Logger.info('Using basic Postman parsing (no LLM configured)');
     }
   }
 
@@ -87,21 +104,28 @@ export class PostmanParser {
    * Check if we can use LLM enhancement
    */
   private static canUseLLM(): boolean {
-    return this.openai !== null;
+    return this.llm !== null;
   }
 
   /**
    * Parse a Postman collection file
+   * @param environmentPaths - Environment files whose variables override the collection's
    */
-  static async parse(filePath: string, openaiApiKey?: string): Promise<ParsedPostmanAPI> {
+  static async parse(
+    filePath: string,
+    llm?: LLMProvider | null,
+    filter?: EndpointFilter,
+    environmentPaths: string[] = []
+  ): Promise<ParsedPostmanAPI> {
     try {
       Logger.info(`Parsing Postman collection from ${filePath}`);
 
-      // Initialize OpenAI if key provided
-      this.initOpenAI(openaiApiKey);
+      // Use the LLM provider if one is configured
+      this.initLLM(llm);
 
       // Read and validate collection
       const collection = await this.readCollection(filePath);
+      const environment = await this.readEnvironments(environmentPaths);
       
       // Extract base information
       const parsedAPI: ParsedPostmanAPI = {
@@ -110,16 +134,19 @@ export class PostmanParser {
           description: collection.info.description || '',
           version: '1.0.0',
         },
-        variables: this.extractVariables(collection),
+        variables: { ...this.extractVariables(collection), ...environment },
         paths: {},
       };
 
       // Extract base URL
-      parsedAPI.baseUrl = await this.extractBaseUrl(collection);
+      parsedAPI.baseUrl = await this.extractBaseUrl(collection, parsedAPI.variables!);
 
       // Parse all requests
       await this.parseItems(collection.item, parsedAPI, []);
 
+      // Filtered-out operations must not reach the LLM or the manifest
+      filter?.applyToPaths(parsedAPI.paths);
+
       // Enhance with LLM if available, otherwise use basic enhancement
       if (this.canUseLLM()) {
         await this.enhanceWithLLM(parsedAPI, collection);
@@ -150,6 +177,28 @@ export class PostmanParser {
     return collection;
   }
 
+  /**
+   * Read environment files; variables of later files override those of earlier ones
+   */
+  static async readEnvironments(filePaths: string[]): Promise<Record<string, string>> {
+    const variables: Record<string, string> = {};
+
+    for (const filePath of filePaths) {
+      const environment: PostmanEnvironment = await fs.readJSON(filePath);
+      if (!Array.isArray(environment.values)) {
+        throw new Error(`Invalid Postman environment file ${filePath}: missing values`);
+      }
+
+      const enabled = environment.values.filter((value) => value.key && value.enabled !== false);
+      for (const value of enabled) {
+        variables[value.key] = value.value;
+      }
+      Logger.info(`Using Postman environment "${environment.name || path.basename(filePath)}" (${enabled.length} variable(s))`);
+    }
+
+    return variables;
+  }
+
   /**
    * Extract variables from collection
    */
@@ -158,7 +207,9 @@ export class PostmanParser {
     
     if (collection.variable) {
       for (const variable of collection.variable) {
-        variables[variable.key] = variable.value;
+        if (!variable.disabled) {
+          variables[variable.key] = variable.value;
+        }
       }
     }
 
@@ -166,34 +217,28 @@ export class PostmanParser {
   }
 
   /**
-   * Extract base URL from collection
+   * Extract base URL from the variables or the first request
    */
-  private static async extractBaseUrl(collection: PostmanCollection): Promise<string | undefined> {
-    // Check collection variables first
-    if (collection.variable) {
-      const baseUrlVar = collection.variable.find(v => 
-        v.key.toLowerCase().includes('baseurl') || 
-        v.key.toLowerCase().includes('base_url') ||
-        v.key.toLowerCase().includes('url')
-      );
-      if (baseUrlVar) {
-        return baseUrlVar.value;
+  private static async extractBaseUrl(collection: PostmanCollection, variables: Record<string, string>): Promise<string | undefined> {
+    // Check variables first: the usual names, then any name containing "url" (authUrl and the like come last)
+    const keys = Object.keys(variables);
+    const candidates = [
+      ...BASE_URL_KEYS.flatMap((name) => keys.filter((key) => key.toLowerCase() === name)),
+      ...keys.filter((key) => key.toLowerCase().includes('url') && !BASE_URL_KEYS.includes(key.toLowerCase())),
+    ];
+    for (const key of candidates) {
+      // Only the origin: any base path is part of the resolved request paths
+      const origin = CollectionConverter.splitUrl(CollectionConverter.resolveVariables(String(variables[key] ?? ''), variables)).origin;
+      if (origin) {
+        return origin;
       }
     }
 
     // Try to extract from first request
     const firstRequest = this.findFirstRequest(collection.item);
     if (firstRequest?.request?.url) {
-      const url = typeof firstRequest.request.url === 'string' 
-        ? firstRequest.request.url 
-        : firstRequest.request.url.raw || '';
-      
-      try {
-        const urlObj = new URL(url.replace(/{{.*?}}/g, 'localhost'));
-        return `${urlObj.protocol}//${urlObj.host}`;
-      } catch {
-        // Invalid URL, will return undefined
-      }
+      const url = CollectionConverter.resolveVariables(this.rawUrl(firstRequest.request.url), variables);
+      return CollectionConverter.splitUrl(url).origin;
     }
 
     return undefined;
@@ -246,7 +291,7 @@ export class PostmanParser {
     const method = request.method.toLowerCase();
     
     // Parse URL
-    const urlInfo = this.parseUrl(request.url);
+    const urlInfo = this.parseUrl(request.url, parsedAPI.variables || {});
     const path = urlInfo.path;
 
     // Initialize path in paths object
@@ -279,10 +324,11 @@ export class PostmanParser {
     if (urlInfo.pathParams) {
       for (const param of urlInfo.pathParams) {
         operation.parameters.push({
-          name: param,
+          name: param.name,
           in: 'path',
           required: true,
-          schema: { type: 'string' },
+          description: param.description || '',
+          schema: { type: 'string', ...(param.example ? { example: param.example } : {}) },
         });
       }
     }
@@ -303,7 +349,7 @@ export class PostmanParser {
 
     // Parse body
     if (request.body && ['post', 'put', 'patch'].includes(method)) {
-      operation.requestBody = this.parseBody(request.body);
+      operation.requestBody = this.parseBody(request.body, parsedAPI.variables || {});
     }
 
     // Add response placeholder
@@ -321,73 +367,62 @@ export class PostmanParser {
     parsedAPI.paths[path][method] = operation;
   }
 
+  /**
+   * URL as written in the request, rebuilt from its parts when there is no raw form
+   */
+  private static rawUrl(url: PostmanUrl | string): string {
+    if (typeof url === 'string') return url;
+    if (url.raw) return url.raw;
+
+    const host = Array.isArray(url.host) ? url.host.join('.') : url.host || '';
+    const origin = host ? `${url.protocol ? `${url.protocol}://` : ''}${host}` : '';
+    return `${origin}/${(url.path || []).join('/')}`;
+  }
+
   /**
    * Parse URL from Postman format
+   * Known variables are resolved first, so `{{baseUrl}}` drops out while `{{userId}}` becomes a parameter
    */
-  private static parseUrl(url: PostmanUrl | string): {
+  private static parseUrl(url: PostmanUrl | string, variables: Record<string, string>): {
     path: string;
     query?: Array<{ key: string; value: string; description?: string }>;
-    pathParams?: string[];
+    pathParams?: Array<{ name: string; description?: string; example?: string }>;
   } {
-    let rawUrl = '';
-    let query: Array<{ key: string; value: string; description?: string }> | undefined;
-    
-    if (typeof url === 'string') {
-      rawUrl = url;
-    } else {
-      rawUrl = url.raw || '';
-      query = url.query;
-      
-      // Build path from segments
-      if (url.path) {
-        rawUrl = '/' + url.path.join('/');
-      }
-    }
-
-    // Extract path (remove base URL and query string)
-    let path = rawUrl.split('?')[0];
-    
-    // Remove protocol and host
-    path = path.replace(/^https?:\/\/[^\/]+/, '');
-    
-    // Ensure path starts with /
-    if (!path.startsWith('/')) {
-      path = '/' + path;
-    }
-
-    // Replace {{variables}} with {variables} for OpenAPI format
-    const pathParams: string[] = [];
-    path = path.replace(/{{([^}]+)}}/g, (match, param) => {
-      pathParams.push(param);
-      return `{${param}}`;
+    const { path, query: urlQuery } = CollectionConverter.splitUrl(CollectionConverter.resolveVariables(this.rawUrl(url), variables));
+
+    // The query list carries descriptions; the raw URL is the fallback
+    const query = typeof url !== 'string' && url.query
+      ? url.query.filter((param: any) => !param.disabled)
+      : urlQuery.map((param) => ({ key: param.name, value: param.value || '' }));
+
+    // Values and descriptions of :params are listed with the URL
+    const known = typeof url === 'string' ? [] : url.variable || [];
+    const pathParams = path.params.map((name) => {
+      const variable = known.find((candidate) => candidate.key === name);
+      const example = variable?.value ? CollectionConverter.resolveVariables(String(variable.value), variables) : undefined;
+      return { name, description: variable?.description, example: example && !example.includes('{{') ? example : undefined };
     });
 
-    // Also handle :param format
-    path = path.replace(/:([a-zA-Z0-9_]+)/g, (match, param) => {
-      pathParams.push(param);
-      return `{${param}}`;
-    });
-
-    return { path, query, pathParams: pathParams.length > 0 ? pathParams : undefined };
+    return { path: path.template, query: query.length > 0 ? query : undefined, pathParams: pathParams.length > 0 ? pathParams : undefined };
   }
 
   /**
    * Parse request body
+   * Variables are resolved first; any left standing for values are read as null
    */
-  private static parseBody(body: PostmanBody): any {
+  private static parseBody(body: PostmanBody, variables: Record<string, string>): any {
     const requestBody: any = {
       required: true,
       content: {},
     };
 
     if (body.mode === 'raw' && body.raw) {
-      // Try to parse as JSON
-      try {
-        const jsonBody = JSON.parse(body.raw);
+      const jsonBody = CollectionConverter.parseJsonExample(CollectionConverter.resolveVariables(body.raw, variables));
+      if (jsonBody !== undefined) {
         requestBody.content['application/json'] = {
           schema: this.inferSchemaFromObject(jsonBody),
         };
-      } catch {
+      } else {
         // Not JSON, treat as text
         requestBody.content['text/plain'] = {
           schema: { type: 'string' },
@@ -408,11 +443,17 @@ export class PostmanParser {
         schema: {
           type: 'object',
           properties: body.formdata.reduce((acc, param) => {
-            acc[param.key] = { type: this.inferType(param.value) };
+            // File fields carry the file itself rather than a value
+            acc[param.key] =
+              param.type === 'file' ? { type: 'string', format: 'binary' } : { type: this.inferType(param.value) };
             return acc;
           }, {} as any),
         },
       };
+    } else if (body.mode === 'file') {
+      requestBody.content['application/octet-stream'] = {
+        schema: { type: 'string', format: 'binary' },
+      };
     }
 
     return requestBody;
@@ -586,8 +627,7 @@ export class PostmanParser {
 
       const prompt = this.buildEnhancementPrompt(parsedAPI, collection);
       
-      const response = await this.openai!.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const content = await this.llm!.complete({
         messages: [
           {
             role: 'system',
@@ -598,11 +638,12 @@ export class PostmanParser {
             content: prompt,
           },
         ],
+        json: true,
         temperature: 0.3,
-        max_tokens: 2000,
+        maxTokens: 2000,
       });
 
-      const enhancement = JSON.parse(response.choices[0].message.content || '{}');
+      const enhancement = parseJsonResponse(content);
       this.applyEnhancements(parsedAPI, enhancement);
 
       Logger.success('LLM enhancement completed');
@@ -611,8 +652,8 @@ export class PostmanParser {
       if (err.message.includes('404') && err.message.includes('gpt-4')) {
         console.log('\n⚠️  LLM Enhancement Failed!');
         console.log('┌─────────────────────────────────────────────────────────┐');
-        console.log('│ 🚨 OpenAI API Error: Model access issue                │');
-        console.log('│ 💡 Check your API key has access to gpt-4o-mini        │');
+        console.log('│ 🚨 LLM API Error: Model access issue                   │');
+        console.log(`│ 💡 Check your API key has access to ${this.llm!.model.padEnd(19)} │`);
         console.log('│ 🔧 Check: https://platform.openai.com/api-keys         │');
         console.log('│ 💳 Ensure billing is set up properly                   │');
         console.log('└─────────────────────────────────────────────────────────┘');
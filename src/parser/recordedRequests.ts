@@ -0,0 +1,471 @@
+/**
+ * Turns recorded requests (HAR captures, curl commands) into the OpenAPI-like
+ * `paths` structure the Postman parser produces
+ *
+ * Requests are grouped by method and path template: numeric and UUID path
+ * segments become path parameters named after the segment before them
+ * (/users/42 → /users/{userId}). Query, header and body schemas are inferred
+ * from every request in a group and merged, and JSON responses give the
+ * response schemas.
+ */
+
+import { Logger } from '../utils/logger';
+import { EndpointFilter } from '../server/endpointFilter';
+
+export interface RecordedRequest {
+  method: string;
+  /** Absolute URL, including the query string */
+  url: string;
+  /** Header names in any case */
+  headers: Record<string, string>;
+  body?: RecordedBody;
+  response?: {
+    status: number;
+    contentType?: string;
+    text?: string;
+  };
+}
+
+export interface RecordedBody {
+  contentType?: string;
+  text?: string;
+  /** Form fields; for multipart bodies `file` marks file parts */
+  fields?: Array<{ name: string; value?: string; file?: boolean }>;
+}
+
+export interface ParsedRecordedAPI {
+  info: {
+    title: string;
+    description?: string;
+    version: string;
+  };
+  baseUrl?: string;
+  paths: Record<string, any>;
+}
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Segments that only version or prefix an API and make poor tags */
+const PREFIX_SEGMENTS = /^(api|rest|v\d+(\.\d+)?)$/i;
+
+/** Custom headers that browsers and proxies add on their own */
+const IGNORED_HEADERS = ['x-requested-with', 'x-client-data', 'x-forwarded-for', 'x-forwarded-host', 'x-forwarded-proto', 'x-real-ip'];
+
+/** Array items sampled when inferring item schemas */
+const MAX_SAMPLED_ITEMS = 20;
+
+interface RequestGroup {
+  method: string;
+  template: string;
+  pathParams: Array<{ name: string; values: string[] }>;
+  requests: Array<{ request: RecordedRequest; url: URL }>;
+}
+
+export class RecordedRequestMerger {
+  /**
+   * Build the parsed API from recorded requests
+   * Only requests to the most frequent origin are kept; that origin is the base URL
+   */
+  static toAPI(title: string, requests: RecordedRequest[], filter?: EndpointFilter): ParsedRecordedAPI {
+    const located = requests
+      .filter((request) => METHODS.includes(request.method.toLowerCase()))
+      .map((request) => ({ request, url: this.parseUrl(request.url) }))
+      .filter((entry): entry is { request: RecordedRequest; url: URL } => entry.url !== null);
+
+    const baseUrl = this.mostFrequentOrigin(located.map(({ url }) => url.origin));
+    const kept = located.filter(({ url }) => url.origin === baseUrl);
+    if (kept.length < located.length) {
+      Logger.info(`Skipped ${located.length - kept.length} request(s) to origins other than ${baseUrl}`);
+    }
+
+    const groups = new Map<string, RequestGroup>();
+    for (const entry of kept) {
+      const method = entry.request.method.toLowerCase();
+      const { template, values } = this.templatePath(entry.url.pathname);
+      const key = `${method} ${template}`;
+
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          method,
+          template,
+          pathParams: values.map(({ name }) => ({ name, values: [] })),
+          requests: [],
+        };
+        groups.set(key, group);
+      }
+
+      values.forEach(({ value }, i) => group!.pathParams[i].values.push(value));
+      group.requests.push(entry);
+    }
+
+    const parsedAPI: ParsedRecordedAPI = {
+      info: {
+        title,
+        description: `${groups.size} operation(s) recorded from ${kept.length} request(s)`,
+        version: '1.0.0',
+      },
+      baseUrl,
+      paths: {},
+    };
+
+    for (const group of groups.values()) {
+      parsedAPI.paths[group.template] = parsedAPI.paths[group.template] || {};
+      parsedAPI.paths[group.template][group.method] = this.buildOperation(group);
+    }
+
+    // Filtered-out operations must not reach the manifest
+    filter?.applyToPaths(parsedAPI.paths);
+
+    return parsedAPI;
+  }
+
+  /**
+   * Path template and the values of its parameters
+   * Numeric and UUID segments are parameters, named after the segment before them
+   */
+  static templatePath(pathname: string): { template: string; values: Array<{ name: string; value: string }> } {
+    const values: Array<{ name: string; value: string }> = [];
+    const segments = pathname.split('/').filter(Boolean);
+
+    const templated = segments.map((segment, i) => {
+      if (!/^\d+$/.test(segment) && !UUID_PATTERN.test(segment)) {
+        return segment;
+      }
+
+      const previous = i > 0 && !/^\d+$/.test(segments[i - 1]) && !UUID_PATTERN.test(segments[i - 1]) ? segments[i - 1] : '';
+      let name = previous && !PREFIX_SEGMENTS.test(previous) ? `${this.singular(this.camelCase(previous))}Id` : 'id';
+
+      // Keep names unique within the path
+      const base = name;
+      for (let n = 2; values.some((value) => value.name === name); n++) {
+        name = `${base}${n}`;
+      }
+
+      values.push({ name, value: segment });
+      return `{${name}}`;
+    });
+
+    return { template: `/${templated.join('/')}`, values };
+  }
+
+  /**
+   * Operation for a group of requests with the same method and path template
+   */
+  private static buildOperation(group: RequestGroup): any {
+    const resource = group.template.split('/').filter((segment) => segment && !segment.startsWith('{')).pop() || 'resource';
+    const tag = group.template.split('/').find((segment) => segment && !segment.startsWith('{') && !PREFIX_SEGMENTS.test(segment));
+
+    const operation: any = {
+      summary: this.summarize(group.method, group.template, resource),
+      description: `Recorded from ${group.requests.length} request(s)`,
+      tags: tag ? [tag] : undefined,
+      parameters: [
+        ...group.pathParams.map((param) => ({
+          name: param.name,
+          in: 'path',
+          required: true,
+          schema: this.exampleSchema(param.values),
+        })),
+        ...this.queryParameters(group),
+        ...this.headerParameters(group),
+      ],
+    };
+
+    const requestBody = this.buildRequestBody(group);
+    if (requestBody) {
+      operation.requestBody = requestBody;
+    }
+
+    operation.responses = this.buildResponses(group);
+
+    return operation;
+  }
+
+  /**
+   * Query parameters seen in any request of the group
+   */
+  private static queryParameters(group: RequestGroup): any[] {
+    const values = new Map<string, string[]>();
+    for (const { url } of group.requests) {
+      url.searchParams.forEach((value, name) => {
+        values.set(name, [...(values.get(name) || []), value]);
+      });
+    }
+
+    return Array.from(values.entries()).map(([name, observed]) => ({
+      name,
+      in: 'query',
+      required: false,
+      schema: this.exampleSchema(observed),
+    }));
+  }
+
+  /**
+   * Custom (X-) headers the client sent; their values are not recorded since they often hold keys
+   */
+  private static headerParameters(group: RequestGroup): any[] {
+    const names = new Map<string, string>();
+    for (const { request } of group.requests) {
+      for (const name of Object.keys(request.headers)) {
+        const lower = name.toLowerCase();
+        if (lower.startsWith('x-') && !IGNORED_HEADERS.includes(lower) && !names.has(lower)) {
+          names.set(lower, name);
+        }
+      }
+    }
+
+    return Array.from(names.values()).map((name) => ({
+      name,
+      in: 'header',
+      required: false,
+      schema: { type: 'string' },
+    }));
+  }
+
+  /**
+   * Request body schema merged from the bodies of the group
+   * Top-level JSON fields are required when every one of two or more bodies has them
+   */
+  private static buildRequestBody(group: RequestGroup): any | undefined {
+    const bodies = group.requests.map(({ request }) => request.body).filter((body): body is RecordedBody => Boolean(body));
+    if (bodies.length === 0 || group.method === 'get' || group.method === 'delete') {
+      return undefined;
+    }
+
+    const contentType = this.mediaType(bodies[0].contentType) || 'application/json';
+    const sameType = bodies.filter((body) => (this.mediaType(body.contentType) || 'application/json') === contentType);
+    let schema: any;
+
+    if (contentType === 'application/x-www-form-urlencoded' || contentType === 'multipart/form-data') {
+      const properties: Record<string, any> = {};
+      for (const body of sameType) {
+        for (const field of this.formFields(body)) {
+          const fieldSchema = field.file ? { type: 'string', format: 'binary' } : this.inferValueSchema([field.value ?? '']);
+          properties[field.name] = properties[field.name] ? this.mergeSchemas(properties[field.name], fieldSchema) : fieldSchema;
+        }
+      }
+      schema = { type: 'object', properties };
+    } else if (contentType.includes('json')) {
+      const samples = sameType.map((body) => this.parseJson(body.text)).filter((value) => value !== undefined);
+      if (samples.length === 0) {
+        return undefined;
+      }
+
+      schema = samples.map((sample) => this.inferSchema(sample)).reduce((a, b) => this.mergeSchemas(a, b));
+      if (schema.type === 'object' && samples.length > 1) {
+        const required = Object.keys(schema.properties).filter((key) =>
+          samples.every((sample) => sample && typeof sample === 'object' && key in sample)
+        );
+        if (required.length > 0) {
+          schema.required = required;
+        }
+      }
+    } else {
+      schema = contentType.startsWith('text/') ? { type: 'string' } : { type: 'string', format: 'binary' };
+    }
+
+    return {
+      required: true,
+      content: { [contentType.includes('json') ? 'application/json' : contentType]: { schema } },
+    };
+  }
+
+  /**
+   * Responses by status; JSON bodies give the schema
+   */
+  private static buildResponses(group: RequestGroup): Record<string, any> {
+    const responses: Record<string, any> = {};
+
+    for (const { request } of group.requests) {
+      const response = request.response;
+      if (!response || !response.status) continue;
+
+      const status = String(response.status);
+      responses[status] = responses[status] || { description: `Recorded ${status} response` };
+
+      const data = this.mediaType(response.contentType)?.includes('json') ? this.parseJson(response.text) : undefined;
+      if (data === undefined) continue;
+
+      const existing = responses[status].content?.['application/json']?.schema;
+      const schema = existing ? this.mergeSchemas(existing, this.inferSchema(data)) : this.inferSchema(data);
+      responses[status].content = { 'application/json': { schema } };
+    }
+
+    // Same placeholder as collections without recorded responses
+    if (Object.keys(responses).length === 0) {
+      responses['200'] = {
+        description: 'Successful response',
+        content: { 'application/json': { schema: { type: 'object' } } },
+      };
+    }
+
+    return responses;
+  }
+
+  /**
+   * Schema of a JSON value, in the shapes PostmanParser.inferSchemaFromObject produces
+   * Every sampled array item contributes to the item schema, and integers are told apart
+   */
+  static inferSchema(value: any): any {
+    if (Array.isArray(value)) {
+      const items = value.slice(0, MAX_SAMPLED_ITEMS).map((item) => this.inferSchema(item));
+      return {
+        type: 'array',
+        items: items.length > 0 ? items.reduce((a, b) => this.mergeSchemas(a, b)) : { type: 'object' },
+      };
+    }
+
+    if (value === null) {
+      return { nullable: true };
+    }
+
+    if (typeof value === 'object') {
+      const properties: Record<string, any> = {};
+      for (const [key, property] of Object.entries(value)) {
+        properties[key] = this.inferSchema(property);
+      }
+      return { type: 'object', properties };
+    }
+
+    if (typeof value === 'number') {
+      return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    }
+
+    return { type: typeof value === 'boolean' ? 'boolean' : 'string' };
+  }
+
+  /**
+   * Schema covering both samples: object properties are combined, integer and number widen to number
+   */
+  static mergeSchemas(a: any, b: any): any {
+    if (!a.type || !b.type) {
+      const typed = a.type ? a : b;
+      return { ...typed, nullable: true };
+    }
+
+    if (a.type !== b.type) {
+      const numeric = ['integer', 'number'];
+      return numeric.includes(a.type) && numeric.includes(b.type) ? { ...a, type: 'number' } : a;
+    }
+
+    if (a.type === 'object') {
+      const properties: Record<string, any> = { ...(a.properties || {}) };
+      for (const [key, schema] of Object.entries(b.properties || {})) {
+        properties[key] = properties[key] ? this.mergeSchemas(properties[key], schema) : schema;
+      }
+      return { ...a, properties };
+    }
+
+    if (a.type === 'array') {
+      return { ...a, items: this.mergeSchemas(a.items, b.items) };
+    }
+
+    return a;
+  }
+
+  /**
+   * Schema of string values seen in a URL or form: integer, number or boolean when all of them are
+   */
+  private static inferValueSchema(values: string[]): any {
+    if (values.length > 0 && values.every((value) => /^-?\d+$/.test(value))) {
+      return { type: 'integer' };
+    }
+    if (values.length > 0 && values.every((value) => /^-?\d*\.?\d+$/.test(value))) {
+      return { type: 'number' };
+    }
+    if (values.length > 0 && values.every((value) => value === 'true' || value === 'false')) {
+      return { type: 'boolean' };
+    }
+    if (values.length > 0 && values.every((value) => UUID_PATTERN.test(value))) {
+      return { type: 'string', format: 'uuid' };
+    }
+    return { type: 'string' };
+  }
+
+  /**
+   * Schema of URL values with the first of them as a typed example
+   */
+  private static exampleSchema(values: string[]): any {
+    const schema = this.inferValueSchema(values);
+    const example = values[0];
+    if (example === undefined) return schema;
+
+    const typed = schema.type === 'integer' || schema.type === 'number' ? Number(example) : schema.type === 'boolean' ? example === 'true' : example;
+    return { ...schema, example: typed };
+  }
+
+  /**
+   * Fields of a form body, from the recorded fields or the urlencoded text
+   */
+  private static formFields(body: RecordedBody): Array<{ name: string; value?: string; file?: boolean }> {
+    if (body.fields) {
+      return body.fields;
+    }
+    return Array.from(new URLSearchParams(body.text || '').entries()).map(([name, value]) => ({ name, value }));
+  }
+
+  /**
+   * Summary such as "List users", "Get user" or "Create orders"
+   */
+  private static summarize(method: string, template: string, resource: string): string {
+    const byId = template.endsWith('}');
+    const actions: Record<string, string> = {
+      get: byId ? 'Get' : 'List',
+      post: 'Create',
+      put: 'Replace',
+      patch: 'Update',
+      delete: 'Delete',
+    };
+    const noun = byId || method !== 'get' ? this.singular(resource) : resource;
+    return `${actions[method]} ${noun}`;
+  }
+
+  /**
+   * Origin with the most requests
+   */
+  private static mostFrequentOrigin(origins: string[]): string | undefined {
+    const counts = new Map<string, number>();
+    origins.forEach((origin) => counts.set(origin, (counts.get(origin) || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+  }
+
+  /**
+   * Media type without parameters, e.g. application/json for "application/json; charset=utf-8"
+   */
+  private static mediaType(contentType?: string): string | undefined {
+    return contentType ? contentType.split(';')[0].trim().toLowerCase() : undefined;
+  }
+
+  private static parseUrl(url: string): URL | null {
+    try {
+      return new URL(url);
+    } catch {
+      Logger.warn(`Skipping request with an invalid URL: ${url}`);
+      return null;
+    }
+  }
+
+  private static parseJson(text?: string): any {
+    if (!text) return undefined;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static camelCase(segment: string): string {
+    const camel = segment.replace(/[-_.]+([a-zA-Z0-9])/g, (_, char: string) => char.toUpperCase());
+    return camel.charAt(0).toLowerCase() + camel.slice(1);
+  }
+
+  private static singular(word: string): string {
+    if (/ies$/.test(word)) return word.replace(/ies$/, 'y');
+    if (/(ss|us)$/.test(word)) return word;
+    if (/(ches|shes|xes|sses)$/.test(word)) return word.replace(/es$/, '');
+    return word.replace(/s$/, '');
+  }
+}
@@ -5,8 +5,9 @@
 import SwaggerParser from 'swagger-parser';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import OpenAI from 'openai';
 import { Logger } from '../utils/logger';
+import { EndpointFilter } from '../server/endpointFilter';
+import { LLMProvider, parseJsonResponse } from '../llm/llmProvider';
 
 export interface ParsedAPI {
   info: {
@@ -17,22 +18,22 @@ export interface ParsedAPI {
   servers?: Array<{ url: string; description?: string }>;
   paths: any;
   components?: any;
+  securityDefinitions?: any;
+  security?: Array<Record<string, string[]>>;
 }
 
 export class SwaggerAPIParser {
-  private static openai: OpenAI | null = null;
+  private static llm: LLMProvider | null = null;
 
   /**
-   * Initialize OpenAI client if API key is available
+   * Select the LLM provider used for enhancement
    */
-  private static initOpenAI(apiKey?: string): void {
-    const key = apiKey || process.env.OPENAI_API_KEY;
-    if (key && key.startsWith('sk-')) {
-      this.openai = new OpenAI({ apiKey: key });
-      Logger.info('OpenAI enabled for enhanced API parsing');
+  private static initLLM(llm?: LLMProvider | null): void {
+    this.llm = llm || null;
+    if (this.llm) {
+      Logger.info(`${this.llm.name} enabled for enhanced API parsing`);
     } else {
-      this.openai = null;
-      Logger.info('Using basic API parsing (no OpenAI key)');
+      Logger.info('Using basic API parsing (no LLM configured)');
     }
   }
 
@@ -40,21 +41,24 @@ export class SwaggerAPIParser {
    * Check if we can use LLM enhancement
    */
   private static canUseLLM(): boolean {
-    return this.openai !== null;
+    return this.llm !== null;
   }
 
   /**
    * Parse a Swagger/OpenAPI file with optional LLM enhancement
    */
-  static async parse(filePath: string, openaiApiKey?: string): Promise<ParsedAPI> {
+  static async parse(filePath: string, llm?: LLMProvider | null, filter?: EndpointFilter): Promise<ParsedAPI> {
     try {
       Logger.info(`Parsing API specification from ${filePath}`);
 
-      // Initialize OpenAI if key provided
-      this.initOpenAI(openaiApiKey);
+      // Use the LLM provider if one is configured
+      this.initLLM(llm);
 
       const api = await (SwaggerParser as any).validate(filePath);
 
+      // Filtered-out operations must not reach the LLM or the manifest
+      filter?.applyToPaths(api.paths);
+
       Logger.success(`Successfully parsed ${api.info?.title || 'API'} v${api.info?.version || 'unknown'}`);
 
       // Enhance with LLM if available, otherwise use basic enhancement
@@ -95,8 +99,7 @@ export class SwaggerAPIParser {
 
       const prompt = this.buildEnhancementPrompt(api);
       
-      const response = await this.openai!.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const content = await this.llm!.complete({
         messages: [
           {
             role: 'system',
@@ -107,11 +110,12 @@ export class SwaggerAPIParser {
             content: prompt,
           },
         ],
+        json: true,
         temperature: 0.3,
-        max_tokens: 2500,
+        maxTokens: 2500,
       });
 
-      const enhancement = JSON.parse(response.choices[0].message.content || '{}');
+      const enhancement = parseJsonResponse(content);
       this.applyEnhancements(api, enhancement);
 
       Logger.success('LLM enhancement completed');
@@ -120,8 +124,8 @@ export class SwaggerAPIParser {
       if (err.message.includes('404') && err.message.includes('gpt-4')) {
         console.log('\n⚠️  LLM Enhancement Failed!');
         console.log('┌─────────────────────────────────────────────────────────┐');
-        console.log('│ 🚨 OpenAI API Error: Model access issue                │');
-        console.log('│ 💡 Check your API key has access to gpt-4o-mini        │');
+        console.log('│ 🚨 LLM API Error: Model access issue                   │');
+        console.log(`│ 💡 Check your API key has access to ${this.llm!.model.padEnd(19)} │`);
         console.log('│ 🔧 Check: https://platform.openai.com/api-keys         │');
         console.log('│ 💳 Ensure billing is set up properly                   │');
         console.log('└─────────────────────────────────────────────────────────┘');
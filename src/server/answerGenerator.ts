@@ -0,0 +1,190 @@
+/**
+ * Natural-language answers to a query, grounded in the response of the call it made
+ *
+ * With an LLM the answer addresses the original question and cites the response
+ * fields it used; citations that do not resolve against the response are dropped.
+ * Error responses are explained rather than repeated. Without an LLM (or when the
+ * LLM call fails) the template summary of ResponseSummarizer is used.
+ */
+
+import { Logger } from '../utils/logger';
+import { getValueAtPath } from '../utils/valuePath';
+import { LLMProvider, parseJsonResponse } from '../llm/llmProvider';
+import { MCPEndpoint } from './manifest';
+import { ExecutionResult } from './requestExecutor';
+import { ResponseHandler } from './responseHandler';
+import { ResponseSummarizer } from './responseSummarizer';
+
+/**
+ * The `answers` block of .mcphy.json
+ */
+export interface AnswerConfig {
+  /** Write answers with the configured LLM (default: true); false always uses the template summary */
+  llm?: boolean;
+}
+
+/**
+ * Response field an answer is based on
+ */
+export interface AnswerCitation {
+  /** Path into the response body, e.g. items[0].name */
+  path: string;
+  value: any;
+}
+
+export interface GroundedAnswer {
+  text: string;
+  citations: AnswerCitation[];
+  source: 'llm' | 'template';
+}
+
+const MAX_CITATIONS = 10;
+const MAX_CITED_VALUE_LENGTH = 200;
+
+export class AnswerGenerator {
+  private llm: LLMProvider | null;
+  private responseHandler: ResponseHandler;
+
+  constructor(llm: LLMProvider | null = null, responseHandler: ResponseHandler = new ResponseHandler()) {
+    this.llm = llm;
+    this.responseHandler = responseHandler;
+  }
+
+  /**
+   * Answer a question from the result of the call made for it
+   * @param params - Parameters the call was made with
+   */
+  async answer(
+    question: string,
+    endpoint: MCPEndpoint,
+    params: Record<string, any>,
+    result: ExecutionResult
+  ): Promise<GroundedAnswer> {
+    const template: GroundedAnswer = {
+      text: ResponseSummarizer.summarize(endpoint.method, endpoint.path, result, endpoint.response),
+      citations: [],
+      source: 'template',
+    };
+
+    // Saved files and empty bodies have nothing to ground an answer in
+    if (!this.llm || result.saved || result.data === undefined || result.data === null || result.data === '') {
+      return template;
+    }
+
+    try {
+      Logger.info(`Answering from the ${endpoint.method} ${endpoint.path} response with ${this.llm.model}...`);
+
+      const content = await this.llm.complete({
+        messages: [
+          { role: 'system', content: this.buildPrompt() },
+          { role: 'user', content: this.describeCall(question, endpoint, params, result) },
+        ],
+        json: true,
+        temperature: 0.2,
+      });
+
+      const reply = parseJsonResponse(content);
+      if (typeof reply.answer !== 'string' || !reply.answer.trim()) {
+        throw new Error('The reply has no answer');
+      }
+
+      return {
+        text: reply.answer.trim(),
+        citations: this.resolveCitations(reply.citations, result.data),
+        source: 'llm',
+      };
+    } catch (error) {
+      Logger.warn(`Answer generation failed, using the template summary: ${(error as Error).message}`);
+      return template;
+    }
+  }
+
+  /**
+   * Instructions for the answering model
+   */
+  private buildPrompt(): string {
+    return `You answer a user's question using the response of the API call that was made for it.
+
+Rules:
+- Use only facts present in the response. Never invent values; say so when the response does not contain what was asked.
+- Answer the question itself in one to three sentences; do not describe the JSON structure.
+- Mention the number of items when the answer is about a list.
+- If the HTTP status is 400 or above, explain in plain words what went wrong, based on the error body and status, and what the user could change (for example a parameter value) to make the call succeed.
+- If the response was cut off or only some pages were fetched, say that the answer may be incomplete.
+
+Return a JSON object:
+{
+  "answer": "the answer",
+  "citations": ["paths of the response fields the answer uses"]
+}
+
+Citation paths are relative to the response body: "name", "items[0].price", "[2].status" for a top-level array, "error.message" for an error body. Cite every field whose value appears in the answer.`;
+  }
+
+  /**
+   * The question, the call and its response, with the data shortened for the model
+   */
+  private describeCall(
+    question: string,
+    endpoint: MCPEndpoint,
+    params: Record<string, any>,
+    result: ExecutionResult
+  ): string {
+    const notes: string[] = [];
+    if (result.truncated) {
+      notes.push('The response was too large and was cut off.');
+    }
+    if (result.pagination && !result.pagination.complete) {
+      notes.push(`${result.pagination.pages} pages were fetched; more results exist beyond the page limit.`);
+    }
+
+    return [
+      `Question: ${question}`,
+      '',
+      `Call: ${endpoint.method} ${endpoint.path}${endpoint.description ? ` (${endpoint.description})` : ''}`,
+      `Parameters: ${JSON.stringify(params)}`,
+      `HTTP status: ${result.status}`,
+      ...notes,
+      '',
+      'Response body:',
+      this.responseHandler.forLlm(result.data),
+    ].join('\n');
+  }
+
+  /**
+   * Keep the cited paths that exist in the response, with their values
+   */
+  private resolveCitations(paths: unknown, data: any): AnswerCitation[] {
+    if (!Array.isArray(paths)) return [];
+
+    const citations: AnswerCitation[] = [];
+
+    for (const cited of paths) {
+      if (typeof cited !== 'string') continue;
+
+      // JSONPath-style "$.items[0]" is accepted too
+      const path = cited.trim().replace(/^\$\.?/, '');
+      if (!path || citations.some((citation) => citation.path === path)) continue;
+
+      // Fields the model made up are not cited
+      const value = getValueAtPath(data, path);
+      if (value === undefined) continue;
+
+      citations.push({ path, value: this.shorten(value) });
+      if (citations.length === MAX_CITATIONS) break;
+    }
+
+    return citations;
+  }
+
+  /**
+   * Cited objects and long text are abbreviated
+   */
+  private shorten(value: any): any {
+    const text = typeof value === 'string' ? value : value !== null && typeof value === 'object' ? JSON.stringify(value) : null;
+    if (text === null || text.length <= MAX_CITED_VALUE_LENGTH) {
+      return value;
+    }
+    return `${text.slice(0, MAX_CITED_VALUE_LENGTH)}…`;
+  }
+}
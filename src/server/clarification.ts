@@ -0,0 +1,257 @@
+/**
+ * Structured clarification of missing required inputs (slot filling)
+ *
+ * When a matched call lacks required parameters, the server keeps the call
+ * pending and asks for just the missing fields, with their types:
+ *
+ *   { "id": "…", "message": "…", "fields": [{ "name": "garage_id", "type": "integer", "required": true }] }
+ *
+ * The client answers those fields (POST /mcp/clarifications/:id), the answers
+ * are merged into the pending call and execution continues. MCP tools ask
+ * the same question as an elicitation/create request when the client supports it.
+ */
+
+import { randomUUID } from 'crypto';
+import { MCPEndpoint } from './manifest';
+import { QueryMatchResult } from './queryMatcher';
+import { SchemaConverter } from './schemaConverter';
+import { RequestBodyEncoder } from './requestBodyEncoder';
+import { ParamValidationError } from './paramValidator';
+
+export interface ClarificationConfig {
+  /** Minutes an unanswered clarification is kept */
+  ttlMinutes?: number;
+  /** Pending calls kept at once; the oldest is dropped beyond this */
+  maxPending?: number;
+}
+
+/**
+ * One input the client is asked for
+ */
+export interface ClarificationField {
+  name: string;
+  /** JSON Schema type (string, integer, number, boolean, array, object), or "file" */
+  type: string;
+  description?: string;
+  format?: string;
+  enum?: any[];
+  default?: any;
+  examples?: any[];
+  location: 'path' | 'query' | 'header' | 'body';
+  required: boolean;
+  /** Why the value given earlier was not accepted */
+  error?: string;
+}
+
+/**
+ * Question sent to the client for a pending call
+ */
+export interface ClarificationRequest {
+  id: string;
+  message: string;
+  endpoint: string;
+  method: string;
+  fields: ClarificationField[];
+  expiresAt: string;
+}
+
+/**
+ * A matched call waiting for answers
+ */
+export interface PendingCall {
+  query: string;
+  match: QueryMatchResult;
+  params: Record<string, any>;
+  paginate?: boolean;
+  sessionId?: string;
+}
+
+interface PendingEntry {
+  call: PendingCall;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL_MINUTES = 15;
+const DEFAULT_MAX_PENDING = 500;
+
+export class ClarificationStore {
+  private pending: Map<string, PendingEntry>;
+  private ttlMs: number;
+  private maxPending: number;
+
+  constructor(config: ClarificationConfig = {}) {
+    this.pending = new Map();
+    this.ttlMs = (config.ttlMinutes ?? DEFAULT_TTL_MINUTES) * 60 * 1000;
+    this.maxPending = config.maxPending ?? DEFAULT_MAX_PENDING;
+  }
+
+  /**
+   * Keep a call pending
+   * @returns The clarification ID
+   */
+  create(call: PendingCall): string {
+    this.prune(Date.now());
+
+    const id = randomUUID();
+    this.pending.set(id, { call, expiresAt: Date.now() + this.ttlMs });
+
+    while (this.pending.size > this.maxPending) {
+      this.pending.delete(this.pending.keys().next().value as string);
+    }
+
+    return id;
+  }
+
+  /**
+   * The pending call behind a clarification, or undefined when it is unknown or expired
+   */
+  get(id: string): PendingCall | undefined {
+    this.prune(Date.now());
+    return this.pending.get(id)?.call;
+  }
+
+  /**
+   * Store the parameters collected so far for a call that stays pending, extending its expiry
+   * @returns Whether the call was still pending
+   */
+  update(id: string, params: Record<string, any>): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) return false;
+
+    entry.call = { ...entry.call, params };
+    entry.expiresAt = Date.now() + this.ttlMs;
+
+    // Keep the map in expiry order
+    this.pending.delete(id);
+    this.pending.set(id, entry);
+
+    return true;
+  }
+
+  /**
+   * Drop a pending call once it has run
+   */
+  delete(id: string): void {
+    this.pending.delete(id);
+  }
+
+  /**
+   * Question asking for the missing or invalid inputs of a pending call
+   * @param errors - Validation errors, shown on the fields they belong to
+   */
+  request(id: string, endpoint: MCPEndpoint, names: string[], errors: ParamValidationError[] = []): ClarificationRequest {
+    const fields = ClarificationStore.fieldsFor(endpoint, names).map((field) => {
+      const messages = errors
+        .filter((error) => error.param === field.name)
+        .map((error) => (error.path === error.param ? error.message : `${error.path}: ${error.message}`));
+      return messages.length > 0 ? { ...field, error: messages.join('; ') } : field;
+    });
+    const expiresAt = this.pending.get(id)?.expiresAt ?? Date.now();
+
+    return {
+      id,
+      message: ClarificationStore.messageFor(endpoint, fields),
+      endpoint: endpoint.path,
+      method: endpoint.method,
+      fields,
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+  }
+
+  /**
+   * Typed fields for an endpoint's inputs, taken from its tool input schema
+   */
+  static fieldsFor(endpoint: MCPEndpoint, names: string[]): ClarificationField[] {
+    const schema = SchemaConverter.buildInputSchema(endpoint);
+    const required: string[] = schema.required || [];
+    const fileFields = RequestBodyEncoder.fileFields(endpoint);
+
+    return names.map((name) => {
+      const prop = schema.properties?.[name] || {};
+      const param = endpoint.parameters?.find((p) => p.name === name);
+      const type = fileFields.includes(name)
+        ? 'file'
+        : Array.isArray(prop.type)
+        ? prop.type.find((t: string) => t !== 'null') || 'string'
+        : prop.type || 'string';
+
+      return {
+        name,
+        type,
+        ...(prop.description ? { description: prop.description } : {}),
+        ...(prop.format && type !== 'file' ? { format: prop.format } : {}),
+        ...(Array.isArray(prop.enum) ? { enum: prop.enum } : {}),
+        ...(prop.default !== undefined ? { default: prop.default } : {}),
+        ...(prop.examples ? { examples: prop.examples } : {}),
+        location: param?.location || 'body',
+        required: required.includes(name),
+      };
+    });
+  }
+
+  /**
+   * Requested schema for an MCP elicitation/create request
+   * Elicitation only supports flat primitive fields; the others are returned as unsupported
+   */
+  static toElicitationSchema(fields: ClarificationField[]): { requestedSchema: any; unsupported: string[] } {
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+    const unsupported: string[] = [];
+
+    for (const field of fields) {
+      if (!['string', 'integer', 'number', 'boolean'].includes(field.type)) {
+        unsupported.push(field.name);
+        continue;
+      }
+
+      properties[field.name] = {
+        type: field.type,
+        title: field.name,
+        ...(field.description ? { description: field.description } : {}),
+        ...(field.enum && field.type === 'string' ? { enum: field.enum.map(String) } : {}),
+        ...(field.format && ['email', 'uri', 'date', 'date-time'].includes(field.format) ? { format: field.format } : {}),
+        ...(field.default !== undefined ? { default: field.default } : {}),
+      };
+      if (field.required) {
+        required.push(field.name);
+      }
+    }
+
+    return { requestedSchema: { type: 'object', properties, ...(required.length > 0 ? { required } : {}) }, unsupported };
+  }
+
+  /**
+   * Question naming the call, the fields it needs and the values to correct
+   */
+  static messageFor(endpoint: MCPEndpoint, fields: ClarificationField[]): string {
+    const action = endpoint.description || `${endpoint.method} ${endpoint.path}`;
+    const missing = fields.filter((field) => !field.error).map((field) => field.name);
+    const invalid = fields.filter((field) => field.error).map((field) => `${field.name} (${field.error})`);
+    const parts = [
+      ...(missing.length > 0 ? [`please provide: ${missing.join(', ')}`] : []),
+      ...(invalid.length > 0 ? [`please correct: ${invalid.join('; ')}`] : []),
+    ];
+
+    return `To continue with "${action}", ${parts.join(' and ')}.`;
+  }
+
+  /**
+   * Drop expired calls; the oldest come first, so the scan stops at the first live one
+   */
+  private prune(now: number): void {
+    for (const [id, entry] of this.pending) {
+      if (entry.expiresAt > now) break;
+      this.pending.delete(id);
+    }
+  }
+}
+
+/**
+ * Raised when a clarification is answered that is unknown or has expired
+ */
+export class ClarificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClarificationError';
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Short-term memory for natural-language conversations
+ *
+ * A session is identified by an ID the client chooses and sends with each
+ * query (the "sessionId" field or the X-MCPhy-Session header). Each session
+ * keeps its latest turns: the query, the endpoint it matched, the parameters
+ * used and a snippet of the response, so that follow-ups such as "now cancel
+ * it" can be resolved against earlier calls.
+ *
+ * Memory is bounded: sessions expire after a period without use, only the
+ * latest turns are kept, and the least recently used session is dropped when
+ * there are too many.
+ */
+
+export const SESSION_HEADER = 'x-mcphy-session';
+
+export interface ConversationConfig {
+  /** Sessions kept at once; the least recently used one is dropped beyond this */
+  maxSessions?: number;
+  /** Turns kept per session */
+  maxTurns?: number;
+  /** Minutes a session is kept without being used */
+  ttlMinutes?: number;
+  /** Characters of each response kept for later turns */
+  snippetChars?: number;
+}
+
+/**
+ * One query in a conversation and the call it led to
+ */
+export interface ConversationTurn {
+  query: string;
+  endpoint?: string;
+  method?: string;
+  params?: Record<string, any>;
+  /** HTTP status of the upstream response, once the call was made */
+  status?: number;
+  /** Start of the response body, as JSON text */
+  response?: string;
+  /** Short top-level scalar fields of an object response (e.g. its id) */
+  values?: Record<string, string | number | boolean>;
+  at: number;
+}
+
+interface Session {
+  turns: ConversationTurn[];
+  lastUsed: number;
+}
+
+const DEFAULT_MAX_SESSIONS = 1000;
+const DEFAULT_MAX_TURNS = 10;
+const DEFAULT_TTL_MINUTES = 30;
+const DEFAULT_SNIPPET_CHARS = 500;
+// Longer strings (descriptions, documents) are left to the snippet
+const MAX_VALUE_CHARS = 200;
+
+const SESSION_ID = /^[\w.:-]{1,128}$/;
+
+export class ConversationStore {
+  // Insertion order doubles as recency order: used sessions are moved to the end
+  private sessions: Map<string, Session>;
+  private maxSessions: number;
+  private maxTurns: number;
+  private ttlMs: number;
+  private snippetChars: number;
+
+  constructor(config: ConversationConfig = {}) {
+    this.sessions = new Map();
+    this.maxSessions = config.maxSessions ?? DEFAULT_MAX_SESSIONS;
+    this.maxTurns = config.maxTurns ?? DEFAULT_MAX_TURNS;
+    this.ttlMs = (config.ttlMinutes ?? DEFAULT_TTL_MINUTES) * 60 * 1000;
+    this.snippetChars = config.snippetChars ?? DEFAULT_SNIPPET_CHARS;
+  }
+
+  /**
+   * Whether a value can be used as a session ID (1-128 letters, digits, "_", "-", "." or ":")
+   */
+  static isValidId(sessionId: unknown): sessionId is string {
+    return typeof sessionId === 'string' && SESSION_ID.test(sessionId);
+  }
+
+  /**
+   * Earlier turns of a session, oldest first; empty for unknown or expired sessions
+   */
+  history(sessionId: string): ConversationTurn[] {
+    const session = this.touch(sessionId, false);
+    return session ? session.turns.map((turn) => ({ ...turn })) : [];
+  }
+
+  /**
+   * Add a matched query to a session, starting the session if needed
+   */
+  record(sessionId: string, turn: Omit<ConversationTurn, 'at' | 'response' | 'values'> & { data?: any }): void {
+    const session = this.touch(sessionId, true)!;
+    const { data, ...rest } = turn;
+
+    session.turns.push({ ...rest, ...(data !== undefined ? this.describe(data) : {}), at: Date.now() });
+
+    if (session.turns.length > this.maxTurns) {
+      session.turns.splice(0, session.turns.length - this.maxTurns);
+    }
+  }
+
+  /**
+   * Attach the response of a call made after a query was matched (e.g. by the UI via the proxy)
+   * to the latest turn, when that turn matched the same endpoint and has no response yet
+   */
+  recordResponse(
+    sessionId: string,
+    method: string,
+    endpoint: string,
+    params: Record<string, any>,
+    status: number,
+    data: any
+  ): void {
+    const session = this.touch(sessionId, false);
+    const latest = session?.turns[session.turns.length - 1];
+
+    if (!latest || latest.status !== undefined || latest.method !== method || latest.endpoint !== endpoint) {
+      return;
+    }
+
+    latest.params = { ...(latest.params || {}), ...params };
+    latest.status = status;
+    Object.assign(latest, this.describe(data));
+  }
+
+  /**
+   * Forget a session
+   * @returns Whether the session existed
+   */
+  clear(sessionId: string): boolean {
+    return this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Look up a session (optionally creating it), refreshing its expiry and recency
+   */
+  private touch(sessionId: string, create: boolean): Session | undefined {
+    const now = Date.now();
+    this.prune(now);
+
+    let session = this.sessions.get(sessionId);
+    if (session) {
+      this.sessions.delete(sessionId);
+    } else if (create) {
+      session = { turns: [], lastUsed: now };
+    } else {
+      return undefined;
+    }
+
+    session.lastUsed = now;
+    this.sessions.set(sessionId, session);
+
+    while (this.sessions.size > this.maxSessions) {
+      this.sessions.delete(this.sessions.keys().next().value as string);
+    }
+
+    return session;
+  }
+
+  /**
+   * Drop expired sessions; the oldest come first, so the scan stops at the first live one
+   */
+  private prune(now: number): void {
+    for (const [sessionId, session] of this.sessions) {
+      if (now - session.lastUsed <= this.ttlMs) break;
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  /**
+   * Response snippet and scalar fields kept for later turns
+   */
+  private describe(data: any): Pick<ConversationTurn, 'response' | 'values'> {
+    const text = typeof data === 'string' ? data : JSON.stringify(data);
+    const result: Pick<ConversationTurn, 'response' | 'values'> = {};
+
+    if (text !== undefined) {
+      result.response = text.length > this.snippetChars ? `${text.slice(0, this.snippetChars)}…` : text;
+    }
+
+    if (data && typeof data === 'object' && !Array.isArray(data)) {
+      const values: Record<string, string | number | boolean> = {};
+      for (const [key, value] of Object.entries(data)) {
+        if (['number', 'boolean'].includes(typeof value) || (typeof value === 'string' && value.length <= MAX_VALUE_CHARS)) {
+          values[key] = value as string | number | boolean;
+        }
+      }
+      if (Object.keys(values).length > 0) {
+        result.values = values;
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Include/exclude rules deciding which API operations MCPhy exposes
+ *
+ * A rule matches when every criterion it sets matches (any entry within a list):
+ *   { "tags": ["admin"] }
+ *   { "paths": ["/internal/**"], "methods": ["DELETE"] }
+ *   { "operationIds": ["debug*"] }
+ * Path and operationId patterns are globs: * stays within one path segment,
+ * ** crosses segments. With include rules, only matching operations are kept;
+ * exclude rules then remove operations.
+ */
+
+import { Logger } from '../utils/logger';
+import { MCPEndpoint, MCPManifest } from './manifest';
+
+export interface EndpointFilterRule {
+  tags?: string[];
+  paths?: string[];
+  operationIds?: string[];
+  methods?: string[];
+}
+
+export interface EndpointFilterConfig {
+  include?: EndpointFilterRule | EndpointFilterRule[];
+  exclude?: EndpointFilterRule | EndpointFilterRule[];
+}
+
+/**
+ * The operation fields rules are evaluated against
+ */
+export type FilterableOperation = Pick<MCPEndpoint, 'path' | 'method' | 'tags' | 'operationId'>;
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch'];
+
+export class EndpointFilter {
+  private include: EndpointFilterRule[];
+  private exclude: EndpointFilterRule[];
+
+  constructor(config: EndpointFilterConfig = {}) {
+    this.include = this.toRules(config.include);
+    this.exclude = this.toRules(config.exclude);
+  }
+
+  /**
+   * Whether any include or exclude rule is configured
+   */
+  isEnabled(): boolean {
+    return this.include.length > 0 || this.exclude.length > 0;
+  }
+
+  /**
+   * Whether an operation passes the rules
+   */
+  allows(operation: FilterableOperation): boolean {
+    if (this.include.length > 0 && !this.include.some((rule) => this.matchesRule(rule, operation))) {
+      return false;
+    }
+    return !this.exclude.some((rule) => this.matchesRule(rule, operation));
+  }
+
+  /**
+   * Copy of a manifest without the filtered-out endpoints
+   */
+  applyToManifest(manifest: MCPManifest): MCPManifest {
+    if (!this.isEnabled()) return manifest;
+
+    const endpoints = manifest.endpoints.filter((endpoint) => this.allows(endpoint));
+    this.logRemoved(manifest.endpoints.length - endpoints.length);
+
+    return { ...manifest, endpoints };
+  }
+
+  /**
+   * Remove filtered-out operations from a parsed spec's paths object (in place)
+   * Used before the spec is shown to an LLM or turned into a manifest
+   */
+  applyToPaths(paths: Record<string, any> | undefined): void {
+    if (!this.isEnabled() || !paths) return;
+
+    let removed = 0;
+
+    for (const [pathName, pathItem] of Object.entries(paths)) {
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem?.[method];
+        if (!operation) continue;
+
+        const allowed = this.allows({
+          path: pathName,
+          method: method.toUpperCase(),
+          tags: operation.tags,
+          operationId: operation.operationId,
+        });
+
+        if (!allowed) {
+          delete pathItem[method];
+          removed++;
+        }
+      }
+
+      if (!HTTP_METHODS.some((method) => pathItem?.[method])) {
+        delete paths[pathName];
+      }
+    }
+
+    this.logRemoved(removed);
+  }
+
+  /**
+   * Check one rule; a rule without criteria matches nothing
+   */
+  private matchesRule(rule: EndpointFilterRule, operation: FilterableOperation): boolean {
+    const checks: boolean[] = [];
+
+    if (rule.methods) {
+      checks.push(rule.methods.some((method) => method.toUpperCase() === operation.method.toUpperCase()));
+    }
+    if (rule.paths) {
+      checks.push(rule.paths.some((pattern) => this.globToRegExp(pattern, '/').test(operation.path)));
+    }
+    if (rule.tags) {
+      checks.push(rule.tags.some((tag) => (operation.tags || []).includes(tag)));
+    }
+    if (rule.operationIds) {
+      const operationId = operation.operationId;
+      checks.push(
+        operationId !== undefined && rule.operationIds.some((pattern) => this.globToRegExp(pattern).test(operationId))
+      );
+    }
+
+    return checks.length > 0 && checks.every(Boolean);
+  }
+
+  /**
+   * Compile a glob; with a separator, * stops at it and ** crosses it
+   */
+  private globToRegExp(pattern: string, separator?: string): RegExp {
+    const single = separator ? `[^${separator}]*` : '.*';
+    const source = pattern
+      .split('**')
+      .map((part) =>
+        part
+          .split('*')
+          .map((text) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+          .join(single)
+      )
+      .join('.*');
+
+    return new RegExp(`^${source}$`);
+  }
+
+  /**
+   * Accept a single rule or a list, and single strings where lists are expected
+   */
+  private toRules(value: EndpointFilterRule | EndpointFilterRule[] | undefined): EndpointFilterRule[] {
+    const rules = Array.isArray(value) ? value : value ? [value] : [];
+    const toList = (item: any): string[] | undefined =>
+      item === undefined ? undefined : (Array.isArray(item) ? item : [item]).map(String);
+
+    return rules.map((rule) => ({
+      tags: toList(rule.tags),
+      paths: toList(rule.paths),
+      operationIds: toList(rule.operationIds),
+      methods: toList(rule.methods),
+    }));
+  }
+
+  /**
+   * Report how many operations the rules removed
+   */
+  private logRemoved(count: number): void {
+    if (count > 0) {
+      Logger.info(`Endpoint filters excluded ${count} operation(s)`);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Embedding index over manifest endpoints, for retrieving the endpoints
+ * relevant to a query before the LLM matching step
+ *
+ * Each endpoint is embedded from a short text (method, path, operationId, tags,
+ * description, parameter and body field names). Vectors are cached on disk keyed
+ * by a hash of that text and the embedding model, so a restart re-embeds nothing
+ * and a changed manifest only re-embeds the endpoints that changed.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { Logger } from '../utils/logger';
+import { MCPEndpoint } from './manifest';
+import { EmbeddingProvider, cosineSimilarity } from '../embeddings/embeddingProvider';
+
+export const DEFAULT_EMBEDDINGS_CACHE = '.mcphy-embeddings.json';
+export const DEFAULT_RETRIEVAL_TOP_N = 20;
+export const DEFAULT_RETRIEVAL_MIN_ENDPOINTS = 40;
+
+export interface EndpointIndexOptions {
+  /** Cache file; vectors are kept in memory only when unset */
+  cachePath?: string;
+  /** Endpoints retrieved per query */
+  topN?: number;
+  /** Manifests with fewer endpoints are not narrowed down */
+  minEndpoints?: number;
+}
+
+export interface RetrievedEndpoint {
+  endpoint: MCPEndpoint;
+  similarity: number;
+}
+
+interface EmbeddingCache {
+  provider: string;
+  model: string;
+  /** Vectors keyed by the hash of each endpoint's text */
+  vectors: Record<string, number[]>;
+}
+
+export class EndpointIndex {
+  private embedder: EmbeddingProvider;
+  private cachePath?: string;
+  private entries: Array<{ endpoint: MCPEndpoint; vector: number[] }>;
+  readonly topN: number;
+  readonly minEndpoints: number;
+
+  constructor(embedder: EmbeddingProvider, options: EndpointIndexOptions = {}) {
+    this.embedder = embedder;
+    this.cachePath = options.cachePath ? path.resolve(options.cachePath) : undefined;
+    this.entries = [];
+    this.topN = options.topN ?? DEFAULT_RETRIEVAL_TOP_N;
+    this.minEndpoints = options.minEndpoints ?? DEFAULT_RETRIEVAL_MIN_ENDPOINTS;
+  }
+
+  /**
+   * Embed the endpoints, reusing cached vectors, and save the cache
+   * The previous index stays in use until the new one is complete
+   * @returns How many endpoints were embedded and how many came from the cache
+   */
+  async build(endpoints: MCPEndpoint[]): Promise<{ embedded: number; cached: number }> {
+    const cache = await this.readCache();
+    const keys = endpoints.map((endpoint) => this.keyOf(EndpointIndex.describe(endpoint)));
+    const missing = endpoints
+      .map((endpoint, i) => ({ text: EndpointIndex.describe(endpoint), key: keys[i] }))
+      .filter(({ key }, i) => !cache.vectors[key] && keys.indexOf(key) === i);
+
+    if (missing.length > 0) {
+      Logger.info(`Embedding ${missing.length} endpoint(s) with ${this.embedder.name} (model: ${this.embedder.model})...`);
+      const vectors = await this.embedder.embed(missing.map(({ text }) => text));
+      missing.forEach(({ key }, i) => {
+        cache.vectors[key] = vectors[i];
+      });
+    }
+
+    // Only vectors of current endpoints are kept
+    const vectors: Record<string, number[]> = {};
+    keys.forEach((key) => {
+      vectors[key] = cache.vectors[key];
+    });
+
+    const changed = missing.length > 0 || Object.keys(cache.vectors).length !== Object.keys(vectors).length;
+    if (changed && this.cachePath) {
+      await fs.ensureDir(path.dirname(this.cachePath));
+      await fs.writeJSON(this.cachePath, { provider: this.embedder.name, model: this.embedder.model, vectors });
+    }
+
+    this.entries = endpoints.map((endpoint, i) => ({ endpoint, vector: vectors[keys[i]] }));
+
+    return { embedded: missing.length, cached: endpoints.length - missing.length };
+  }
+
+  /**
+   * Whether the index has been built
+   */
+  isReady(): boolean {
+    return this.entries.length > 0;
+  }
+
+  /**
+   * Endpoints most similar to a query, best first
+   */
+  async search(query: string, limit: number = this.topN): Promise<RetrievedEndpoint[]> {
+    const [vector] = await this.embedder.embed([query]);
+
+    return this.entries
+      .map(({ endpoint, vector: endpointVector }) => ({ endpoint, similarity: cosineSimilarity(vector, endpointVector) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  /**
+   * Text an endpoint is embedded from
+   */
+  static describe(endpoint: MCPEndpoint): string {
+    const parameters = (endpoint.parameters || []).map((param) =>
+      param.description ? `${param.name} (${param.description})` : param.name
+    );
+    const bodyFields = Object.keys(endpoint.requestBody?.properties || {});
+
+    return [
+      `${endpoint.method} ${endpoint.path}`,
+      endpoint.operationId,
+      endpoint.tags?.length ? `Tags: ${endpoint.tags.join(', ')}` : undefined,
+      endpoint.description,
+      parameters.length > 0 ? `Parameters: ${parameters.join(', ')}` : undefined,
+      bodyFields.length > 0 ? `Body fields: ${bodyFields.join(', ')}` : undefined,
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  /**
+   * Cached vectors for the current embedding model; empty when there is no usable cache
+   */
+  private async readCache(): Promise<EmbeddingCache> {
+    const empty: EmbeddingCache = { provider: this.embedder.name, model: this.embedder.model, vectors: {} };
+    if (!this.cachePath || !(await fs.pathExists(this.cachePath))) {
+      return empty;
+    }
+
+    try {
+      const cache: EmbeddingCache = await fs.readJSON(this.cachePath);
+      if (cache.provider !== this.embedder.name || cache.model !== this.embedder.model || !cache.vectors) {
+        Logger.info('Embedding model changed; re-embedding all endpoints');
+        return empty;
+      }
+      return cache;
+    } catch (error) {
+      Logger.warn(`Ignoring unreadable embedding cache ${this.cachePath}: ${(error as Error).message}`);
+      return empty;
+    }
+  }
+
+  /**
+   * Cache key of an endpoint text
+   */
+  private keyOf(text: string): string {
+    return createHash('sha256').update(text).digest('hex').slice(0, 32);
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Offline endpoint ranking with BM25
+ *
+ * Each endpoint is indexed as one document built from its path segments, tags,
+ * operationId, description and parameter names, with the fields weighted by how
+ * much they say about the endpoint. Queries are tokenized and stemmed the same
+ * way; words the manifest never uses are looked up in synonym groups
+ * ("customers" finds /users). Verbs such as "cancel" or "create" add a bonus for
+ * endpoints with the matching HTTP method.
+ *
+ * The confidence of a ranking is the share of the query's known words (by IDF
+ * weight) the endpoint contains, reduced when only its description or parameters
+ * match. Below matching.minConfidence the matcher reports no match together
+ * with the top candidates instead of guessing. The ranking is deterministic.
+ */
+
+import { MCPEndpoint } from './manifest';
+import { stem, tokenize } from '../utils/tokenizer';
+
+export interface MatchingConfig {
+  /** Confidence (0-1) below which no endpoint is chosen */
+  minConfidence?: number;
+  /** Candidates returned when no endpoint is chosen */
+  topK?: number;
+  /** Extra groups of interchangeable words, e.g. [["ticket", "issue"]] */
+  synonyms?: string[][];
+}
+
+export interface RankedEndpoint {
+  endpoint: MCPEndpoint;
+  score: number;
+  confidence: number;
+}
+
+interface IndexedEndpoint {
+  endpoint: MCPEndpoint;
+  /** Field-weighted term frequencies */
+  terms: Map<string, number>;
+  length: number;
+  /** Terms from the path, tags or operationId */
+  strong: Set<string>;
+  /** Stems of the path segments directly followed by a path parameter */
+  identified: Set<string>;
+}
+
+/** A word followed by an identifier: "booking 42", "user #7", "order id 5" */
+export const IDENTIFIED_RESOURCE_PATTERN = /([A-Za-z][A-Za-z_-]*)\s+(?:(?:id|number|no\.?)\s*)?[#:=]?\s*(\d+|[0-9a-f]{8}-[0-9a-f-]{27})\b/gi;
+
+export const DEFAULT_MIN_CONFIDENCE = 0.4;
+export const DEFAULT_TOP_K = 5;
+
+const K1 = 1.2;
+const B = 0.75;
+const SYNONYM_WEIGHT = 0.8;
+const METHOD_BONUS = 1;
+// Reads are the most common request when a query names no action
+const DEFAULT_GET_BONUS = 0.5;
+// "pet 42" asks for one pet (/pets/{petId}) rather than the list
+const IDENTIFIER_BONUS = 1;
+const WEAK_MATCH_FACTOR = 0.6;
+
+const FIELD_WEIGHTS = {
+  path: 3,
+  tag: 2,
+  operationId: 2,
+  parameter: 1.5,
+  description: 1,
+  bodyField: 1,
+};
+
+const METHOD_VERBS: Array<[string[], string[]]> = [
+  [['get', 'fetch', 'retrieve', 'list', 'show', 'find', 'search', 'view', 'read', 'display', 'lookup', 'check'], ['GET']],
+  [['create', 'add', 'new', 'insert', 'register', 'submit', 'post'], ['POST']],
+  [['update', 'modify', 'edit', 'change', 'replace', 'set', 'rename'], ['PUT', 'PATCH']],
+  [['patch'], ['PATCH']],
+  [['delete', 'remove', 'destroy', 'cancel', 'erase', 'drop'], ['DELETE']],
+];
+
+const SYNONYMS: string[][] = [
+  ['user', 'customer', 'member', 'client', 'person', 'people', 'account'],
+  ['order', 'purchase'],
+  ['product', 'item', 'article'],
+  ['booking', 'appointment', 'reservation'],
+  ['invoice', 'bill'],
+  ['image', 'photo', 'picture'],
+  ['car', 'vehicle', 'auto'],
+  ['address', 'location'],
+  ['price', 'cost'],
+  ['search', 'find', 'lookup', 'query'],
+  ['employee', 'staff', 'worker'],
+  ['document', 'file'],
+  ['company', 'organization', 'organisation', 'org', 'business'],
+  ['ticket', 'issue'],
+  ['message', 'notification'],
+];
+
+export class EndpointRanker {
+  private documents: IndexedEndpoint[];
+  private documentFrequency: Map<string, number>;
+  private averageLength: number;
+  private synonyms: Map<string, string[]>;
+  private verbs: Map<string, string[]>;
+
+  constructor(endpoints: MCPEndpoint[], config: MatchingConfig = {}) {
+    this.documents = endpoints.map((endpoint) => this.index(endpoint));
+    this.documentFrequency = new Map();
+    for (const document of this.documents) {
+      for (const term of document.terms.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+    }
+    this.averageLength = this.documents.reduce((sum, document) => sum + document.length, 0) / (this.documents.length || 1);
+
+    this.synonyms = new Map();
+    for (const group of [...SYNONYMS, ...(config.synonyms || [])]) {
+      const stems = [...new Set(group.map((word) => stem(word)))];
+      for (const term of stems) {
+        this.synonyms.set(term, [...new Set([...(this.synonyms.get(term) || []), ...stems.filter((other) => other !== term)])]);
+      }
+    }
+
+    this.verbs = new Map();
+    for (const [words, methods] of METHOD_VERBS) {
+      words.forEach((word) => this.verbs.set(stem(word), methods));
+    }
+  }
+
+  /**
+   * Endpoints ordered by relevance to a query, best first; endpoints with no score are left out
+   */
+  rank(query: string): RankedEndpoint[] {
+    const tokens = tokenize(query);
+    const methods = this.intendedMethods(tokens);
+    const terms = this.queryTerms(tokens);
+    const identified = this.identifiedResources(query);
+
+    const ranked: RankedEndpoint[] = [];
+
+    for (const document of this.documents) {
+      let score = 0;
+      let matched = 0;
+      let total = 0;
+      let strong = false;
+
+      for (const { term, alternatives } of terms) {
+        const weight = this.idf(alternatives[0].term);
+        const hit = alternatives.find((alternative) => document.terms.has(alternative.term));
+
+        if (!this.verbs.has(term)) {
+          total += weight;
+        }
+        if (!hit) continue;
+
+        const frequency = document.terms.get(hit.term)!;
+        score +=
+          hit.weight *
+          this.idf(hit.term) *
+          ((frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * document.length) / this.averageLength)));
+
+        if (!this.verbs.has(term)) {
+          matched += weight * hit.weight;
+          strong = strong || document.strong.has(hit.term);
+        }
+      }
+
+      const method = document.endpoint.method.toUpperCase();
+      if (methods ? methods.includes(method) : method === 'GET') {
+        score += methods ? METHOD_BONUS : DEFAULT_GET_BONUS;
+      }
+
+      if ([...document.identified].some((resource) => identified.has(resource))) {
+        score += IDENTIFIER_BONUS;
+      }
+
+      if (score > 0) {
+        const coverage = total > 0 ? matched / total : 0;
+        ranked.push({
+          endpoint: document.endpoint,
+          score: Math.round(score * 1000) / 1000,
+          confidence: Math.round(coverage * (strong ? 1 : WEAK_MATCH_FACTOR) * 100) / 100,
+        });
+      }
+    }
+
+    // Ties keep manifest order, so the ranking is reproducible
+    return ranked.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Methods implied by the first action verb of a query ("cancel" → DELETE), or undefined
+   */
+  private intendedMethods(tokens: string[]): string[] | undefined {
+    const verb = tokens.find((token) => this.verbs.has(token));
+    return verb ? this.verbs.get(verb) : undefined;
+  }
+
+  /**
+   * Stems of words followed by an identifier in a query
+   */
+  private identifiedResources(query: string): Set<string> {
+    const resources = new Set<string>();
+
+    for (const match of query.matchAll(IDENTIFIED_RESOURCE_PATTERN)) {
+      resources.add(stem(match[1]));
+    }
+
+    return resources;
+  }
+
+  /**
+   * Distinct query terms with what to look for: the term itself when the manifest uses it,
+   * otherwise its synonyms that the manifest uses
+   */
+  private queryTerms(tokens: string[]): Array<{ term: string; alternatives: Array<{ term: string; weight: number }> }> {
+    const result: Array<{ term: string; alternatives: Array<{ term: string; weight: number }> }> = [];
+
+    for (const term of new Set(tokens)) {
+      if (this.documentFrequency.has(term)) {
+        result.push({ term, alternatives: [{ term, weight: 1 }] });
+        continue;
+      }
+
+      const synonyms = (this.synonyms.get(term) || []).filter((synonym) => this.documentFrequency.has(synonym));
+      if (synonyms.length > 0) {
+        result.push({ term, alternatives: synonyms.map((synonym) => ({ term: synonym, weight: SYNONYM_WEIGHT })) });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * BM25 inverse document frequency of a term
+   */
+  private idf(term: string): number {
+    const frequency = this.documentFrequency.get(term) || 0;
+    return Math.log(1 + (this.documents.length - frequency + 0.5) / (frequency + 0.5));
+  }
+
+  /**
+   * Weighted term frequencies of an endpoint's descriptive fields
+   */
+  private index(endpoint: MCPEndpoint): IndexedEndpoint {
+    const terms = new Map<string, number>();
+    const strong = new Set<string>();
+    const identified = new Set<string>();
+    let length = 0;
+
+    const add = (text: string | undefined, weight: number, isStrong = false) => {
+      for (const term of tokenize(text || '')) {
+        terms.set(term, (terms.get(term) || 0) + weight);
+        length += weight;
+        if (isStrong) strong.add(term);
+      }
+    };
+
+    const segments = endpoint.path.split('/').filter(Boolean);
+    segments.forEach((segment, i) => {
+      if (segment.startsWith('{')) return;
+      add(segment, FIELD_WEIGHTS.path, true);
+      if (segments[i + 1]?.startsWith('{')) {
+        tokenize(segment).forEach((term) => identified.add(term));
+      }
+    });
+    (endpoint.tags || []).forEach((tag) => add(tag, FIELD_WEIGHTS.tag, true));
+    add(endpoint.operationId, FIELD_WEIGHTS.operationId, true);
+    add(endpoint.description, FIELD_WEIGHTS.description);
+    (endpoint.parameters || []).forEach((param) => add(param.name, FIELD_WEIGHTS.parameter));
+    Object.keys(endpoint.requestBody?.properties || {}).forEach((name) => add(name, FIELD_WEIGHTS.bodyField));
+
+    return { endpoint, terms, length, strong, identified };
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Builds GraphQL request documents for manifest operations and reads their results
+ *
+ * Only the arguments that have a value are declared as variables, so optional
+ * arguments left out keep their server-side defaults.
+ */
+
+import { MCPGraphQLOperation } from './manifest';
+
+export interface GraphQLRequestBody {
+  query: string;
+  variables: Record<string, any>;
+  operationName: string;
+}
+
+export class GraphQLDocument {
+  /**
+   * Document and variables for an operation called with the given arguments
+   */
+  static build(operation: MCPGraphQLOperation, params: Record<string, any>): GraphQLRequestBody {
+    const names = Object.keys(operation.variables).filter((name) => params[name] !== undefined);
+    const variables = Object.fromEntries(names.map((name) => [name, params[name]]));
+    const operationName = operation.field.charAt(0).toUpperCase() + operation.field.slice(1);
+
+    const definitions = names.map((name) => `$${name}: ${operation.variables[name]}`).join(', ');
+    const args = names.map((name) => `${name}: $${name}`).join(', ');
+
+    const query = [
+      `${operation.operation} ${operationName}${definitions ? `(${definitions})` : ''} {`,
+      `  ${operation.field}${args ? `(${args})` : ''}${operation.selection ? ` ${operation.selection}` : ''}`,
+      '}',
+    ].join('\n');
+
+    return { query, variables, operationName };
+  }
+
+  /**
+   * Result of the operation's field, or the whole body when the server reported errors
+   * GraphQL servers often answer errors with HTTP 200, so errors decide success here
+   */
+  static unwrap(operation: MCPGraphQLOperation, body: any): { success: boolean; data: any } {
+    if (!body || typeof body !== 'object') {
+      return { success: false, data: body };
+    }
+
+    if (Array.isArray(body.errors) && body.errors.length > 0) {
+      return { success: false, data: body };
+    }
+
+    return { success: true, data: body.data?.[operation.field] ?? null };
+  }
+}
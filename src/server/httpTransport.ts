@@ -0,0 +1,386 @@
+/**
+ * MCP Streamable HTTP transport
+ * POST carries JSON-RPC messages, GET opens an SSE stream for server notifications,
+ * DELETE ends the session. Requests to the client (elicitation) are sent on the POST's
+ * response stream when the client accepts SSE, otherwise on an open GET stream.
+ *
+ * Sessions are bounded like conversations: one without requests or open streams
+ * expires after a while, and the least recently used one is closed when there are
+ * too many. Clients get 404 for a closed session and initialize again.
+ */
+
+import { randomUUID } from 'crypto';
+import { Express, Request, Response } from 'express';
+import { Logger } from '../utils/logger';
+import {
+  ClientRequests,
+  JsonRpcErrorCode,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  MCPClientConnection,
+  MCPProtocolHandler,
+} from './mcpProtocol';
+
+const SESSION_HEADER = 'mcp-session-id';
+const KEEP_ALIVE_INTERVAL_MS = 25000;
+const DEFAULT_MAX_SESSIONS = 1000;
+const DEFAULT_TTL_MINUTES = 30;
+
+export interface StreamableHttpConfig {
+  /** Sessions kept at once; the least recently used one is closed beyond this */
+  maxSessions?: number;
+  /** Minutes a session without requests or open streams is kept */
+  ttlMinutes?: number;
+}
+
+interface MCPSession {
+  id: string;
+  createdAt: Date;
+  lastUsed: number;
+  streams: Set<Response>;
+  /** POSTs still being handled, e.g. waiting for the client to answer an elicitation */
+  activeRequests: number;
+  /** Capabilities the client declared in initialize */
+  clientCapabilities?: Record<string, any>;
+  clientRequests: ClientRequests;
+}
+
+export class StreamableHttpTransport {
+  private getHandler: () => MCPProtocolHandler;
+  // Insertion order doubles as recency order: used sessions are moved to the end
+  private sessions: Map<string, MCPSession> = new Map();
+  private maxSessions: number;
+  private ttlMs: number;
+
+  /**
+   * @param getHandler - Returns the current protocol handler, so spec updates are picked up
+   */
+  constructor(getHandler: () => MCPProtocolHandler, config: StreamableHttpConfig = {}) {
+    this.getHandler = getHandler;
+    this.maxSessions = config.maxSessions ?? DEFAULT_MAX_SESSIONS;
+    this.ttlMs = (config.ttlMinutes ?? DEFAULT_TTL_MINUTES) * 60 * 1000;
+  }
+
+  /**
+   * Register the MCP endpoint on an Express app
+   */
+  register(app: Express, routePath: string = '/mcp'): void {
+    app.post(routePath, (req, res) => this.handlePost(req, res));
+    app.get(routePath, (req, res) => this.handleGet(req, res));
+    app.delete(routePath, (req, res) => this.handleDelete(req, res));
+  }
+
+  /**
+   * Send a notification to every open SSE stream
+   */
+  broadcast(method: string, params?: any): void {
+    const message = { jsonrpc: '2.0', method, ...(params !== undefined ? { params } : {}) };
+
+    for (const session of this.sessions.values()) {
+      for (const stream of session.streams) {
+        this.writeEvent(stream, message);
+      }
+    }
+  }
+
+  /**
+   * Number of active sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Handle JSON-RPC messages sent by the client
+   */
+  private async handlePost(req: Request, res: Response): Promise<void> {
+    if (!this.isOriginAllowed(req)) {
+      res.status(403).json(this.transportError('Origin not allowed'));
+      return;
+    }
+
+    const body = req.body;
+    const messages: JsonRpcRequest[] = Array.isArray(body) ? body : [body];
+
+    if (messages.length === 0 || messages.some((m) => !m || typeof m !== 'object')) {
+      res.status(400).json(this.transportError('Invalid JSON-RPC payload', JsonRpcErrorCode.INVALID_REQUEST));
+      return;
+    }
+
+    const initialize = messages.find((m) => m.method === 'initialize');
+    let session: MCPSession | undefined;
+
+    if (initialize) {
+      session = {
+        id: randomUUID(),
+        createdAt: new Date(),
+        lastUsed: Date.now(),
+        streams: new Set(),
+        activeRequests: 0,
+        clientCapabilities: initialize.params?.capabilities,
+        clientRequests: new ClientRequests(),
+      };
+      this.addSession(session);
+      Logger.info(`MCP session started: ${session.id}`);
+    } else {
+      const sessionId = req.header(SESSION_HEADER);
+      if (!sessionId) {
+        res.status(400).json(this.transportError('Missing Mcp-Session-Id header'));
+        return;
+      }
+      session = this.touch(sessionId);
+      if (!session) {
+        res.status(404).json(this.transportError('Session not found'));
+        return;
+      }
+    }
+
+    res.setHeader('Mcp-Session-Id', session.id);
+
+    session.activeRequests++;
+    try {
+      await this.respond(session, messages, req, res);
+    } finally {
+      session.activeRequests--;
+      // The idle period starts when the last request finishes
+      session.lastUsed = Date.now();
+    }
+  }
+
+  /**
+   * Handle the messages of one POST and write the responses
+   */
+  private async respond(session: MCPSession, messages: JsonRpcRequest[], req: Request, res: Response): Promise<void> {
+    const body = req.body;
+
+    // Answers to requests the server sent the client
+    for (const message of messages) {
+      if (ClientRequests.isResponse(message) && !session.clientRequests.resolve(message)) {
+        Logger.warn(`Ignoring response to unknown request ${(message as JsonRpcResponse).id}`);
+      }
+    }
+
+    const accept = req.header('accept') || '';
+    const connection = this.connectionFor(session, res, accept.includes('text/event-stream'));
+    const handler = this.getHandler();
+    const responses = (
+      await Promise.all(
+        messages
+          .filter((message) => !ClientRequests.isResponse(message))
+          .map((message) => handler.handleMessage(message, connection.connection))
+      )
+    ).filter((response): response is JsonRpcResponse => response !== null);
+
+    // The response stream was opened to send requests to the client: finish it there
+    if (connection.isStreaming()) {
+      for (const response of responses) {
+        this.writeEvent(res, response);
+      }
+      res.end();
+      return;
+    }
+
+    // Only notifications or client responses: nothing to return
+    if (responses.length === 0) {
+      res.status(202).end();
+      return;
+    }
+
+    const payload = Array.isArray(body) ? responses : responses[0];
+
+    if (!accept.includes('application/json') && accept.includes('text/event-stream')) {
+      this.openStream(res);
+      for (const response of responses) {
+        this.writeEvent(res, response);
+      }
+      res.end();
+      return;
+    }
+
+    res.json(payload);
+  }
+
+  /**
+   * Open a server-to-client SSE stream for an existing session
+   */
+  private handleGet(req: Request, res: Response): void {
+    if (!this.isOriginAllowed(req)) {
+      res.status(403).json(this.transportError('Origin not allowed'));
+      return;
+    }
+
+    if (!(req.header('accept') || '').includes('text/event-stream')) {
+      res.status(406).json(this.transportError('Client must accept text/event-stream'));
+      return;
+    }
+
+    const session = this.touch(req.header(SESSION_HEADER) || '');
+    if (!session) {
+      res.status(404).json(this.transportError('Session not found'));
+      return;
+    }
+
+    this.openStream(res);
+    res.setHeader('Mcp-Session-Id', session.id);
+    session.streams.add(res);
+
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      session.streams.delete(res);
+      // The idle period starts when the last stream closes
+      session.lastUsed = Date.now();
+    });
+  }
+
+  /**
+   * Terminate a session
+   */
+  private handleDelete(req: Request, res: Response): void {
+    const sessionId = req.header(SESSION_HEADER) || '';
+    const session = this.sessions.get(sessionId);
+
+    if (!session) {
+      res.status(404).json(this.transportError('Session not found'));
+      return;
+    }
+
+    this.closeSession(session, 'MCP session closed');
+    Logger.info(`MCP session closed: ${sessionId}`);
+
+    res.status(204).end();
+  }
+
+  /**
+   * Add a new session, closing the least recently used ones beyond the limit
+   */
+  private addSession(session: MCPSession): void {
+    this.prune(session.lastUsed);
+    this.sessions.set(session.id, session);
+
+    while (this.sessions.size > this.maxSessions) {
+      const oldest = this.sessions.values().next().value as MCPSession;
+      this.closeSession(oldest, 'MCP session evicted');
+      Logger.warn(`MCP session limit (${this.maxSessions}) reached; closed session ${oldest.id}`);
+    }
+  }
+
+  /**
+   * Look up a session, refreshing its expiry and recency
+   */
+  private touch(sessionId: string): MCPSession | undefined {
+    const now = Date.now();
+    this.prune(now);
+
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    session.lastUsed = now;
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  /**
+   * Close sessions that have had neither requests nor open streams for the TTL
+   * Sessions with a POST still in progress are in use, however long it takes
+   */
+  private prune(now: number): void {
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.streams.size === 0 && session.activeRequests === 0 && now - session.lastUsed > this.ttlMs) {
+        this.closeSession(session, 'MCP session expired');
+        Logger.info(`MCP session expired: ${session.id}`);
+      }
+    }
+  }
+
+  /**
+   * End a session's streams and pending client requests, and forget it
+   */
+  private closeSession(session: MCPSession, reason: string): void {
+    for (const stream of session.streams) {
+      stream.end();
+    }
+    session.clientRequests.cancelAll(reason);
+    this.sessions.delete(session.id);
+  }
+
+  /**
+   * Connection for the messages of one POST: requests to the client go on this POST's
+   * response stream (opened on first use) when the client accepts SSE, else on a GET stream
+   */
+  private connectionFor(
+    session: MCPSession,
+    res: Response,
+    canStream: boolean
+  ): { connection: MCPClientConnection; isStreaming: () => boolean } {
+    let streaming = false;
+
+    const write = (message: JsonRpcRequest): void => {
+      if (canStream && !res.writableEnded) {
+        if (!streaming) {
+          this.openStream(res);
+          streaming = true;
+        }
+        this.writeEvent(res, message);
+        return;
+      }
+
+      const stream = session.streams.values().next().value as Response | undefined;
+      if (!stream) {
+        throw new Error('The client has no open stream to receive requests on');
+      }
+      this.writeEvent(stream, message);
+    };
+
+    return {
+      connection: {
+        capabilities: session.clientCapabilities,
+        request: (method, params) => session.clientRequests.send(method, params, write),
+      },
+      isStreaming: () => streaming,
+    };
+  }
+
+  /**
+   * Start an SSE response
+   */
+  private openStream(res: Response): void {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+  }
+
+  /**
+   * Write one JSON-RPC message as an SSE event
+   */
+  private writeEvent(res: Response, message: any): void {
+    res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  /**
+   * Reject browser requests from foreign origins (DNS rebinding protection)
+   */
+  private isOriginAllowed(req: Request): boolean {
+    const origin = req.header('origin');
+    if (!origin) return true;
+
+    try {
+      const originHost = new URL(origin).host;
+      const hostname = new URL(origin).hostname;
+      return originHost === req.header('host') || ['localhost', '127.0.0.1', '[::1]'].includes(hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Build a JSON-RPC error body for transport-level failures
+   */
+  private transportError(message: string, code: number = JsonRpcErrorCode.INVALID_REQUEST): JsonRpcResponse {
+    return { jsonrpc: '2.0', id: null, error: { code, message } };
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Optional authentication for clients calling the MCPhy server itself
+ * Keys are sent as "Authorization: Bearer <key>" or "X-API-Key: <key>"
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { Logger } from '../utils/logger';
+
+/**
+ * query: read-only routes; execute: calls that reach the upstream API;
+ * admin: configuration changes such as spec updates
+ */
+export type AccessScope = 'query' | 'execute' | 'admin';
+
+export interface InboundKey {
+  /** Label used in logs */
+  name?: string;
+  /** Literal key value */
+  key?: string;
+  /** Environment variable holding the key (preferred over storing it in the config) */
+  keyEnv?: string;
+  scopes: AccessScope[];
+}
+
+export interface InboundAuthConfig {
+  keys?: InboundKey[];
+}
+
+interface ResolvedKey {
+  name: string;
+  digest: Buffer;
+  scopes: Set<AccessScope>;
+}
+
+// Higher scopes include the lower ones
+const SCOPE_IMPLIES: Record<AccessScope, AccessScope[]> = {
+  query: ['query'],
+  execute: ['execute', 'query'],
+  admin: ['admin', 'execute', 'query'],
+};
+
+// Routes reachable without a key
+const PUBLIC_PATHS = ['/', '/health'];
+
+// Required scope per route (the path itself and everything below it); the first match wins
+const ROUTE_SCOPES: Array<{ prefix: string; scope: AccessScope }> = [
+  { prefix: '/api/update-spec', scope: 'admin' },
+  { prefix: '/api/proxy', scope: 'execute' },
+  { prefix: '/mcp/execute', scope: 'execute' },
+  { prefix: '/mcp/plan/execute', scope: 'execute' },
+  { prefix: '/mcp/plan', scope: 'query' },
+  { prefix: '/mcp/query', scope: 'query' },
+  { prefix: '/mcp', scope: 'execute' },
+  { prefix: '/api', scope: 'query' },
+  { prefix: '/.well-known', scope: 'query' },
+];
+
+export class InboundAuth {
+  private keys: ResolvedKey[];
+
+  /**
+   * @throws Error when a configured key has no value; auth is never turned off by a missing key
+   */
+  constructor(config: InboundAuthConfig = {}) {
+    this.keys = [];
+    const missing: string[] = [];
+
+    (config.keys || []).forEach((entry, index) => {
+      const name = entry.name || `key${index + 1}`;
+      const value = entry.keyEnv ? process.env[entry.keyEnv] : entry.key;
+
+      if (!value) {
+        missing.push(`"${name}"${entry.keyEnv ? ` (environment variable ${entry.keyEnv} is not set)` : ''}`);
+        return;
+      }
+
+      this.keys.push({
+        name,
+        digest: this.digest(value),
+        scopes: new Set((entry.scopes || []).flatMap((scope) => SCOPE_IMPLIES[scope] || [])),
+      });
+    });
+
+    if (missing.length > 0) {
+      throw new Error(`Inbound auth keys without a value: ${missing.join(', ')}`);
+    }
+
+    if (this.isEnabled()) {
+      Logger.info(`Inbound auth enabled with ${this.keys.length} key(s)`);
+    }
+  }
+
+  /**
+   * Whether any key is configured; without keys every route stays open
+   */
+  isEnabled(): boolean {
+    return this.keys.length > 0;
+  }
+
+  /**
+   * Express middleware enforcing the scope required by each route
+   */
+  middleware(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (!this.isEnabled()) {
+        return next();
+      }
+
+      const scope = InboundAuth.requiredScope(req.path);
+      if (!scope) {
+        return next();
+      }
+
+      const presented = this.extractKey(req);
+      if (!presented) {
+        res.setHeader('WWW-Authenticate', 'Bearer realm="mcphy"');
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'An API key is required (Authorization: Bearer <key> or X-API-Key header)',
+        });
+      }
+
+      const key = this.findKey(presented);
+      if (!key) {
+        Logger.warn(`Rejected invalid API key for ${req.method} ${req.path}`);
+        res.setHeader('WWW-Authenticate', 'Bearer realm="mcphy", error="invalid_token"');
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Invalid API key',
+        });
+      }
+
+      if (!key.scopes.has(scope)) {
+        Logger.warn(`Key "${key.name}" lacks the "${scope}" scope for ${req.method} ${req.path}`);
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: `This key does not have the "${scope}" scope`,
+        });
+      }
+
+      next();
+    };
+  }
+
+  /**
+   * Scope needed for a path, or null for public routes
+   * Unknown routes need admin so new routes are closed by default
+   */
+  static requiredScope(requestPath: string): AccessScope | null {
+    if (PUBLIC_PATHS.includes(requestPath)) {
+      return null;
+    }
+
+    const rule = ROUTE_SCOPES.find(
+      ({ prefix }) => requestPath === prefix || requestPath.startsWith(`${prefix}/`)
+    );
+
+    return rule ? rule.scope : 'admin';
+  }
+
+  /**
+   * Read the key from the Authorization or X-API-Key header
+   */
+  private extractKey(req: Request): string | undefined {
+    const authorization = req.headers.authorization;
+    if (authorization && /^Bearer\s+/i.test(authorization)) {
+      return authorization.replace(/^Bearer\s+/i, '').trim();
+    }
+
+    const apiKey = req.headers['x-api-key'];
+    return typeof apiKey === 'string' && apiKey ? apiKey : undefined;
+  }
+
+  /**
+   * Find the configured key matching the presented value (constant time)
+   */
+  private findKey(presented: string): ResolvedKey | undefined {
+    const digest = this.digest(presented);
+    return this.keys.find((key) => timingSafeEqual(key.digest, digest));
+  }
+
+  /**
+   * Fixed-length digest so keys of any length compare in constant time
+   */
+  private digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+  }
+}
@@ -5,25 +5,93 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import { Logger } from '../utils/logger';
+import { EndpointFilter } from './endpointFilter';
+import { SchemaConverter } from './schemaConverter';
+import { SchemaNormalizer } from './schemaNormalizer';
+import { Paginator } from './pagination';
+import { FORM_URLENCODED, MULTIPART_FORM_DATA } from './requestBodyEncoder';
 
 export interface MCPManifest {
   version: string;
   name: string;
   description: string;
   endpoints: MCPEndpoint[];
+  securitySchemes?: Record<string, any>;
+}
+
+/**
+ * OpenAPI security requirement: scheme name → required scopes
+ */
+export type SecurityRequirement = Record<string, string[]>;
+
+/**
+ * Whether an endpoint may be called freely, only after confirmation, or not at all
+ */
+export type SafetyLevel = 'safe' | 'confirm' | 'forbidden';
+
+/**
+ * How a list endpoint pages through its results
+ */
+export type PaginationStyle = 'cursor' | 'page' | 'offset' | 'link';
+
+export interface MCPPagination {
+  style: PaginationStyle;
+  /** Query parameter carrying the cursor, page number or offset */
+  param?: string;
+  /** Query parameter setting the page size */
+  sizeParam?: string;
+  /** Dotted path of the next cursor in the response body */
+  cursorPath?: string;
+  /** Dotted path of the items array; the body itself or its only array property when absent */
+  itemsPath?: string;
+}
+
+/**
+ * GraphQL field an endpoint stands for; its arguments are the request body fields
+ */
+export interface MCPGraphQLOperation {
+  operation: 'query' | 'mutation';
+  /** Root field, e.g. "users" */
+  field: string;
+  /** HTTP path of the GraphQL endpoint the document is posted to */
+  endpoint: string;
+  /** GraphQL type of each argument, e.g. { "first": "Int", "filter": "UserFilter!" } */
+  variables: Record<string, string>;
+  /** Selection set of the result, e.g. "{ id name owner { id } }"; absent for scalar results */
+  selection?: string;
 }
 
 export interface MCPEndpoint {
   path: string;
   method: string;
+  operationId?: string;
+  tags?: string[];
   description?: string;
+  deprecated?: boolean;
   parameters?: MCPParameter[];
   requestBody?: MCPRequestBody;
+  /** JSON Schema of the primary success response body */
   response?: any;
+  /** Documented responses keyed by status code ("200", "404", "default") */
+  responses?: Record<string, MCPResponse>;
+  security?: SecurityRequirement[];
+  safety?: SafetyLevel;
+  pagination?: MCPPagination;
+  /** Set for GraphQL operations; path is then a unique name rather than the URL path */
+  graphql?: MCPGraphQLOperation;
+}
+
+export interface MCPResponse {
+  description?: string;
+  contentType?: string;
+  /** JSON Schema of the response body */
+  schema?: any;
 }
 
 export interface MCPRequestBody {
   required?: boolean;
+  /** Media type the body is sent as (application/json when absent) */
+  contentType?: string;
   schema?: any;
   properties?: Record<string, MCPRequestBodyProperty>;
   requiredFields?: string[];
@@ -31,6 +99,8 @@ export interface MCPRequestBody {
 
 export interface MCPRequestBodyProperty {
   type: string;
+  /** "binary" marks a file field of a multipart or form body */
+  format?: string;
   description?: string;
   required?: boolean;
 }
@@ -41,13 +111,15 @@ export interface MCPParameter {
   required: boolean;
   description?: string;
   location: 'query' | 'path' | 'body' | 'header';
+  schema?: any;
 }
 
 export class ManifestGenerator {
   /**
    * Generate MCP manifest from parsed API specification
+   * @param filter - Include/exclude rules; filtered-out operations are left out
    */
-  static async generateFromSwagger(apiSpec: any): Promise<MCPManifest> {
+  static async generateFromSwagger(apiSpec: any, filter?: EndpointFilter): Promise<MCPManifest> {
     const manifest: MCPManifest = {
       version: '1.0.0',
       name: apiSpec.info?.title || 'API Server',
@@ -55,24 +127,44 @@ export class ManifestGenerator {
       endpoints: [],
     };
 
+    // Security schemes: OpenAPI 3.x components or Swagger 2.0 securityDefinitions
+    const securitySchemes = apiSpec.components?.securitySchemes || apiSpec.securityDefinitions;
+    if (securitySchemes && Object.keys(securitySchemes).length > 0) {
+      manifest.securitySchemes = securitySchemes;
+    }
+
+    // Named schemas let the normalizer recover names lost when $refs were dereferenced
+    const normalizer = new SchemaNormalizer({
+      namedSchemas: apiSpec.components?.schemas || apiSpec.definitions,
+    });
+
     // Parse paths from OpenAPI/Swagger spec
     if (apiSpec.paths) {
       for (const [pathName, pathItem] of Object.entries(apiSpec.paths)) {
         for (const [method, operation] of Object.entries(pathItem as any)) {
           if (['get', 'post', 'put', 'delete', 'patch'].includes(method)) {
-            manifest.endpoints.push(this.parseEndpoint(pathName, method, operation));
+            const endpoint = this.parseEndpoint(pathName, method, operation, normalizer);
+
+            // Operation-level security overrides the global requirement
+            const security = (operation as any).security ?? apiSpec.security;
+            if (security) {
+              endpoint.security = security;
+            }
+
+            manifest.endpoints.push(endpoint);
           }
         }
       }
     }
 
-    return manifest;
+    return filter ? filter.applyToManifest(manifest) : manifest;
   }
 
   /**
    * Generate MCP manifest from parsed Postman collection
+   * @param filter - Include/exclude rules; folder names act as tags
    */
-  static async generateFromPostman(apiSpec: any): Promise<MCPManifest> {
+  static async generateFromPostman(apiSpec: any, filter?: EndpointFilter): Promise<MCPManifest> {
     const manifest: MCPManifest = {
       version: '1.0.0',
       name: apiSpec.info?.title || 'API Server',
@@ -80,24 +172,64 @@ export class ManifestGenerator {
       endpoints: [],
     };
 
+    // Security schemes derived from collection auth settings (Insomnia, Bruno)
+    const securitySchemes = apiSpec.components?.securitySchemes;
+    if (securitySchemes && Object.keys(securitySchemes).length > 0) {
+      manifest.securitySchemes = securitySchemes;
+    }
+
     // Parse paths from Postman collection (same structure as OpenAPI after parsing)
     if (apiSpec.paths) {
       for (const [pathName, pathItem] of Object.entries(apiSpec.paths)) {
         for (const [method, operation] of Object.entries(pathItem as any)) {
           if (['get', 'post', 'put', 'delete', 'patch'].includes(method)) {
-            manifest.endpoints.push(this.parseEndpoint(pathName, method, operation));
+            const endpoint = this.parseEndpoint(pathName, method, operation, new SchemaNormalizer());
+            if ((operation as any).security) {
+              endpoint.security = (operation as any).security;
+            }
+            manifest.endpoints.push(endpoint);
           }
         }
       }
     }
 
-    return manifest;
+    return filter ? filter.applyToManifest(manifest) : manifest;
+  }
+
+  /**
+   * Generate MCP manifest from a parsed GraphQL schema
+   * Each query and mutation field is a POST operation carrying its GraphQL details
+   * @param filter - Include/exclude rules; the named return type acts as the tag
+   */
+  static async generateFromGraphQL(apiSpec: any, filter?: EndpointFilter): Promise<MCPManifest> {
+    const manifest: MCPManifest = {
+      version: '1.0.0',
+      name: apiSpec.info?.title || 'GraphQL API',
+      description: apiSpec.info?.description || 'MCP-enabled GraphQL API',
+      endpoints: [],
+    };
+
+    for (const [pathName, pathItem] of Object.entries(apiSpec.paths || {})) {
+      const operation = (pathItem as any).post;
+      if (!operation?.['x-mcphy-graphql']) continue;
+
+      const endpoint = this.parseEndpoint(pathName, 'post', operation, new SchemaNormalizer());
+      endpoint.graphql = operation['x-mcphy-graphql'];
+      manifest.endpoints.push(endpoint);
+    }
+
+    return filter ? filter.applyToManifest(manifest) : manifest;
   }
 
   /**
    * Parse individual endpoint from OpenAPI operation
    */
-  private static parseEndpoint(path: string, method: string, operation: any): MCPEndpoint {
+  private static parseEndpoint(
+    path: string,
+    method: string,
+    operation: any,
+    normalizer: SchemaNormalizer
+  ): MCPEndpoint {
     const endpoint: MCPEndpoint = {
       path,
       method: method.toUpperCase(),
@@ -105,11 +237,31 @@ export class ManifestGenerator {
       parameters: [],
     };
 
+    if (operation.operationId) {
+      endpoint.operationId = operation.operationId;
+    }
+    if (Array.isArray(operation.tags) && operation.tags.length > 0) {
+      endpoint.tags = operation.tags;
+    }
+    if (operation.deprecated === true) {
+      endpoint.deprecated = true;
+    }
+
+    // Safety level set in the spec via the x-mcphy-safety extension
+    if (['safe', 'confirm', 'forbidden'].includes(operation['x-mcphy-safety'])) {
+      endpoint.safety = operation['x-mcphy-safety'];
+    }
+
+    // Swagger 2.0 form fields become a form request body rather than parameters
+    const formFields = (operation.parameters || []).filter((param: any) => param.in === 'formData');
+
     // Parse parameters
     if (operation.parameters) {
-      endpoint.parameters = operation.parameters.map((param: any) => {
+      endpoint.parameters = operation.parameters.filter((param: any) => param.in !== 'formData').map((param: any) => {
+        const schema = param.schema ? normalizer.normalize(param.schema) : this.extractSwagger2ParameterSchema(param);
+
         // Infer type if missing from spec
-        const inferredType = param.schema?.type || this.inferTypeFromName(param.name, param);
+        const inferredType = schema?.type || this.inferTypeFromName(param.name, param);
 
         return {
           name: param.name,
@@ -117,47 +269,185 @@ export class ManifestGenerator {
           required: param.required || false,
           description: param.description,
           location: param.in as 'query' | 'path' | 'body' | 'header',
+          schema,
         };
       });
     }
 
-    // Parse request body schema (OpenAPI 3.x)
-    if (operation.requestBody) {
-      const requestBody = operation.requestBody;
-      const content = requestBody.content?.['application/json'] || requestBody.content?.['*/*'];
+    // Parse request body schema (OpenAPI 3.x, or Swagger 2.0 form fields)
+    const requestBody =
+      operation.requestBody || (formFields.length > 0 ? this.formFieldsToRequestBody(formFields, operation) : undefined);
+    if (requestBody) {
+      const contentType = this.selectRequestContentType(requestBody.content);
+      const content = contentType ? requestBody.content[contentType] : undefined;
 
       if (content?.schema) {
-        const schema = content.schema;
+        // allOf merged, oneOf/anyOf kept as alternatives whose fields are listed together
+        const schema = normalizer.normalize(content.schema);
+        const collected = SchemaNormalizer.collectProperties(schema);
         const properties: Record<string, MCPRequestBodyProperty> = {};
 
-        // Extract properties from schema
-        if (schema.properties) {
-          Object.keys(schema.properties).forEach(propName => {
-            const prop = schema.properties[propName];
+        // Extract properties from schema; readOnly fields are set by the server, not sent
+        Object.keys(collected.properties).forEach(propName => {
+          const prop = collected.properties[propName];
+          if (prop.readOnly) return;
 
-            // Infer type from field name if not specified in spec
-            const inferredType = prop.type || this.inferTypeFromName(propName, prop);
+          // Infer type from field name if not specified in spec
+          const inferredType = prop.type || this.inferTypeFromName(propName, prop);
 
-            properties[propName] = {
-              type: inferredType,
-              description: prop.description,
-              required: schema.required?.includes(propName) || false,
-            };
-          });
-        }
+          properties[propName] = {
+            type: inferredType,
+            ...(prop.format ? { format: prop.format } : {}),
+            description: prop.description,
+            required: collected.required.includes(propName),
+          };
+        });
 
         endpoint.requestBody = {
           required: requestBody.required || false,
+          ...(contentType !== 'application/json' && contentType !== '*/*' ? { contentType } : {}),
           schema: schema,
           properties: properties,
-          requiredFields: schema.required || [],
+          requiredFields: collected.required.filter((name) => properties[name]),
         };
       }
     }
 
+    // Parse responses (OpenAPI 3.x content map or Swagger 2.0 schema)
+    if (operation.responses && typeof operation.responses === 'object') {
+      const responses = this.parseResponses(operation.responses, normalizer);
+
+      if (Object.keys(responses).length > 0) {
+        endpoint.responses = responses;
+
+        const success = Object.keys(responses)
+          .filter((status) => /^2\d\d$/.test(status) && responses[status].schema)
+          .sort()[0];
+        if (success) {
+          endpoint.response = responses[success].schema;
+        }
+      }
+    }
+
+    // Cursor, page, offset or Link header pagination (or the x-mcphy-pagination extension)
+    const pagination = Paginator.detect(endpoint, operation);
+    if (pagination) {
+      endpoint.pagination = pagination;
+    }
+
     return endpoint;
   }
 
+  /**
+   * Pick the request media type MCPhy sends: JSON first, then forms, then whatever the spec lists
+   */
+  private static selectRequestContentType(content: Record<string, any> | undefined): string | undefined {
+    if (!content || typeof content !== 'object') return undefined;
+
+    const types = Object.keys(content).filter((type) => content[type]?.schema);
+    return (
+      types.find((type) => type === 'application/json') ||
+      types.find((type) => /[/+]json\b/.test(type)) ||
+      types.find((type) => type === '*/*') ||
+      types.find((type) => type === FORM_URLENCODED) ||
+      types.find((type) => type === MULTIPART_FORM_DATA) ||
+      types[0]
+    );
+  }
+
+  /**
+   * Swagger 2.0 "in: formData" parameters as an OpenAPI 3.x style request body;
+   * file fields need multipart, otherwise the operation's consumes list decides
+   */
+  private static formFieldsToRequestBody(fields: any[], operation: any): any {
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+
+    for (const field of fields) {
+      const schema = field.type === 'file'
+        ? { type: 'string', format: 'binary' }
+        : this.extractSwagger2ParameterSchema(field) || { type: 'string' };
+      properties[field.name] = {
+        ...schema,
+        ...(field.description ? { description: field.description } : {}),
+      };
+      if (field.required) {
+        required.push(field.name);
+      }
+    }
+
+    const hasFile = fields.some((field) => field.type === 'file');
+    const consumes: string[] = operation.consumes || [];
+    const contentType =
+      hasFile || (consumes.includes(MULTIPART_FORM_DATA) && !consumes.includes(FORM_URLENCODED))
+        ? MULTIPART_FORM_DATA
+        : FORM_URLENCODED;
+
+    return {
+      required: required.length > 0,
+      content: {
+        [contentType]: {
+          schema: { type: 'object', properties, ...(required.length > 0 ? { required } : {}) },
+        },
+      },
+    };
+  }
+
+  /**
+   * Convert operation responses, preferring JSON content
+   */
+  private static parseResponses(
+    responses: Record<string, any>,
+    normalizer: SchemaNormalizer
+  ): Record<string, MCPResponse> {
+    const result: Record<string, MCPResponse> = {};
+
+    for (const [status, response] of Object.entries(responses)) {
+      if (!response || typeof response !== 'object') continue;
+
+      const entry: MCPResponse = {};
+      if (response.description) {
+        entry.description = response.description;
+      }
+
+      if (response.content && typeof response.content === 'object') {
+        const contentType =
+          Object.keys(response.content).find((type) => /[/+]json\b/.test(type)) ||
+          Object.keys(response.content)[0];
+        const schema = contentType ? response.content[contentType]?.schema : undefined;
+
+        if (contentType) entry.contentType = contentType;
+        if (schema) entry.schema = SchemaConverter.toJsonSchema(normalizer.normalize(schema), 'output');
+      } else if (response.schema) {
+        entry.schema = SchemaConverter.toJsonSchema(normalizer.normalize(response.schema), 'output');
+      }
+
+      result[status] = entry;
+    }
+
+    return result;
+  }
+
+  /**
+   * Swagger 2.0 non-body parameters keep their schema keywords on the parameter itself
+   */
+  private static extractSwagger2ParameterSchema(param: any): any | undefined {
+    const keywords = [
+      'type', 'format', 'items', 'enum', 'default', 'minimum', 'maximum',
+      'exclusiveMinimum', 'exclusiveMaximum', 'minLength', 'maxLength',
+      'pattern', 'minItems', 'maxItems', 'uniqueItems', 'multipleOf',
+    ];
+
+    const schema: any = {};
+    for (const keyword of keywords) {
+      if (param[keyword] !== undefined) {
+        schema[keyword] = param[keyword];
+      }
+    }
+
+    return Object.keys(schema).length > 0 ? schema : undefined;
+  }
+
   /**
    * Save manifest to file
    */
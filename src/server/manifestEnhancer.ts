@@ -3,14 +3,13 @@
  * Uses AI to fill gaps and improve API documentation
  */
 
-import OpenAI from 'openai';
 import { Logger } from '../utils/logger';
 import { MCPManifest, MCPEndpoint, MCPParameter, MCPRequestBody } from './manifest';
+import { LLMProvider, parseJsonResponse } from '../llm/llmProvider';
 
 export interface EnhancementOptions {
   enabled: boolean;
-  model?: string;
-  apiKey?: string;
+  provider?: LLMProvider | null;
 }
 
 export interface ParameterEnhancement {
@@ -30,13 +29,11 @@ export interface EndpointEnhancement {
 }
 
 export class ManifestEnhancer {
-  private openai: OpenAI | null = null;
-  private model: string = 'gpt-4o-mini';
+  private llm: LLMProvider | null = null;
 
   constructor(options: EnhancementOptions) {
-    if (options.enabled && options.apiKey) {
-      this.openai = new OpenAI({ apiKey: options.apiKey });
-      this.model = options.model || 'gpt-4o-mini';
+    if (options.enabled && options.provider) {
+      this.llm = options.provider;
       Logger.info('LLM manifest enhancement enabled');
     } else {
       Logger.info('LLM manifest enhancement disabled');
@@ -47,7 +44,7 @@ export class ManifestEnhancer {
    * Enhance entire manifest with LLM
    */
   async enhanceManifest(manifest: MCPManifest): Promise<MCPManifest> {
-    if (!this.openai) {
+    if (!this.llm) {
       Logger.warn('Cannot enhance manifest: LLM not initialized');
       return manifest;
     }
@@ -80,7 +77,7 @@ export class ManifestEnhancer {
     endpoint: MCPEndpoint,
     manifest: MCPManifest
   ): Promise<MCPEndpoint | null> {
-    if (!this.openai) return null;
+    if (!this.llm) return null;
 
     try {
       // Identify fields that need enhancement
@@ -185,7 +182,7 @@ export class ManifestEnhancer {
    * Call LLM to get enhancement suggestions
    */
   private async callLLMForEnhancement(context: string): Promise<EndpointEnhancement> {
-    if (!this.openai) throw new Error('OpenAI not initialized');
+    if (!this.llm) throw new Error('LLM provider not initialized');
 
     const systemPrompt = `You are an API documentation expert. Your task is to analyze API endpoint parameters and infer their correct types.
 
@@ -220,18 +217,16 @@ Return JSON with:
   ]
 }`;
 
-    const response = await this.openai.chat.completions.create({
-      model: this.model,
+    const content = await this.llm.complete({
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: `Analyze these API fields:\n\n${context}` },
       ],
-      response_format: { type: 'json_object' },
+      json: true,
       temperature: 0.3,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || '{}');
-    return result;
+    return parseJsonResponse<EndpointEnhancement>(content);
   }
 
   /**
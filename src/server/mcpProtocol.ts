@@ -0,0 +1,496 @@
+/**
+ * Model Context Protocol (JSON-RPC 2.0) message handling
+ * Exposes manifest endpoints as MCP tools
+ */
+
+import { Logger } from '../utils/logger';
+import { MCPManifest, MCPEndpoint } from './manifest';
+import { RequestExecutor } from './requestExecutor';
+import { SchemaConverter } from './schemaConverter';
+import { SafetyPolicyError } from './safetyPolicy';
+import { ClarificationStore } from './clarification';
+import { ParamValidator } from './paramValidator';
+
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/** Tool argument that confirms a call whose safety level is "confirm" */
+export const CONFIRM_ARGUMENT = '_confirm';
+
+// Requests to the client may wait for a person (e.g. elicitation forms)
+const DEFAULT_CLIENT_REQUEST_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: any;
+  error?: JsonRpcError;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export const JsonRpcErrorCode = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+};
+
+export interface MCPTool {
+  name: string;
+  title?: string;
+  description: string;
+  inputSchema: any;
+}
+
+/**
+ * Channel for requests from the server to one connected client, such as elicitation/create
+ */
+export interface MCPClientConnection {
+  /** Capabilities the client declared in initialize */
+  capabilities?: Record<string, any>;
+  /** Send a request to the client and resolve with its result */
+  request(method: string, params?: any): Promise<any>;
+}
+
+export interface MCPProtocolOptions {
+  manifest: MCPManifest;
+  executor: RequestExecutor;
+  serverName?: string;
+  serverVersion?: string;
+  toolsListChanged?: boolean;
+}
+
+export class MCPProtocolHandler {
+  private manifest: MCPManifest;
+  private executor: RequestExecutor;
+  private serverName: string;
+  private serverVersion: string;
+  private toolsListChanged: boolean;
+  private tools: Map<string, { tool: MCPTool; endpoint: MCPEndpoint }> = new Map();
+
+  constructor(options: MCPProtocolOptions) {
+    this.manifest = options.manifest;
+    this.executor = options.executor;
+    this.serverName = options.serverName || 'mcphy';
+    this.serverVersion = options.serverVersion || options.manifest.version;
+    this.toolsListChanged = options.toolsListChanged || false;
+
+    this.buildTools();
+  }
+
+  /**
+   * Handle a single JSON-RPC message
+   * Returns null for notifications, which must not be answered
+   * @param connection - Lets tool calls ask the client for missing arguments
+   */
+  async handleMessage(message: JsonRpcRequest, connection?: MCPClientConnection): Promise<JsonRpcResponse | null> {
+    if (!message || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      return this.errorResponse(
+        message?.id ?? null,
+        JsonRpcErrorCode.INVALID_REQUEST,
+        'Invalid JSON-RPC request'
+      );
+    }
+
+    const isNotification = message.id === undefined || message.id === null;
+
+    try {
+      const result = await this.dispatch(message.method, message.params || {}, connection);
+
+      if (isNotification) {
+        return null;
+      }
+
+      return { jsonrpc: '2.0', id: message.id!, result };
+    } catch (error) {
+      if (isNotification) {
+        Logger.error(`Notification ${message.method} failed`, error as Error);
+        return null;
+      }
+
+      if (error instanceof MCPProtocolError) {
+        return this.errorResponse(message.id!, error.code, error.message, error.data);
+      }
+
+      Logger.error(`MCP request ${message.method} failed`, error as Error);
+      return this.errorResponse(
+        message.id!,
+        JsonRpcErrorCode.INTERNAL_ERROR,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * Get the tool definitions generated from the manifest
+   */
+  listTools(): MCPTool[] {
+    return Array.from(this.tools.values()).map((entry) => entry.tool);
+  }
+
+  /**
+   * Route a JSON-RPC method to its handler
+   */
+  private async dispatch(method: string, params: any, connection?: MCPClientConnection): Promise<any> {
+    switch (method) {
+      case 'initialize':
+        return this.handleInitialize(params);
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+        return {};
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: this.listTools() };
+      case 'tools/call':
+        return this.handleToolCall(params, connection);
+      default:
+        throw new MCPProtocolError(JsonRpcErrorCode.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  /**
+   * Negotiate protocol version and advertise capabilities
+   */
+  private handleInitialize(params: any): any {
+    const requestedVersion = params?.protocolVersion;
+    const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requestedVersion)
+      ? requestedVersion
+      : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+    Logger.info(
+      `MCP client connected: ${params?.clientInfo?.name || 'unknown'} (protocol ${protocolVersion})`
+    );
+
+    return {
+      protocolVersion,
+      capabilities: {
+        tools: { listChanged: this.toolsListChanged },
+      },
+      serverInfo: {
+        name: this.serverName,
+        version: this.serverVersion,
+      },
+      instructions: `Tools for calling the ${this.manifest.name} API. ${this.manifest.description}`,
+    };
+  }
+
+  /**
+   * Execute the upstream request behind a tool
+   * Missing required arguments are asked from the user when the client supports elicitation;
+   * arguments are coerced to their declared types and invalid ones are returned as a tool error
+   */
+  private async handleToolCall(params: any, connection?: MCPClientConnection): Promise<any> {
+    const name = params?.name;
+    const entry = typeof name === 'string' ? this.tools.get(name) : undefined;
+
+    if (!entry) {
+      throw new MCPProtocolError(JsonRpcErrorCode.INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+
+    const { [CONFIRM_ARGUMENT]: confirm, ...args } = params.arguments || {};
+    const findMissing = (): string[] =>
+      (entry.tool.inputSchema.required || []).filter((field: string) => args[field] === undefined);
+    let missing = findMissing();
+
+    if (missing.length > 0 && connection?.capabilities?.elicitation) {
+      const elicited = await this.elicit(entry.endpoint, missing, connection);
+      if (elicited.action === 'decline' || elicited.action === 'cancel') {
+        return this.toolError(
+          `The user ${elicited.action === 'decline' ? 'declined to provide' : 'cancelled the request for'} ${missing.join(', ')}. Do not retry without asking.`
+        );
+      }
+      Object.assign(args, elicited.values);
+      missing = findMissing();
+    }
+
+    if (missing.length > 0) {
+      return this.toolError(`Missing required arguments: ${missing.join(', ')}`);
+    }
+
+    const validation = ParamValidator.validate(entry.endpoint, args);
+    if (!validation.valid) {
+      return this.toolError(`Invalid arguments:\n${ParamValidator.describe(validation.errors)}\nCorrect them and call ${name} again.`);
+    }
+
+    try {
+      const result = await this.executor.execute(entry.endpoint, validation.params, { confirmed: confirm === true });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.executor.getResponseHandler().forLlm(result.data),
+          },
+        ],
+        isError: !result.success,
+      };
+    } catch (error) {
+      if (error instanceof SafetyPolicyError) {
+        const hint =
+          error.decision.reason === 'confirmation_required'
+            ? `Ask the user to confirm, then call ${name} again with "${CONFIRM_ARGUMENT}": true.`
+            : 'Do not retry.';
+        return this.toolError(
+          `${error.message}. ${hint}\nRequest that would be sent:\n${JSON.stringify(error.request, null, 2)}`
+        );
+      }
+
+      Logger.error(`Tool ${name} failed`, error as Error);
+      return this.toolError(
+        `Request to ${entry.endpoint.method} ${entry.endpoint.path} failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  }
+
+  /**
+   * Ask the user for missing arguments with an elicitation/create request
+   * Only primitive fields can be elicited; the rest stay missing
+   */
+  private async elicit(
+    endpoint: MCPEndpoint,
+    missing: string[],
+    connection: MCPClientConnection
+  ): Promise<{ action: string; values: Record<string, any> }> {
+    const fields = ClarificationStore.fieldsFor(endpoint, missing);
+    const { requestedSchema, unsupported } = ClarificationStore.toElicitationSchema(fields);
+
+    if (unsupported.length === fields.length) {
+      return { action: 'skipped', values: {} };
+    }
+
+    try {
+      const result = await connection.request('elicitation/create', {
+        message: ClarificationStore.messageFor(endpoint, fields.filter((field) => !unsupported.includes(field.name))),
+        requestedSchema,
+      });
+
+      return {
+        action: result?.action || 'cancel',
+        values: result?.action === 'accept' && result.content && typeof result.content === 'object' ? result.content : {},
+      };
+    } catch (error) {
+      Logger.warn(`Elicitation for ${endpoint.method} ${endpoint.path} failed: ${error instanceof Error ? error.message : error}`);
+      return { action: 'failed', values: {} };
+    }
+  }
+
+  /**
+   * Build tool definitions for every manifest endpoint the safety policy allows
+   */
+  private buildTools(): void {
+    this.tools.clear();
+    const policy = this.executor.getSafetyPolicy();
+
+    for (const endpoint of this.manifest.endpoints) {
+      const level = policy.levelFor(endpoint.method, endpoint);
+      if (level === 'forbidden') continue;
+
+      const name = this.uniqueToolName(this.generateToolName(endpoint));
+      const inputSchema = SchemaConverter.buildInputSchema(endpoint);
+      let description = endpoint.description || `${endpoint.method} ${endpoint.path}`;
+      if (endpoint.deprecated) {
+        description = `[Deprecated] ${description}`;
+      }
+      if (endpoint.pagination && this.executor.getPaginator().isAuto()) {
+        description += endpoint.pagination.param
+          ? ` (returns all pages; set ${endpoint.pagination.param} to fetch a single page)`
+          : ' (returns all pages)';
+      }
+
+      if (level === 'confirm') {
+        inputSchema.properties = {
+          ...(inputSchema.properties || {}),
+          [CONFIRM_ARGUMENT]: {
+            type: 'boolean',
+            description: 'Set to true once the user has confirmed this call',
+          },
+        };
+        description += ` (changes data: requires ${CONFIRM_ARGUMENT}: true after user confirmation)`;
+      }
+
+      this.tools.set(name, {
+        endpoint,
+        tool: {
+          name,
+          title: `${endpoint.method} ${endpoint.path}`,
+          description,
+          inputSchema,
+        },
+      });
+    }
+  }
+
+  /**
+   * Use the operationId when the spec has one (stable across path changes),
+   * otherwise derive a name such as get_users_by_id from method and path
+   */
+  private generateToolName(endpoint: MCPEndpoint): string {
+    if (endpoint.operationId) {
+      const name = endpoint.operationId.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+      if (name.replace(/_/g, '')) return name;
+    }
+
+    const segments = endpoint.path
+      .split('/')
+      .filter(Boolean)
+      .map((segment) => {
+        const param = segment.match(/^\{(.+)\}$/);
+        return param ? `by_${param[1]}` : segment;
+      });
+
+    const name = [endpoint.method.toLowerCase(), ...segments]
+      .join('_')
+      .replace(/[^a-zA-Z0-9_-]/g, '_')
+      .replace(/_+/g, '_')
+      .replace(/^_|_$/g, '');
+
+    return name.slice(0, 64) || 'endpoint';
+  }
+
+  /**
+   * Ensure a tool name is not already taken
+   */
+  private uniqueToolName(name: string): string {
+    if (!this.tools.has(name)) return name;
+
+    let suffix = 2;
+    while (this.tools.has(`${name.slice(0, 60)}_${suffix}`)) {
+      suffix++;
+    }
+    return `${name.slice(0, 60)}_${suffix}`;
+  }
+
+  /**
+   * Build a tool result that reports an error to the model
+   */
+  private toolError(message: string): any {
+    return {
+      content: [{ type: 'text', text: message }],
+      isError: true,
+    };
+  }
+
+  /**
+   * Build a JSON-RPC error response
+   */
+  private errorResponse(
+    id: string | number | null,
+    code: number,
+    message: string,
+    data?: any
+  ): JsonRpcResponse {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: { code, message, ...(data !== undefined ? { data } : {}) },
+    };
+  }
+}
+
+/**
+ * Requests sent to a client, waiting for the client's responses
+ */
+export class ClientRequests {
+  private pending: Map<string, { resolve: (result: any) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }> =
+    new Map();
+  private nextId = 1;
+  private timeoutMs: number;
+
+  constructor(timeoutMs: number = DEFAULT_CLIENT_REQUEST_TIMEOUT_MS) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Whether a message from the client answers a server request (it has no method)
+   */
+  static isResponse(message: any): message is JsonRpcResponse {
+    return (
+      !!message &&
+      typeof message === 'object' &&
+      message.method === undefined &&
+      message.id !== undefined &&
+      ('result' in message || 'error' in message)
+    );
+  }
+
+  /**
+   * Write a request with a fresh ID and wait for its response
+   * @param write - Delivers the message to the client; may throw when it cannot
+   */
+  send(method: string, params: any, write: (message: JsonRpcRequest) => void): Promise<any> {
+    const id = `mcphy-${this.nextId++}`;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`No response to ${method} within ${Math.round(this.timeoutMs / 1000)}s`));
+      }, this.timeoutMs);
+      timer.unref();
+
+      this.pending.set(id, { resolve, reject, timer });
+
+      try {
+        write({ jsonrpc: '2.0', id, method, ...(params !== undefined ? { params } : {}) });
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Settle the request a response belongs to
+   * @returns Whether the response matched a pending request
+   */
+  resolve(response: JsonRpcResponse): boolean {
+    const entry = this.pending.get(String(response.id));
+    if (!entry) return false;
+
+    clearTimeout(entry.timer);
+    this.pending.delete(String(response.id));
+
+    if (response.error) {
+      entry.reject(new MCPProtocolError(response.error.code, response.error.message, response.error.data));
+    } else {
+      entry.resolve(response.result);
+    }
+    return true;
+  }
+
+  /**
+   * Fail every pending request, e.g. when the client disconnects
+   */
+  cancelAll(reason: string): void {
+    for (const entry of this.pending.values()) {
+      clearTimeout(entry.timer);
+      entry.reject(new Error(reason));
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Error carrying a JSON-RPC error code
+ */
+export class MCPProtocolError extends Error {
+  constructor(public code: number, message: string, public data?: any) {
+    super(message);
+    this.name = 'MCPProtocolError';
+  }
+}
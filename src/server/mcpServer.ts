@@ -5,20 +5,112 @@
 import express, { Express, Request, Response } from 'express';
 import * as path from 'path';
 import * as fs from 'fs-extra';
+import { Readable } from 'stream';
 import * as SwaggerParser from 'swagger-parser';
 import { Logger } from '../utils/logger';
-import { MCPManifest, ManifestGenerator } from './manifest';
+import { MCPEndpoint, MCPManifest, ManifestGenerator } from './manifest';
 import { ManifestEnhancer } from './manifestEnhancer';
 import { QueryMatcher } from './queryMatcher';
+import { MCPProtocolHandler } from './mcpProtocol';
+import { RequestExecutor } from './requestExecutor';
+import { StdioTransport } from './stdioTransport';
+import { StreamableHttpConfig, StreamableHttpTransport } from './httpTransport';
+import { QueryExecutor } from './queryExecutor';
+import { PlanValidationError, QueryPlanner } from './queryPlanner';
+import { UpstreamAuth, UpstreamAuthConfig } from './upstreamAuth';
+import { InboundAuth, InboundAuthConfig } from './inboundAuth';
+import { EndpointFilter, EndpointFilterConfig } from './endpointFilter';
+import { MULTIPART_FORM_DATA, RequestBodyEncoder, UploadConfig, UploadError } from './requestBodyEncoder';
+import { ResponseConfig, ResponseHandler } from './responseHandler';
+import { PaginationConfig, Paginator } from './pagination';
+import { ConversationConfig, ConversationStore, SESSION_HEADER } from './conversationStore';
+import { ClarificationConfig, ClarificationError, ClarificationStore } from './clarification';
+import { MatchingConfig } from './endpointRanker';
+import { ParamValidator } from './paramValidator';
+import { DEFAULT_EMBEDDINGS_CACHE, EndpointIndex } from './endpointIndex';
+import { AnswerConfig, AnswerGenerator } from './answerGenerator';
+import { GraphQLConfig, GraphQLParser } from '../parser/graphqlParser';
+import { HarParser } from '../parser/harParser';
+import { CurlParser } from '../parser/curlParser';
+import { InsomniaParser } from '../parser/insomniaParser';
+import { PostmanParser } from '../parser/postmanParser';
+import {
+  CONFIRM_HEADER,
+  DRY_RUN_HEADER,
+  SafetyConfig,
+  SafetyPolicy,
+  SafetyPolicyError,
+  redactRequest,
+} from './safetyPolicy';
+import { LLMConfig, LLMProvider } from '../llm/llmProvider';
+import { EmbeddingConfig } from '../embeddings/embeddingProvider';
+import { EmbeddingProviderFactory } from '../embeddings/embeddingFactory';
+import { LLMProviderFactory } from '../llm/providerFactory';
+import { findMatchingTemplate, matchPathTemplate } from '../utils/pathTemplate';
+
+/** HTTP status of each natural-language execution and plan outcome */
+const EXECUTION_STATUS_CODES: Record<string, number> = {
+  completed: 200,
+  dry_run: 200,
+  needs_input: 422,
+  invalid_input: 422,
+  no_match: 404,
+  confirmation_required: 428,
+  forbidden: 403,
+  failed: 502,
+};
+
+const INVALID_SESSION = {
+  error: 'Invalid request',
+  message: '"sessionId" must be 1-128 letters, digits, "_", "-", "." or ":"',
+};
+
+/** Marks proxy responses passed through from the upstream API rather than wrapped in JSON */
+const STREAMED_HEADER = 'X-MCPhy-Streamed';
+
+// fetch has already decoded the body, so its encoding and length no longer apply;
+// upstream cookies must not be set on MCPhy's origin
+const STREAM_EXCLUDED_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'keep-alive', 'set-cookie'];
 
 export interface MCPServerOptions {
   port: number;
   manifest: MCPManifest;
   configPath?: string;
+  /** @deprecated use llm */
   openaiApiKey?: string | null;
   apiBaseUrl?: string;
+  /** @deprecated use llm.model */
   llmModel?: string;
+  /** null turns the LLM off, even when API keys are set */
+  llm?: LLMConfig | null;
   manifestEnhancement?: boolean;
+  /** Upper bound on the number of calls in a multi-step plan */
+  maxPlanSteps?: number;
+  auth?: UpstreamAuthConfig;
+  inboundAuth?: InboundAuthConfig;
+  safety?: SafetyConfig;
+  /** Include/exclude rules; filtered-out endpoints are not exposed or proxied */
+  filters?: EndpointFilterConfig;
+  /** Where local files may be uploaded from, and how large they may be */
+  uploads?: UploadConfig;
+  /** Size limits for response bodies and where large or binary results are saved */
+  responses?: ResponseConfig;
+  /** Whether and how far list endpoints are paged through */
+  pagination?: PaginationConfig;
+  /** How many conversation sessions and turns are remembered, and for how long */
+  conversations?: ConversationConfig;
+  /** How long calls waiting for missing inputs are kept */
+  clarifications?: ClarificationConfig;
+  /** How many MCP Streamable HTTP sessions are kept, and for how long */
+  mcpSessions?: StreamableHttpConfig;
+  /** Confidence threshold, candidates and synonyms of offline (keyword) matching */
+  matching?: MatchingConfig;
+  /** Embedding index that narrows large manifests down to the relevant endpoints before LLM matching */
+  embeddings?: EmbeddingConfig;
+  /** Whether answers to queries are written by the LLM or from templates */
+  answers?: AnswerConfig;
+  /** GraphQL endpoint path and result selection depth, used when a GraphQL schema is uploaded */
+  graphql?: GraphQLConfig;
 }
 
 export class MCPServer {
@@ -27,19 +119,58 @@ export class MCPServer {
   private manifest: MCPManifest;
   private queryMatcher: QueryMatcher;
   private apiBaseUrl: string;
-  private openaiApiKey?: string | null;
-  private llmModel?: string;
+  private llm: LLMProvider | null;
   private manifestEnhancement: boolean;
+  private authConfig: UpstreamAuthConfig;
+  private upstreamAuth: UpstreamAuth;
+  private inboundAuth: InboundAuth;
+  private safetyPolicy: SafetyPolicy;
+  private endpointFilter: EndpointFilter;
+  private bodyEncoder: RequestBodyEncoder;
+  private responseHandler: ResponseHandler;
+  private paginator: Paginator;
+  private conversations: ConversationStore;
+  private clarifications: ClarificationStore;
+  private answers: AnswerGenerator;
+  private executor: RequestExecutor;
+  private mcpHandler: MCPProtocolHandler;
+  private mcpTransport: StreamableHttpTransport;
+  private queryExecutor: QueryExecutor;
+  private queryPlanner: QueryPlanner;
+  private maxPlanSteps?: number;
+  private matching?: MatchingConfig;
+  private endpointIndex?: EndpointIndex;
+  private graphql?: GraphQLConfig;
 
   constructor(options: MCPServerOptions) {
     this.app = express();
     this.port = options.port;
-    this.manifest = options.manifest;
-    this.queryMatcher = new QueryMatcher(options.manifest, options.openaiApiKey, options.llmModel);
+    // Filters also apply to manifests generated before they were configured
+    this.endpointFilter = new EndpointFilter(options.filters);
+    this.manifest = this.endpointFilter.applyToManifest(options.manifest);
+    this.llm = LLMProviderFactory.fromConfig(options);
+    this.matching = options.matching;
+    this.graphql = options.graphql;
+    this.endpointIndex = MCPServer.createEndpointIndex(options.embeddings, options.configPath);
+    this.queryMatcher = new QueryMatcher(this.manifest, this.llm, this.matching, this.endpointIndex);
     this.apiBaseUrl = options.apiBaseUrl || 'http://localhost:8000';
-    this.openaiApiKey = options.openaiApiKey;
-    this.llmModel = options.llmModel;
     this.manifestEnhancement = options.manifestEnhancement || false;
+    this.authConfig = options.auth || {};
+    this.upstreamAuth = new UpstreamAuth(this.authConfig, this.manifest.securitySchemes);
+    this.inboundAuth = new InboundAuth(options.inboundAuth);
+    this.safetyPolicy = new SafetyPolicy(options.safety);
+    this.bodyEncoder = new RequestBodyEncoder(options.uploads);
+    this.responseHandler = new ResponseHandler(options.responses);
+    this.paginator = new Paginator(options.pagination);
+    this.conversations = new ConversationStore(options.conversations);
+    this.clarifications = new ClarificationStore(options.clarifications);
+    this.answers = new AnswerGenerator(options.answers?.llm === false ? null : this.llm, this.responseHandler);
+    this.executor = this.createExecutor();
+    this.mcpHandler = this.createProtocolHandler();
+    this.mcpTransport = new StreamableHttpTransport(() => this.mcpHandler, options.mcpSessions);
+    this.queryExecutor = new QueryExecutor(this.manifest, this.queryMatcher, this.executor, this.clarifications, this.answers);
+    this.maxPlanSteps = options.maxPlanSteps;
+    this.queryPlanner = this.createQueryPlanner();
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -49,7 +180,8 @@ export class MCPServer {
    * Setup Express middleware
    */
   private setupMiddleware(): void {
-    this.app.use(express.json());
+    // Files sent as base64 inside JSON bodies must fit under the upload limit
+    this.app.use(express.json({ limit: Math.ceil((this.bodyEncoder.getMaxBytes() * 4) / 3) + 1024 * 1024 }));
     this.app.use(express.urlencoded({ extended: true }));
 
     // Serve static files from UI folder
@@ -61,6 +193,9 @@ export class MCPServer {
       Logger.info(`${req.method} ${req.path}`);
       next();
     });
+
+    // Inbound API keys (no-op unless keys are configured); the UI and /health stay public
+    this.app.use(this.inboundAuth.middleware());
   }
 
   /**
@@ -127,19 +262,36 @@ export class MCPServer {
         let newManifest: MCPManifest;
 
         try {
-          // Try to detect format if not specified
-          const content = typeof specContent === 'string' ? JSON.parse(specContent) : specContent;
+          // Try to detect format if not specified; GraphQL SDL, curl commands and Insomnia YAML are text rather than JSON
+          const textTypes = ['graphql', 'curl', 'insomnia'];
+          const content = typeof specContent === 'string' && !textTypes.includes(specType) ? JSON.parse(specContent) : specContent;
 
-          if (specType === 'postman' || content.info?.schema?.includes('postman')) {
+          if (specType === 'graphql' || GraphQLParser.isIntrospection(content)) {
+            Logger.info('Detected GraphQL schema format');
+            const parsedSchema = GraphQLParser.parseContent(content, this.manifest.name, this.graphql, this.endpointFilter);
+            newManifest = await ManifestGenerator.generateFromGraphQL(parsedSchema, this.endpointFilter);
+          } else if (specType === 'insomnia' || InsomniaParser.isInsomnia(content)) {
+            Logger.info('Detected Insomnia export');
+            const collection = InsomniaParser.parseContent(content, undefined, this.endpointFilter);
+            newManifest = await ManifestGenerator.generateFromPostman(collection, this.endpointFilter);
+          } else if (specType === 'har' || HarParser.isHar(content)) {
+            Logger.info('Detected HAR capture');
+            const recorded = HarParser.parseContent(content, this.manifest.name, this.endpointFilter);
+            newManifest = await ManifestGenerator.generateFromPostman(recorded, this.endpointFilter);
+          } else if (specType === 'curl') {
+            Logger.info('Detected curl commands');
+            const recorded = CurlParser.parseContent(String(content), this.manifest.name, this.endpointFilter);
+            newManifest = await ManifestGenerator.generateFromPostman(recorded, this.endpointFilter);
+          } else if (specType === 'postman' || content.info?.schema?.includes('postman')) {
             Logger.info('Detected Postman collection format');
             // For Postman, we need to convert it to OpenAPI format first
             // For now, try to use it directly with the Postman generator
-            newManifest = await ManifestGenerator.generateFromPostman(content);
+            newManifest = await ManifestGenerator.generateFromPostman(content, this.endpointFilter);
           } else {
             Logger.info('Detected OpenAPI/Swagger format');
             // Validate the spec using swagger-parser
             parsedSpec = await (SwaggerParser as any).validate(content);
-            newManifest = await ManifestGenerator.generateFromSwagger(parsedSpec);
+            newManifest = await ManifestGenerator.generateFromSwagger(parsedSpec, this.endpointFilter);
           }
         } catch (parseError) {
           Logger.error('Failed to parse specification', parseError as Error);
@@ -150,13 +302,12 @@ export class MCPServer {
         }
 
         // Optionally enhance manifest with LLM
-        if (this.manifestEnhancement && this.openaiApiKey) {
+        if (this.manifestEnhancement && this.llm) {
           try {
             Logger.info('Enhancing manifest with LLM...');
             const enhancer = new ManifestEnhancer({
               enabled: true,
-              apiKey: this.openaiApiKey,
-              model: this.llmModel,
+              provider: this.llm,
             });
 
             newManifest = await enhancer.enhanceManifest(newManifest);
@@ -172,11 +323,18 @@ export class MCPServer {
         this.manifest = newManifest;
 
         // Recreate QueryMatcher with new manifest
-        this.queryMatcher = new QueryMatcher(
-          this.manifest,
-          process.env.OPENAI_API_KEY,
-          undefined
-        );
+        await this.buildEndpointIndex();
+        this.queryMatcher = new QueryMatcher(this.manifest, this.llm, this.matching, this.endpointIndex);
+
+        // Security schemes may have changed with the spec
+        this.upstreamAuth = new UpstreamAuth(this.authConfig, this.manifest.securitySchemes);
+        this.executor = this.createExecutor();
+        this.queryExecutor = new QueryExecutor(this.manifest, this.queryMatcher, this.executor, this.clarifications, this.answers);
+        this.queryPlanner = this.createQueryPlanner();
+
+        // Republish MCP tools for connected agents
+        this.mcpHandler = this.createProtocolHandler();
+        this.mcpTransport.broadcast('notifications/tools/list_changed');
 
         Logger.success('API specification updated successfully');
 
@@ -200,9 +358,19 @@ export class MCPServer {
     });
 
     // Natural language query endpoint (POST)
-    this.app.post('/mcp/query', async (req: Request, res: Response) => {
+    this.app.post('/mcp/query', (req: Request, res: Response) =>
+      this.matchQuery(req, res, req.body.query, 'Request body must contain a "query" string field')
+    );
+
+    // Natural language query endpoint (GET with query param)
+    this.app.get('/mcp/query', (req: Request, res: Response) =>
+      this.matchQuery(req, res, req.query.q, 'Query parameter "q" is required')
+    );
+
+    // Natural language query execution: match, validate, call upstream, summarize
+    this.app.post('/mcp/execute', async (req: Request, res: Response) => {
       try {
-        const { query } = req.body;
+        const { query, params, confirm, dryRun, paginate } = req.body;
 
         if (!query || typeof query !== 'string') {
           return res.status(400).json({
@@ -211,48 +379,232 @@ export class MCPServer {
           });
         }
 
-        Logger.info(`Processing natural language query: "${query}"`);
+        if (params !== undefined && (typeof params !== 'object' || params === null || Array.isArray(params))) {
+          return res.status(400).json({
+            error: 'Invalid request',
+            message: '"params" must be an object when provided',
+          });
+        }
 
-        // Match query to endpoint
-        const result = await this.queryMatcher.matchQuery(query);
+        const sessionId = this.sessionIdOf(req);
+        if (sessionId === null) {
+          return res.status(400).json(INVALID_SESSION);
+        }
+
+        Logger.info(`Executing natural language query: "${query}"`);
+
+        const result = await this.queryExecutor.execute(query, params || {}, {
+          confirm: SafetyPolicy.isFlagSet(confirm ?? req.get(CONFIRM_HEADER)),
+          dryRun: SafetyPolicy.isFlagSet(dryRun ?? req.get(DRY_RUN_HEADER)),
+          paginate: typeof paginate === 'boolean' ? paginate : undefined,
+          history: sessionId ? this.conversations.history(sessionId) : [],
+          sessionId,
+        });
 
-        res.json(result);
+        if (sessionId) {
+          this.conversations.record(sessionId, {
+            query,
+            endpoint: result.match?.endpoint || undefined,
+            method: result.match?.method || undefined,
+            params: result.match?.params,
+            status: result.response?.status,
+            data: result.response?.data,
+          });
+        }
+
+        res.status(EXECUTION_STATUS_CODES[result.status]).json(sessionId ? { ...result, sessionId } : result);
       } catch (error) {
-        Logger.error('Query matching failed', error as Error);
+        Logger.error('Query execution failed', error as Error);
         res.status(500).json({
-          error: 'Query matching failed',
+          error: 'Query execution failed',
           message: error instanceof Error ? error.message : 'Unknown error',
         });
       }
     });
 
-    // Natural language query endpoint (GET with query param)
-    this.app.get('/mcp/query', async (req: Request, res: Response) => {
+    // Answer the missing inputs of a pending call and continue it
+    this.app.post('/mcp/clarifications/:clarificationId', async (req: Request, res: Response) => {
       try {
-        const query = req.query.q as string;
+        const { answers, confirm, dryRun, paginate } = req.body;
+
+        if (answers !== undefined && (typeof answers !== 'object' || answers === null || Array.isArray(answers))) {
+          return res.status(400).json({
+            error: 'Invalid request',
+            message: '"answers" must be an object of field values',
+          });
+        }
+
+        const pending = this.queryExecutor.getPendingCall(req.params.clarificationId);
+        Logger.info(`Answering clarification ${req.params.clarificationId}`);
+
+        const result = await this.queryExecutor.answer(req.params.clarificationId, answers || {}, {
+          confirm: SafetyPolicy.isFlagSet(confirm ?? req.get(CONFIRM_HEADER)),
+          dryRun: SafetyPolicy.isFlagSet(dryRun ?? req.get(DRY_RUN_HEADER)),
+          ...(typeof paginate === 'boolean' ? { paginate } : {}),
+        });
+
+        if (pending?.sessionId && result.response && result.match) {
+          this.conversations.recordResponse(
+            pending.sessionId,
+            result.match.method,
+            result.match.endpoint,
+            result.match.params || {},
+            result.response.status,
+            result.response.data
+          );
+        }
+
+        res.status(EXECUTION_STATUS_CODES[result.status]).json(result);
+      } catch (error) {
+        if (error instanceof ClarificationError) {
+          return res.status(404).json({
+            error: 'Not found',
+            message: error.message,
+          });
+        }
+
+        Logger.error('Clarification failed', error as Error);
+        res.status(500).json({
+          error: 'Clarification failed',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    });
+
+    // Answer a query from the response of a call the client made through the proxy
+    this.app.post('/mcp/answer', async (req: Request, res: Response) => {
+      try {
+        const { query, method, endpoint: path, params, response } = req.body;
+
+        if (!query || typeof query !== 'string' || typeof method !== 'string' || typeof path !== 'string') {
+          return res.status(400).json({
+            error: 'Invalid request',
+            message: 'Request body must contain "query", "method" and "endpoint" string fields',
+          });
+        }
+
+        if (!response || typeof response !== 'object' || typeof response.status !== 'number') {
+          return res.status(400).json({
+            error: 'Invalid request',
+            message: '"response" must be an object with a numeric "status" and the response "data"',
+          });
+        }
+
+        const endpoint = this.manifest.endpoints.find(
+          (ep) => ep.path === path && ep.method === method.toUpperCase()
+        );
+        if (!endpoint) {
+          return res.status(404).json({
+            error: 'Not found',
+            message: `${method.toUpperCase()} ${path} is not in the manifest`,
+          });
+        }
+
+        const answer = await this.answers.answer(query, endpoint, params && typeof params === 'object' ? params : {}, {
+          success: response.status < 400,
+          status: response.status,
+          data: response.data,
+          headers: {},
+          request: { method: endpoint.method, url: endpoint.path },
+          ...(response.truncated ? { truncated: true } : {}),
+          ...(response.saved ? { saved: response.saved } : {}),
+        });
+
+        res.json(answer);
+      } catch (error) {
+        Logger.error('Answer generation failed', error as Error);
+        res.status(500).json({
+          error: 'Answer generation failed',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    });
+
+    // Forget a conversation session
+    this.app.delete('/mcp/sessions/:sessionId', (req: Request, res: Response) => {
+      if (!this.conversations.clear(req.params.sessionId)) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'No such session (it may have expired)',
+        });
+      }
+
+      res.json({ success: true });
+    });
+
+    // Multi-step planning: build a plan for preview without calling the upstream API
+    this.app.post('/mcp/plan', async (req: Request, res: Response) => {
+      try {
+        const { query } = req.body;
 
         if (!query || typeof query !== 'string') {
           return res.status(400).json({
             error: 'Invalid request',
-            message: 'Query parameter "q" is required',
+            message: 'Request body must contain a "query" string field',
+          });
+        }
+
+        Logger.info(`Planning query: "${query}"`);
+
+        const plan = await this.queryPlanner.plan(query);
+        res.json(plan);
+      } catch (error) {
+        if (error instanceof PlanValidationError) {
+          return res.status(422).json({
+            error: 'Invalid plan',
+            message: error.message,
+            problems: error.problems,
+          });
+        }
+
+        Logger.error('Query planning failed', error as Error);
+        res.status(500).json({
+          error: 'Query planning failed',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    });
+
+    // Multi-step execution of a (previewed) plan
+    this.app.post('/mcp/plan/execute', async (req: Request, res: Response) => {
+      try {
+        const { plan, confirm, dryRun } = req.body;
+
+        if (!plan || typeof plan !== 'object' || !Array.isArray(plan.steps)) {
+          return res.status(400).json({
+            error: 'Invalid request',
+            message: 'Request body must contain a "plan" object with a "steps" array',
           });
         }
 
-        Logger.info(`Processing natural language query: "${query}"`);
+        Logger.info(`Executing ${plan.steps.length}-step plan`);
 
-        // Match query to endpoint
-        const result = await this.queryMatcher.matchQuery(query);
+        const result = await this.queryPlanner.execute(plan, {
+          confirm: SafetyPolicy.isFlagSet(confirm ?? req.get(CONFIRM_HEADER)),
+          dryRun: SafetyPolicy.isFlagSet(dryRun ?? req.get(DRY_RUN_HEADER)),
+        });
 
-        res.json(result);
+        res.status(EXECUTION_STATUS_CODES[result.status]).json(result);
       } catch (error) {
-        Logger.error('Query matching failed', error as Error);
+        if (error instanceof PlanValidationError) {
+          return res.status(400).json({
+            error: 'Invalid plan',
+            message: error.message,
+            problems: error.problems,
+          });
+        }
+
+        Logger.error('Plan execution failed', error as Error);
         res.status(500).json({
-          error: 'Query matching failed',
+          error: 'Plan execution failed',
           message: error instanceof Error ? error.message : 'Unknown error',
         });
       }
     });
 
+    // MCP Streamable HTTP transport (POST /mcp, GET /mcp for SSE, DELETE /mcp)
+    this.mcpTransport.register(this.app, '/mcp');
+
     // Proxy endpoint for actual API calls
     this.app.all('/api/proxy/*', async (req: Request, res: Response) => {
       try {
@@ -270,10 +622,19 @@ export class MCPServer {
         // Prepare headers (exclude host and other problematic headers)
         const headers: Record<string, string> = {};
 
+        const confirmed = SafetyPolicy.isFlagSet(req.get(CONFIRM_HEADER));
+        const dryRun = SafetyPolicy.isFlagSet(req.get(DRY_RUN_HEADER));
+
+        // Credentials for MCPhy itself and MCPhy control headers must not reach the upstream API
+        const excludedHeaders = ['host', 'content-length', 'connection', 'content-type', CONFIRM_HEADER, DRY_RUN_HEADER, SESSION_HEADER];
+        if (this.inboundAuth.isEnabled()) {
+          excludedHeaders.push('authorization', 'x-api-key');
+        }
+
         // Copy safe headers from the original request
         Object.keys(req.headers).forEach(key => {
           const lowerKey = key.toLowerCase();
-          if (!['host', 'content-length', 'connection', 'content-type'].includes(lowerKey)) {
+          if (!excludedHeaders.includes(lowerKey)) {
             const value = req.headers[key];
             if (typeof value === 'string') {
               headers[key] = value;
@@ -281,48 +642,149 @@ export class MCPServer {
           }
         });
 
-        // Always set Content-Type to application/json for our API calls
-        headers['Content-Type'] = 'application/json';
+        // Add upstream credentials for the matching manifest endpoint
+        const endpoint = findMatchingTemplate(
+          this.manifest.endpoints.filter((ep) => ep.method === req.method),
+          targetPath
+        );
 
-        // Make the actual API call
-        const fetchOptions: any = {
-          method: req.method,
-          headers,
-        };
+        // With filters configured, only endpoints kept in the manifest may be reached
+        if (!endpoint && this.endpointFilter.isEnabled()) {
+          Logger.warn(`Blocked proxy request ${req.method} ${targetPath}: not an exposed endpoint`);
+          return res.status(403).json({
+            success: false,
+            status: 403,
+            error: 'Forbidden',
+            message: `${req.method} ${targetPath} is not an exposed endpoint`,
+          });
+        }
+
+        // GraphQL operations are sent as documents built from their arguments
+        if (endpoint?.graphql) {
+          return await this.proxyGraphQL(req, res, endpoint, confirmed, dryRun);
+        }
 
         // Add body for non-GET/HEAD requests
-        if (!['GET', 'HEAD'].includes(req.method) && req.body) {
-          // Check if body is already a string (shouldn't happen with express.json(), but just in case)
-          const bodyToSend = typeof req.body === 'string' ? req.body : JSON.stringify(req.body);
-          fetchOptions.body = bodyToSend;
-
-          Logger.info(`Request body type: ${typeof req.body}`);
-          Logger.info(`Request body: ${JSON.stringify(req.body, null, 2)}`);
-          Logger.info(`Sending body: ${bodyToSend}`);
+        const incomingType = req.get('content-type') || '';
+        const hasBody = !['GET', 'HEAD'].includes(req.method);
+        const streamed = hasBody && incomingType.toLowerCase().startsWith(MULTIPART_FORM_DATA);
+        let body: any;
+
+        if (streamed) {
+          // Multipart uploads from the client are streamed through unchanged
+          headers['Content-Type'] = incomingType;
+          body = req;
+          Logger.info('Streaming multipart body from the client');
+        } else if (hasBody && req.body !== undefined) {
+          // JSON from the client is re-encoded in the media type the endpoint expects
+          const encoded = endpoint
+            ? await this.bodyEncoder.encode(endpoint, req.body)
+            : { body: typeof req.body === 'string' ? req.body : JSON.stringify(req.body), contentType: 'application/json' };
+          if (encoded.contentType) {
+            headers['Content-Type'] = encoded.contentType;
+          }
+          body = encoded.body;
+          Logger.info(`Sending body: ${RequestBodyEncoder.describe(encoded.body)}`);
         }
 
-        const response = await fetch(targetUrl, fetchOptions);
+        const unauthenticated = { method: req.method, url: targetUrl, headers };
 
-        const responseData = await response.text();
-        let jsonData;
+        // The exact request, with credentials redacted, for dry runs and blocked calls; no OAuth2 token is fetched for it
+        const preview = async () => {
+          const previewed = await this.upstreamAuth.apply({ ...unauthenticated, headers: { ...headers } }, endpoint, true);
+          return redactRequest(
+            {
+              method: req.method,
+              url: previewed.url,
+              headers: previewed.headers,
+              body: streamed ? `<${incomingType}, streamed from the client>` : body,
+            },
+            unauthenticated
+          );
+        };
 
-        try {
-          jsonData = JSON.parse(responseData);
-        } catch {
-          jsonData = responseData;
+        // Safety and dry runs are decided before credentials are added to anything
+        const decision = this.safetyPolicy.check(req.method, endpoint, confirmed);
+
+        if (dryRun) {
+          return res.json({ success: true, dryRun: true, safety: decision.level, request: await preview() });
         }
 
+        if (!decision.allowed) {
+          Logger.warn(`Blocked proxy request ${req.method} ${targetPath}: ${decision.message}`);
+          const status = decision.reason === 'forbidden' ? 403 : 428;
+          return res.status(status).json({
+            success: false,
+            status,
+            error: decision.reason === 'forbidden' ? 'Forbidden' : 'Confirmation required',
+            message: decision.message,
+            safety: decision.level,
+            confirmationRequired: decision.reason === 'confirmation_required',
+            request: await preview(),
+          });
+        }
+
+        // Only the request that is actually sent is authenticated
+        const authenticated = await this.upstreamAuth.apply({ ...unauthenticated, headers: { ...headers } }, endpoint);
+        targetUrl = authenticated.url;
+
+        // Make the actual API call
+        const fetchOptions: any = {
+          method: req.method,
+          headers: authenticated.headers,
+          ...(body !== undefined ? { body } : {}),
+          ...(streamed ? { duplex: 'half' } : {}),
+        };
+
+        const response = await fetch(targetUrl, fetchOptions);
         Logger.info(`Response status: ${response.status}`);
 
+        // Files, exports and oversized bodies go to the client as they arrive, with their own headers
+        const contentType = response.headers.get('content-type');
+        const contentLength = Number(response.headers.get('content-length') || 0);
+        if ((contentType && !ResponseHandler.isJson(contentType)) || contentLength > this.responseHandler.getMaxBytes()) {
+          return this.streamResponse(response, res);
+        }
+
+        const responseBody = await this.responseHandler.read(response, `${req.method} ${targetPath}`);
+
+        // Calls the UI makes for a matched query complete that query's turn in the conversation
+        const sessionId = req.get(SESSION_HEADER);
+        if (endpoint && ConversationStore.isValidId(sessionId)) {
+          this.conversations.recordResponse(
+            sessionId,
+            req.method,
+            endpoint.path,
+            {
+              ...matchPathTemplate(endpoint.path, targetPath),
+              ...req.query,
+              ...(!streamed && req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {}),
+            },
+            response.status,
+            responseBody.data
+          );
+        }
+
         // Forward the response
         res.status(response.status).json({
           success: response.ok,
           status: response.status,
-          data: jsonData,
+          data: responseBody.data,
           headers: Object.fromEntries(response.headers.entries()),
+          ...(responseBody.truncated ? { truncated: true } : {}),
+          ...(responseBody.saved ? { saved: responseBody.saved } : {}),
         });
 
       } catch (error) {
+        if (error instanceof UploadError) {
+          return res.status(400).json({
+            success: false,
+            status: 400,
+            error: 'Invalid upload',
+            message: error.message,
+          });
+        }
+
         Logger.error('Proxy request failed', error as Error);
         res.status(500).json({
           success: false,
@@ -338,18 +800,174 @@ export class MCPServer {
     });
   }
 
+  /**
+   * Match a natural language query to an endpoint, recording the turn and any clarification for its session
+   */
+  private async matchQuery(req: Request, res: Response, query: unknown, missingMessage: string): Promise<void> {
+    try {
+      if (!query || typeof query !== 'string') {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: missingMessage,
+        });
+        return;
+      }
+
+      const sessionId = this.sessionIdOf(req);
+      if (sessionId === null) {
+        res.status(400).json(INVALID_SESSION);
+        return;
+      }
+
+      Logger.info(`Processing natural language query: "${query}"`);
+
+      // Match query to endpoint, with the earlier turns of the conversation
+      const result = await this.queryMatcher.matchQuery(query, sessionId ? this.conversations.history(sessionId) : []);
+
+      if (sessionId) {
+        this.conversations.record(sessionId, {
+          query,
+          endpoint: result.endpoint || undefined,
+          method: result.method || undefined,
+          params: result.params,
+        });
+      }
+
+      // Missing required inputs can be answered as a clarification
+      const clarification = this.queryExecutor.clarify(query, result, { sessionId });
+
+      res.json({ ...result, ...(clarification ? { clarification } : {}), ...(sessionId ? { sessionId } : {}) });
+    } catch (error) {
+      Logger.error('Query matching failed', error as Error);
+      res.status(500).json({
+        error: 'Query matching failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Proxy a call to a GraphQL operation: the query string and JSON body are its arguments
+   */
+  private async proxyGraphQL(
+    req: Request,
+    res: Response,
+    endpoint: MCPEndpoint,
+    confirmed: boolean,
+    dryRun: boolean
+  ): Promise<void> {
+    // Variables must have their declared types; query string values arrive as text
+    const { params, errors } = ParamValidator.validate(endpoint, {
+      ...req.query,
+      ...(req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {}),
+    });
+
+    if (errors.length > 0) {
+      Logger.warn(`Rejected proxy request ${req.method} ${endpoint.path}: invalid variables`);
+      res.status(400).json({
+        success: false,
+        status: 400,
+        error: 'Invalid parameters',
+        message: ParamValidator.describe(errors),
+        errors,
+      });
+      return;
+    }
+
+    if (dryRun) {
+      const decision = this.safetyPolicy.check(req.method, endpoint, confirmed);
+      res.json({ success: true, dryRun: true, safety: decision.level, request: await this.executor.preview(endpoint, params) });
+      return;
+    }
+
+    try {
+      const result = await this.executor.execute(endpoint, params, { confirmed });
+
+      const sessionId = req.get(SESSION_HEADER);
+      if (ConversationStore.isValidId(sessionId)) {
+        this.conversations.recordResponse(sessionId, endpoint.method, endpoint.path, params, result.status, result.data);
+      }
+
+      res.status(result.status).json({
+        success: result.success,
+        status: result.status,
+        data: result.data,
+        headers: result.headers,
+        ...(result.truncated ? { truncated: true } : {}),
+        ...(result.saved ? { saved: result.saved } : {}),
+      });
+    } catch (error) {
+      if (!(error instanceof SafetyPolicyError)) throw error;
+
+      const { decision } = error;
+      Logger.warn(`Blocked proxy request ${req.method} ${endpoint.path}: ${decision.message}`);
+      const status = decision.reason === 'forbidden' ? 403 : 428;
+      res.status(status).json({
+        success: false,
+        status,
+        error: decision.reason === 'forbidden' ? 'Forbidden' : 'Confirmation required',
+        message: decision.message,
+        safety: decision.level,
+        confirmationRequired: decision.reason === 'confirmation_required',
+        request: error.request,
+      });
+    }
+  }
+
+  /**
+   * Pass an upstream response through as it arrives: status, headers and body stream
+   */
+  private streamResponse(response: globalThis.Response, res: Response): void {
+    res.status(response.status);
+
+    for (const [name, value] of response.headers.entries()) {
+      if (!STREAM_EXCLUDED_HEADERS.includes(name.toLowerCase())) {
+        res.setHeader(name, value);
+      }
+    }
+    res.setHeader(STREAMED_HEADER, 'true');
+
+    if (!response.body) {
+      res.end();
+      return;
+    }
+
+    Readable.fromWeb(response.body as any)
+      .on('error', (error) => {
+        Logger.error('Streaming the upstream response failed', error);
+        res.destroy(error);
+      })
+      .pipe(res);
+  }
+
+  /**
+   * Conversation session named by the request body, query string or X-MCPhy-Session header
+   * @returns undefined when none is given, null when the ID is not valid
+   */
+  private sessionIdOf(req: Request): string | null | undefined {
+    const sessionId = req.body?.sessionId ?? req.query.sessionId ?? req.get(SESSION_HEADER);
+
+    if (sessionId === undefined || sessionId === '') return undefined;
+    return ConversationStore.isValidId(sessionId) ? sessionId : null;
+  }
+
   /**
    * Start the server
    */
   async start(): Promise<void> {
+    await this.buildEndpointIndex();
+
     return new Promise((resolve) => {
       this.app.listen(this.port, () => {
         console.log('\n🚀 MCPhy running at http://localhost:' + this.port);
         console.log('💬 Open in your browser to chat with your backend\n');
         Logger.info(`Web UI: http://localhost:${this.port}/`);
         Logger.info(`Query Endpoint: http://localhost:${this.port}/mcp/query (GET/POST)`);
+        Logger.info(`Execute Endpoint: http://localhost:${this.port}/mcp/execute (POST)`);
+        Logger.info(`Plan Endpoints: http://localhost:${this.port}/mcp/plan, /mcp/plan/execute (POST)`);
         Logger.info(`API Endpoints: http://localhost:${this.port}/api/endpoints`);
         Logger.info(`MCP Manifest: http://localhost:${this.port}/.well-known/mcp/manifest.json`);
+        Logger.info(`MCP Endpoint: http://localhost:${this.port}/mcp (Streamable HTTP)`);
         resolve();
       });
     });
@@ -362,6 +980,66 @@ export class MCPServer {
     return this.app;
   }
 
+  /**
+   * Embedding index from the `embeddings` config, cached next to the config file; undefined when not configured
+   */
+  static createEndpointIndex(config?: EmbeddingConfig, configPath?: string): EndpointIndex | undefined {
+    const embedder = config?.provider ? EmbeddingProviderFactory.create(config) : null;
+    if (!config || !embedder) return undefined;
+
+    return new EndpointIndex(embedder, {
+      cachePath: config.cachePath || path.join(configPath ? path.dirname(configPath) : process.cwd(), DEFAULT_EMBEDDINGS_CACHE),
+      topN: config.topN,
+      minEndpoints: config.minEndpoints,
+    });
+  }
+
+  /**
+   * Embed the current manifest's endpoints; matching uses the full endpoint list until this succeeds
+   */
+  private async buildEndpointIndex(): Promise<void> {
+    if (!this.endpointIndex) return;
+
+    try {
+      const { embedded, cached } = await this.endpointIndex.build(this.manifest.endpoints);
+      Logger.info(`Endpoint index ready (${embedded} embedded, ${cached} from cache)`);
+    } catch (error) {
+      Logger.warn(`Could not build the endpoint index: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Build the upstream request executor with the current auth, safety policy, upload, response and pagination settings
+   */
+  private createExecutor(): RequestExecutor {
+    return new RequestExecutor({
+      baseUrl: this.apiBaseUrl,
+      auth: this.upstreamAuth,
+      safety: this.safetyPolicy,
+      bodyEncoder: this.bodyEncoder,
+      responseHandler: this.responseHandler,
+      paginator: this.paginator,
+    });
+  }
+
+  /**
+   * Build the MCP protocol handler for the current manifest
+   */
+  private createProtocolHandler(): MCPProtocolHandler {
+    return new MCPProtocolHandler({
+      manifest: this.manifest,
+      executor: this.executor,
+      toolsListChanged: true,
+    });
+  }
+
+  /**
+   * Build the multi-step planner for the current manifest
+   */
+  private createQueryPlanner(): QueryPlanner {
+    return new QueryPlanner(this.manifest, this.queryMatcher, this.executor, this.llm, this.maxPlanSteps);
+  }
+
   /**
    * Get the target API base URL
    */
@@ -370,30 +1048,50 @@ export class MCPServer {
   }
 }
 
+/**
+ * Load a config file and its manifest
+ * With Postman environment files, the manifest is regenerated from the collection
+ * and the base URL taken from the environment
+ */
+async function loadConfig(configPath: string, environmentPaths?: string[]): Promise<{ config: any; manifest: MCPManifest }> {
+  const config = await fs.readJSON(configPath);
+  Logger.info(`Loaded configuration from ${configPath}`);
+
+  let manifest: MCPManifest;
+
+  const environments = environmentPaths || [];
+  if (environments.length > 0 && config.apiSpecFormat !== 'postman') {
+    Logger.warn('Environment files only apply to Postman collections; using the saved manifest');
+  }
+
+  if (environments.length > 0 && config.apiSpecFormat === 'postman') {
+    const filter = new EndpointFilter(config.filters);
+    const collection = await PostmanParser.parse(config.apiSpecPath, null, filter, environments);
+    manifest = await ManifestGenerator.generateFromPostman(collection, filter);
+    config.apiBaseUrl = collection.baseUrl || config.apiBaseUrl;
+    Logger.info(`Generated manifest from ${config.apiSpecPath} with ${environments.length} environment file(s)`);
+  } else if (config.manifestPath && await fs.pathExists(config.manifestPath)) {
+    manifest = await fs.readJSON(config.manifestPath);
+    Logger.info(`Loaded manifest from ${config.manifestPath}`);
+  } else {
+    Logger.warn('No manifest found, using minimal manifest');
+    manifest = {
+      version: '1.0.0',
+      name: config.name || 'MCP API Server',
+      description: config.description || 'API exposed via MCP',
+      endpoints: [],
+    };
+  }
+
+  return { config, manifest };
+}
+
 /**
  * Create and start an MCP server from a config file
  */
-export async function startFromConfig(configPath: string, port: number = 3000): Promise<MCPServer> {
+export async function startFromConfig(configPath: string, port: number = 3000, environmentPaths?: string[]): Promise<MCPServer> {
   try {
-    // Load config
-    const config = await fs.readJSON(configPath);
-    Logger.info(`Loaded configuration from ${configPath}`);
-
-    // Load or generate manifest
-    let manifest: MCPManifest;
-
-    if (config.manifestPath && await fs.pathExists(config.manifestPath)) {
-      manifest = await fs.readJSON(config.manifestPath);
-      Logger.info(`Loaded manifest from ${config.manifestPath}`);
-    } else {
-      Logger.warn('No manifest found, using minimal manifest');
-      manifest = {
-        version: '1.0.0',
-        name: config.name || 'MCP API Server',
-        description: config.description || 'API exposed via MCP',
-        endpoints: [],
-      };
-    }
+    const { config, manifest } = await loadConfig(configPath, environmentPaths);
 
     // Create and start server
     const server = new MCPServer({
@@ -403,7 +1101,23 @@ export async function startFromConfig(configPath: string, port: number = 3000):
       openaiApiKey: config.openaiApiKey,
       apiBaseUrl: config.apiBaseUrl,
       llmModel: config.llmModel,
-      manifestEnhancement: config.manifestEnhancement || false
+      llm: config.llm,
+      manifestEnhancement: config.manifestEnhancement || false,
+      maxPlanSteps: config.planner?.maxSteps,
+      auth: config.auth,
+      inboundAuth: config.inboundAuth,
+      safety: config.safety,
+      filters: config.filters,
+      uploads: config.uploads,
+      responses: config.responses,
+      pagination: config.pagination,
+      conversations: config.conversations,
+      clarifications: config.clarifications,
+      mcpSessions: config.mcpSessions,
+      matching: config.matching,
+      embeddings: config.embeddings,
+      answers: config.answers,
+      graphql: config.graphql,
     });
     await server.start();
 
@@ -413,3 +1127,36 @@ export async function startFromConfig(configPath: string, port: number = 3000):
     throw error;
   }
 }
+
+/**
+ * Serve the manifest over the MCP stdio transport
+ * Resolves when the client closes stdin
+ */
+export async function startStdioFromConfig(configPath: string, environmentPaths?: string[]): Promise<void> {
+  // stdout is reserved for JSON-RPC messages
+  Logger.redirectToStderr();
+
+  try {
+    const { config, manifest: loadedManifest } = await loadConfig(configPath, environmentPaths);
+    const manifest = new EndpointFilter(config.filters).applyToManifest(loadedManifest);
+
+    const handler = new MCPProtocolHandler({
+      manifest,
+      executor: new RequestExecutor({
+        baseUrl: config.apiBaseUrl || 'http://localhost:8000',
+        auth: new UpstreamAuth(config.auth || {}, manifest.securitySchemes),
+        safety: new SafetyPolicy(config.safety),
+        bodyEncoder: new RequestBodyEncoder(config.uploads),
+        responseHandler: new ResponseHandler(config.responses),
+        paginator: new Paginator(config.pagination),
+      }),
+      serverName: config.name,
+    });
+
+    Logger.info(`Serving ${manifest.endpoints.length} tools over stdio`);
+    await new StdioTransport(handler).start();
+  } catch (error) {
+    Logger.error('Failed to start stdio server from config', error as Error);
+    throw error;
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * Pagination of list endpoints
+ *
+ *   cursor   ?cursor=<value from the previous page>     (cursor, page_token, after, ...)
+ *   page     ?page=1,2,3...                             (page, page_number, with per_page, page_size, ...)
+ *   offset   ?offset=0,25,50...                         (offset, skip, start, with limit, ...)
+ *   link     Link: <https://api.example.com/items?page=2>; rel="next"
+ *
+ * The style is detected when the manifest is generated, from query parameter
+ * names, the response schema and documented Link headers, or set explicitly
+ * with the x-mcphy-pagination operation extension (false turns detection off).
+ * The Paginator then follows pages up to a cap and merges their items.
+ */
+
+import { Logger } from '../utils/logger';
+import { MCPEndpoint, MCPPagination, PaginationStyle } from './manifest';
+import { ExecutionResult } from './requestExecutor';
+
+export interface PaginationConfig {
+  /** Follow pages automatically when the caller does not ask for a specific page */
+  auto?: boolean;
+  /** Largest number of pages fetched for one call */
+  maxPages?: number;
+  /** Stop once this many items have been collected */
+  maxItems?: number;
+}
+
+/**
+ * What to fetch next: the same endpoint with new parameters, or a URL from a Link header
+ */
+export interface PageRequest {
+  params?: Record<string, any>;
+  url?: string;
+}
+
+const DEFAULT_MAX_PAGES = 10;
+const DEFAULT_MAX_ITEMS = 1000;
+
+const PAGINATION_STYLES: PaginationStyle[] = ['cursor', 'page', 'offset', 'link'];
+
+const CURSOR_PARAMS = /^(cursor|after|page_?token|next_?token|continuation(_?token)?|next_?cursor|marker)$/i;
+const PAGE_PARAMS = /^(page|page_?number|page_?num)$/i;
+const OFFSET_PARAMS = /^(offset|skip|start)$/i;
+const SIZE_PARAMS = /^(per_?page|page_?size|limit|size|count|take|max_?results|top)$/i;
+
+// Response fields holding the next cursor, at the top level or inside a metadata object
+const NEXT_CURSOR_FIELDS = /^(next_?cursor|next_?page_?token|next_?token|end_?cursor|cursor|next)$/i;
+const META_FIELDS = ['meta', 'pagination', 'paging', 'page_info', 'pageInfo', 'response_metadata'];
+const HAS_MORE_FIELDS = ['has_more', 'hasMore', 'has_next', 'hasNext', 'has_next_page', 'hasNextPage'];
+
+// Envelope keys that usually hold the items of a list response
+const ITEM_KEYS = ['data', 'items', 'results', 'records', 'entries', 'values', 'nodes'];
+
+export class Paginator {
+  private auto: boolean;
+  private maxPages: number;
+  private maxItems: number;
+
+  constructor(config: PaginationConfig = {}) {
+    this.auto = config.auto ?? true;
+    this.maxPages = config.maxPages ?? DEFAULT_MAX_PAGES;
+    this.maxItems = config.maxItems ?? DEFAULT_MAX_ITEMS;
+  }
+
+  /**
+   * Whether pages are followed without being asked for
+   */
+  isAuto(): boolean {
+    return this.auto;
+  }
+
+  /**
+   * Detect how an operation paginates
+   * @param operation - The spec operation, for the x-mcphy-pagination extension and Link headers
+   */
+  static detect(endpoint: MCPEndpoint, operation: any = {}): MCPPagination | undefined {
+    const extension = operation['x-mcphy-pagination'];
+    if (extension === false) return undefined;
+    if (extension && typeof extension === 'object' && PAGINATION_STYLES.includes(extension.style)) {
+      return extension as MCPPagination;
+    }
+
+    if (endpoint.method !== 'GET') return undefined;
+
+    const queryParams = (endpoint.parameters || []).filter((param) => param.location === 'query').map((p) => p.name);
+    const sizeParam = queryParams.find((name) => SIZE_PARAMS.test(name));
+    const itemsPath = this.itemsPathFromSchema(endpoint.response);
+    const extra = { ...(sizeParam ? { sizeParam } : {}), ...(itemsPath ? { itemsPath } : {}) };
+
+    const cursorParam = queryParams.find((name) => CURSOR_PARAMS.test(name));
+    if (cursorParam) {
+      const cursorPath = this.cursorPathFromSchema(endpoint.response);
+      return { style: 'cursor', param: cursorParam, ...(cursorPath ? { cursorPath } : {}), ...extra };
+    }
+
+    const documentsLink = Object.entries<any>(operation.responses || {}).some(
+      ([status, response]) =>
+        /^2\d\d$/.test(status) && Object.keys(response?.headers || {}).some((name) => name.toLowerCase() === 'link')
+    );
+    if (documentsLink) {
+      return { style: 'link', ...extra };
+    }
+
+    const pageParam = queryParams.find((name) => PAGE_PARAMS.test(name));
+    if (pageParam) {
+      return { style: 'page', param: pageParam, ...extra };
+    }
+
+    const offsetParam = queryParams.find((name) => OFFSET_PARAMS.test(name));
+    if (offsetParam) {
+      return { style: 'offset', param: offsetParam, ...extra };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Whether a call should follow pages: explicitly requested, or automatic
+   * unless the caller already chose a page
+   */
+  shouldPaginate(endpoint: MCPEndpoint, params: Record<string, any>, requested?: boolean): boolean {
+    const pagination = endpoint.pagination;
+    if (!pagination || requested === false) return false;
+    if (requested === true) return true;
+
+    return this.auto && !(pagination.param && params[pagination.param] !== undefined);
+  }
+
+  /**
+   * Fetch pages until the last one (or the cap) and merge their items into the first page's shape
+   * @param fetchPage - Sends one page request
+   */
+  async collect(
+    endpoint: MCPEndpoint,
+    params: Record<string, any>,
+    fetchPage: (page: PageRequest) => Promise<ExecutionResult>
+  ): Promise<ExecutionResult> {
+    const pagination = endpoint.pagination!;
+    const first = await fetchPage({ params });
+    const firstItems = this.itemsOf(first.data, pagination.itemsPath);
+
+    if (!first.success || !firstItems) {
+      return first;
+    }
+
+    const items = [...firstItems.items];
+    let last = first;
+    let lastItems = firstItems.items;
+    let pageParams = { ...params };
+    let pages = 1;
+    let complete = false;
+
+    while (true) {
+      const next = this.nextPage(pagination, last, lastItems, firstItems.items.length, pageParams);
+      if (!next) {
+        complete = true;
+        break;
+      }
+      if (pages >= this.maxPages || items.length >= this.maxItems) break;
+
+      const result = await fetchPage(next);
+      const pageItems = result.success ? this.itemsOf(result.data, firstItems.key) : undefined;
+      if (!pageItems) break;
+
+      pages++;
+      items.push(...pageItems.items);
+      last = result;
+      lastItems = pageItems.items;
+      pageParams = next.params || pageParams;
+    }
+
+    const merged = items.slice(0, this.maxItems);
+    if (merged.length < items.length) complete = false;
+
+    return {
+      ...first,
+      data: firstItems.key ? this.withItems(first.data, firstItems.key, merged) : merged,
+      pagination: { pages, items: merged.length, complete },
+    };
+  }
+
+  /**
+   * The request for the page after `result`, or undefined on the last page
+   */
+  private nextPage(
+    pagination: MCPPagination,
+    result: ExecutionResult,
+    pageItems: any[],
+    firstPageSize: number,
+    params: Record<string, any>
+  ): PageRequest | undefined {
+    if (pageItems.length === 0 || this.hasMoreFlag(result.data) === false) return undefined;
+    if (pagination.style !== 'link' && !pagination.param) return undefined;
+
+    switch (pagination.style) {
+      case 'link': {
+        const next = this.nextLink(result.headers.link, result.request.url);
+        return next ? { url: next } : undefined;
+      }
+      case 'cursor': {
+        const cursor = pagination.cursorPath
+          ? this.valueAt(result.data, pagination.cursorPath)
+          : this.findNextCursor(result.data);
+        if (cursor === undefined || cursor === null || cursor === '' || typeof cursor === 'object') return undefined;
+        return { params: { ...params, [pagination.param!]: cursor } };
+      }
+      case 'page': {
+        // A short page is the last one
+        if (pageItems.length < this.pageSize(pagination, params, firstPageSize)) return undefined;
+        const current = Number(params[pagination.param!] ?? 1);
+        return { params: { ...params, [pagination.param!]: current + 1 } };
+      }
+      case 'offset': {
+        if (pageItems.length < this.pageSize(pagination, params, firstPageSize)) return undefined;
+        const current = Number(params[pagination.param!] ?? 0);
+        return { params: { ...params, [pagination.param!]: current + pageItems.length } };
+      }
+    }
+  }
+
+  /**
+   * Requested page size, or the size of the first page when none was given
+   */
+  private pageSize(pagination: MCPPagination, params: Record<string, any>, firstPageSize: number): number {
+    const requested = pagination.sizeParam ? Number(params[pagination.sizeParam]) : NaN;
+    return Number.isFinite(requested) && requested > 0 ? requested : firstPageSize;
+  }
+
+  /**
+   * The rel="next" target of a Link header, if it stays on the same origin as the request
+   */
+  private nextLink(header: string | undefined, currentUrl: string): string | undefined {
+    if (!header) return undefined;
+
+    for (const part of header.split(',')) {
+      const match = part.match(/<([^>]+)>\s*;(.*)/);
+      if (match && /rel="?([^"]*\s)?next(\s[^"]*)?"?/i.test(match[2])) {
+        const next = new URL(match[1], currentUrl);
+        // Credentials are added to every page; never send them to another host
+        if (next.origin !== new URL(currentUrl).origin) {
+          Logger.warn(`Not following pagination link to another origin: ${next.origin}`);
+          return undefined;
+        }
+        return next.toString();
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Items of a page and the key they sit under (undefined when the body is the list)
+   */
+  private itemsOf(data: any, itemsPath?: string): { items: any[]; key?: string } | undefined {
+    if (itemsPath) {
+      const items = this.valueAt(data, itemsPath);
+      return Array.isArray(items) ? { items, key: itemsPath } : undefined;
+    }
+
+    if (Array.isArray(data)) return { items: data };
+    if (!data || typeof data !== 'object') return undefined;
+
+    const arrayKeys = Object.keys(data).filter((key) => Array.isArray(data[key]));
+    const key = ITEM_KEYS.find((name) => arrayKeys.includes(name)) || (arrayKeys.length === 1 ? arrayKeys[0] : undefined);
+
+    return key ? { items: data[key], key } : undefined;
+  }
+
+  /**
+   * Copy of a page body with its items replaced
+   */
+  private withItems(data: any, itemsPath: string, items: any[]): any {
+    const [key, ...rest] = itemsPath.split('.');
+    return {
+      ...data,
+      [key]: rest.length > 0 ? this.withItems(data[key], rest.join('.'), items) : items,
+    };
+  }
+
+  /**
+   * has_more style flags, when the response has one
+   */
+  private hasMoreFlag(data: any): boolean | undefined {
+    for (const container of [data, ...META_FIELDS.map((field) => data?.[field])]) {
+      if (!container || typeof container !== 'object') continue;
+      const field = HAS_MORE_FIELDS.find((name) => typeof container[name] === 'boolean');
+      if (field) return container[field];
+    }
+    return undefined;
+  }
+
+  /**
+   * Next cursor from common response fields when the manifest does not say where it is
+   */
+  private findNextCursor(data: any): any {
+    for (const container of [data, ...META_FIELDS.map((field) => data?.[field])]) {
+      if (!container || typeof container !== 'object' || Array.isArray(container)) continue;
+      const field = Object.keys(container).find((name) => NEXT_CURSOR_FIELDS.test(name));
+      if (field) return container[field];
+    }
+    return undefined;
+  }
+
+  /**
+   * Value at a dotted path such as "meta.next_cursor"
+   */
+  private valueAt(data: any, dottedPath: string): any {
+    return dottedPath.split('.').reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), data);
+  }
+
+  /**
+   * Items array declared by a response schema: the body itself, or a top-level array property
+   */
+  private static itemsPathFromSchema(schema: any): string | undefined {
+    if (!schema?.properties) return undefined;
+
+    const arrayKeys = Object.keys(schema.properties).filter(
+      (key) => schema.properties[key]?.type === 'array' || schema.properties[key]?.items
+    );
+    return ITEM_KEYS.find((name) => arrayKeys.includes(name)) || (arrayKeys.length === 1 ? arrayKeys[0] : undefined);
+  }
+
+  /**
+   * Dotted path of the next-cursor field declared by a response schema
+   */
+  private static cursorPathFromSchema(schema: any): string | undefined {
+    const properties = schema?.properties || {};
+    const direct = Object.keys(properties).find((name) => NEXT_CURSOR_FIELDS.test(name));
+    if (direct) return direct;
+
+    for (const meta of META_FIELDS) {
+      const nested = Object.keys(properties[meta]?.properties || {}).find((name) => NEXT_CURSOR_FIELDS.test(name));
+      if (nested) return `${meta}.${nested}`;
+    }
+
+    return undefined;
+  }
+}
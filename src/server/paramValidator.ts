@@ -0,0 +1,379 @@
+/**
+ * Checks call parameters against an endpoint's input schema before the call is made
+ *
+ *   coercion   "42" → 42 for integers, "yes" → true for booleans, "Jan 15 2025" →
+ *              "2025-01-15" for dates, "2:30pm" → "14:30" for times, "a,b" → ["a","b"]
+ *              for arrays, and enum values matched regardless of case
+ *   checks     required fields, types, enums, formats (date, date-time, time, email,
+ *              uri, uuid), patterns, numeric bounds and lengths, nested objects and arrays
+ *
+ * Errors are structured so they can be shown to users, returned to agents, or fed
+ * back to the LLM for a repair attempt.
+ */
+
+import { MCPEndpoint } from './manifest';
+import { SchemaConverter } from './schemaConverter';
+
+export type ParamErrorCode = 'missing' | 'type' | 'enum' | 'format' | 'pattern' | 'range' | 'length';
+
+export interface ParamValidationError {
+  /** Top-level parameter the error belongs to */
+  param: string;
+  /** Location of the offending value, e.g. customer.email or items[2].qty */
+  path: string;
+  code: ParamErrorCode;
+  message: string;
+  value?: any;
+}
+
+export interface ParamValidationResult {
+  valid: boolean;
+  /** Parameters with values coerced to their declared types */
+  params: Record<string, any>;
+  errors: ParamValidationError[];
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+const ISO_TIME = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+export class ParamValidator {
+  /**
+   * Coerce and check parameters against the endpoint's input schema
+   * Parameters the schema does not declare are passed through unchanged
+   */
+  static validate(endpoint: MCPEndpoint, params: Record<string, any>): ParamValidationResult {
+    const schema = SchemaConverter.buildInputSchema(endpoint);
+    const coerced: Record<string, any> = { ...params };
+    const errors: ParamValidationError[] = [];
+
+    for (const name of SchemaConverter.findMissingInputs(endpoint, params)) {
+      errors.push({ param: name, path: name, code: 'missing', message: `${name} is required` });
+    }
+
+    for (const [name, value] of Object.entries(params)) {
+      const propSchema = schema.properties?.[name];
+      if (!propSchema || value === undefined || value === null || value === '') continue;
+
+      coerced[name] = this.check(propSchema, value, name, name, errors);
+    }
+
+    return { valid: errors.length === 0, params: coerced, errors };
+  }
+
+  /**
+   * One line per error, for prompts and messages
+   */
+  static describe(errors: ParamValidationError[]): string {
+    return errors
+      .map((error) => `- ${error.path}: ${error.message}${error.value !== undefined ? ` (got ${JSON.stringify(error.value)})` : ''}`)
+      .join('\n');
+  }
+
+  /**
+   * Coerce a value to its schema and record what does not fit
+   * @returns The coerced value (the original value where coercion failed)
+   */
+  private static check(schema: any, value: any, param: string, path: string, errors: ParamValidationError[]): any {
+    if (!schema || typeof schema !== 'object') return value;
+
+    const alternatives = schema.oneOf || schema.anyOf;
+    if (Array.isArray(alternatives) && alternatives.length > 0) {
+      for (const alternative of alternatives) {
+        const attempt: ParamValidationError[] = [];
+        const result = this.check(alternative, value, param, path, attempt);
+        if (attempt.length === 0) return result;
+      }
+      errors.push({ param, path, code: 'type', message: 'does not match any of the accepted forms', value });
+      return value;
+    }
+
+    const types: string[] = (Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []).filter(
+      (type: string) => type !== 'null'
+    );
+    let result = value;
+
+    if (types.length > 0) {
+      const converted = types.map((type) => this.coerce(type, value)).find((attempt) => attempt.ok);
+      if (!converted) {
+        errors.push({ param, path, code: 'type', message: `must be ${types.map((type) => this.article(type)).join(' or ')}`, value });
+        return value;
+      }
+      result = converted.value;
+    }
+
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      const member = schema.enum.find(
+        (option: any) =>
+          option === result ||
+          (typeof option === 'string' && typeof result === 'string' && option.toLowerCase() === result.trim().toLowerCase()) ||
+          (typeof option === 'number' && typeof result === 'string' && String(option) === result.trim())
+      );
+      if (member === undefined) {
+        errors.push({ param, path, code: 'enum', message: `must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`, value });
+        return result;
+      }
+      result = member;
+    }
+
+    if (typeof result === 'string') {
+      result = this.checkString(schema, result, param, path, errors);
+    } else if (typeof result === 'number') {
+      this.checkNumber(schema, result, param, path, errors);
+    } else if (Array.isArray(result)) {
+      if (schema.minItems !== undefined && result.length < schema.minItems) {
+        errors.push({ param, path, code: 'length', message: `must have at least ${schema.minItems} items`, value });
+      }
+      if (schema.maxItems !== undefined && result.length > schema.maxItems) {
+        errors.push({ param, path, code: 'length', message: `must have at most ${schema.maxItems} items`, value });
+      }
+      if (schema.items) {
+        result = result.map((item, index) => this.check(schema.items, item, param, `${path}[${index}]`, errors));
+      }
+    } else if (result && typeof result === 'object' && schema.properties) {
+      result = { ...result };
+      for (const name of schema.required || []) {
+        if (result[name] === undefined || result[name] === null || result[name] === '') {
+          errors.push({ param, path: `${path}.${name}`, code: 'missing', message: `${name} is required` });
+        }
+      }
+      for (const [name, item] of Object.entries(result)) {
+        if (schema.properties[name] && item !== undefined && item !== null) {
+          result[name] = this.check(schema.properties[name], item, param, `${path}.${name}`, errors);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Convert a value to a JSON Schema type where the intent is unambiguous
+   */
+  private static coerce(type: string, value: any): { ok: boolean; value?: any } {
+    switch (type) {
+      case 'integer': {
+        if (typeof value === 'number') return { ok: Number.isInteger(value), value };
+        if (typeof value === 'string' && /^[+-]?\d+(\.0+)?$/.test(value.trim())) {
+          return { ok: true, value: parseInt(value.trim(), 10) };
+        }
+        return { ok: false };
+      }
+      case 'number': {
+        if (typeof value === 'number') return { ok: Number.isFinite(value), value };
+        if (typeof value === 'string' && /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(value.trim())) {
+          return { ok: true, value: Number(value.trim()) };
+        }
+        return { ok: false };
+      }
+      case 'boolean': {
+        if (typeof value === 'boolean') return { ok: true, value };
+        const text = String(value).trim().toLowerCase();
+        if (['true', 'yes', 'y', '1', 'on'].includes(text)) return { ok: true, value: true };
+        if (['false', 'no', 'n', '0', 'off'].includes(text)) return { ok: true, value: false };
+        return { ok: false };
+      }
+      case 'string':
+        if (typeof value === 'string') return { ok: true, value };
+        if (typeof value === 'number' || typeof value === 'boolean') return { ok: true, value: String(value) };
+        return { ok: false };
+      case 'array': {
+        if (Array.isArray(value)) return { ok: true, value };
+        if (typeof value === 'string') {
+          const text = value.trim();
+          if (text.startsWith('[')) {
+            try {
+              const parsed = JSON.parse(text);
+              if (Array.isArray(parsed)) return { ok: true, value: parsed };
+            } catch {
+              // Not JSON: treat as a comma-separated list
+            }
+          }
+          return { ok: true, value: text.split(',').map((item) => item.trim()).filter(Boolean) };
+        }
+        if (value !== null && typeof value !== 'object') return { ok: true, value: [value] };
+        return { ok: false };
+      }
+      case 'object': {
+        if (value && typeof value === 'object' && !Array.isArray(value)) return { ok: true, value };
+        if (typeof value === 'string' && value.trim().startsWith('{')) {
+          try {
+            const parsed = JSON.parse(value);
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return { ok: true, value: parsed };
+          } catch {
+            return { ok: false };
+          }
+        }
+        return { ok: false };
+      }
+      default:
+        return { ok: true, value };
+    }
+  }
+
+  /**
+   * Format, pattern and length checks; dates and times are normalized to ISO form
+   */
+  private static checkString(schema: any, value: string, param: string, path: string, errors: ParamValidationError[]): string {
+    let result = value;
+
+    switch (schema.format) {
+      case 'date': {
+        const date = this.toIsoDate(value);
+        if (date) result = date;
+        else errors.push({ param, path, code: 'format', message: 'must be a date (YYYY-MM-DD)', value });
+        break;
+      }
+      case 'date-time': {
+        const dateTime = this.toIsoDateTime(value);
+        if (dateTime) result = dateTime;
+        else errors.push({ param, path, code: 'format', message: 'must be a date and time (e.g. 2025-01-15T14:30:00Z)', value });
+        break;
+      }
+      case 'time': {
+        const time = this.toIsoTime(value);
+        if (time) result = time;
+        else errors.push({ param, path, code: 'format', message: 'must be a time (HH:MM)', value });
+        break;
+      }
+      case 'uri':
+      case 'url':
+        try {
+          new URL(value);
+        } catch {
+          errors.push({ param, path, code: 'format', message: 'must be an absolute URL', value });
+        }
+        break;
+      default:
+        if (FORMAT_PATTERNS[schema.format] && !FORMAT_PATTERNS[schema.format].test(value.trim())) {
+          errors.push({ param, path, code: 'format', message: `must be a valid ${schema.format}`, value });
+        }
+    }
+
+    if (schema.pattern) {
+      let pattern: RegExp | undefined;
+      try {
+        pattern = new RegExp(schema.pattern, 'u');
+      } catch {
+        // Patterns JavaScript cannot compile are not checked
+      }
+      if (pattern && !pattern.test(result)) {
+        errors.push({ param, path, code: 'pattern', message: `must match ${schema.pattern}`, value });
+      }
+    }
+
+    if (schema.minLength !== undefined && result.length < schema.minLength) {
+      errors.push({ param, path, code: 'length', message: `must be at least ${schema.minLength} characters`, value });
+    }
+    if (schema.maxLength !== undefined && result.length > schema.maxLength) {
+      errors.push({ param, path, code: 'length', message: `must be at most ${schema.maxLength} characters`, value });
+    }
+
+    return result;
+  }
+
+  /**
+   * Numeric bounds, including JSON Schema exclusive bounds
+   */
+  private static checkNumber(schema: any, value: number, param: string, path: string, errors: ParamValidationError[]): void {
+    const fail = (message: string) => errors.push({ param, path, code: 'range', message, value });
+
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be at most ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) fail(`must be greater than ${schema.exclusiveMinimum}`);
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) fail(`must be less than ${schema.exclusiveMaximum}`);
+    if (schema.multipleOf && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) {
+      fail(`must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  /**
+   * YYYY-MM-DD from an ISO date or date-time, or a date with a written-out year ("Jan 15, 2025", "2025/01/15")
+   */
+  private static toIsoDate(value: string): string | undefined {
+    const text = value.trim();
+    const iso = text.slice(0, 10).match(ISO_DATE);
+
+    if (iso && (text.length === 10 || text[10] === 'T' || text[10] === ' ')) {
+      const [, year, month, day] = iso;
+      return this.isRealDate(Number(year), Number(month), Number(day)) ? iso[0] : undefined;
+    }
+
+    // Without a year, Date.parse picks an arbitrary one
+    if (!/\b\d{4}\b/.test(text)) return undefined;
+
+    const slashed = text.match(/^(\d{4})[/.](\d{1,2})[/.](\d{1,2})$/);
+    if (slashed) {
+      const [, year, month, day] = slashed.map(Number);
+      return this.isRealDate(year, month, day) ? `${year}-${this.pad(month)}-${this.pad(day)}` : undefined;
+    }
+
+    // Written-out month names only; numeric forms such as 01/02/2025 are ambiguous
+    if (!MONTHS.some((month) => text.toLowerCase().includes(month))) return undefined;
+
+    const parsed = new Date(text);
+    if (isNaN(parsed.getTime())) return undefined;
+    return `${parsed.getFullYear()}-${this.pad(parsed.getMonth() + 1)}-${this.pad(parsed.getDate())}`;
+  }
+
+  /**
+   * ISO 8601 date-time; other parseable forms with a year are converted to UTC
+   */
+  private static toIsoDateTime(value: string): string | undefined {
+    const text = value.trim();
+    if (ISO_DATE_TIME.test(text)) return text;
+    if (!/\b\d{4}\b/.test(text)) return undefined;
+
+    const parsed = new Date(text);
+    return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+  }
+
+  /**
+   * HH:MM from "14:30", "9:05" or "2:30pm"
+   */
+  private static toIsoTime(value: string): string | undefined {
+    const text = value.trim().toLowerCase();
+    if (ISO_TIME.test(text)) return text;
+
+    const match = text.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+    if (!match || (!match[2] && !match[3])) return undefined;
+
+    let hours = Number(match[1]);
+    const minutes = Number(match[2] || 0);
+    if (match[3]) {
+      if (hours < 1 || hours > 12) return undefined;
+      hours = (hours % 12) + (match[3] === 'pm' ? 12 : 0);
+    }
+
+    return hours < 24 && minutes < 60 ? `${this.pad(hours)}:${this.pad(minutes)}` : undefined;
+  }
+
+  /**
+   * Whether a year/month/day combination exists (no 2025-02-30)
+   */
+  private static isRealDate(year: number, month: number, day: number): boolean {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  }
+
+  /**
+   * Two-digit form of a number
+   */
+  private static pad(value: number): string {
+    return String(value).padStart(2, '0');
+  }
+
+  /**
+   * Type name with an article, for messages ("an integer", "a string")
+   */
+  private static article(type: string): string {
+    return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * Full natural-language loop: match query → validate → call upstream → answer
+ */
+
+import { Logger } from '../utils/logger';
+import { MCPManifest, MCPEndpoint } from './manifest';
+import { QueryMatcher, QueryMatchResult } from './queryMatcher';
+import { ExecutionResult, PreparedRequest, RequestExecutor } from './requestExecutor';
+import { AnswerGenerator, GroundedAnswer } from './answerGenerator';
+import { SchemaConverter } from './schemaConverter';
+import { SafetyPolicyError } from './safetyPolicy';
+import { ConversationTurn } from './conversationStore';
+import { ClarificationError, ClarificationRequest, ClarificationStore, PendingCall } from './clarification';
+import { ParamValidator, ParamValidationError } from './paramValidator';
+
+export type QueryExecutionStatus =
+  | 'completed'
+  | 'needs_input'
+  | 'invalid_input'
+  | 'no_match'
+  | 'failed'
+  | 'dry_run'
+  | 'confirmation_required'
+  | 'forbidden';
+
+export interface QueryExecutionOptions {
+  /** Confirm a call whose safety level is "confirm" */
+  confirm?: boolean;
+  /** Build the request and return it without sending */
+  dryRun?: boolean;
+  /** Follow pages of a paginated endpoint (default: unless a page is requested) */
+  paginate?: boolean;
+  /** Earlier turns of the conversation, used to resolve follow-up queries */
+  history?: ConversationTurn[];
+  /** Conversation session, kept with a pending call so its answer is remembered too */
+  sessionId?: string;
+}
+
+export interface QueryExecutionResult {
+  success: boolean;
+  status: QueryExecutionStatus;
+  query: string;
+  match?: QueryMatchResult;
+  request?: {
+    method: string;
+    url: string;
+  };
+  response?: {
+    status: number;
+    data: any;
+    headers: Record<string, string>;
+    pagination?: ExecutionResult['pagination'];
+  };
+  /** Request that would be sent (credentials redacted), for dry runs and blocked calls */
+  preview?: PreparedRequest;
+  summary: string;
+  /** Answer to the query grounded in the response, with the fields it cites; summary holds its text */
+  answer?: GroundedAnswer;
+  missing?: string[];
+  /** Values that do not fit the endpoint's schema */
+  errors?: ParamValidationError[];
+  /** Question for the missing or invalid inputs; answer it to continue the call */
+  clarification?: ClarificationRequest;
+  error?: string;
+}
+
+export class QueryExecutor {
+  private manifest: MCPManifest;
+  private queryMatcher: QueryMatcher;
+  private executor: RequestExecutor;
+  private clarifications: ClarificationStore;
+  private answers: AnswerGenerator;
+
+  constructor(
+    manifest: MCPManifest,
+    queryMatcher: QueryMatcher,
+    executor: RequestExecutor,
+    clarifications: ClarificationStore = new ClarificationStore(),
+    answers: AnswerGenerator = new AnswerGenerator(null, executor.getResponseHandler())
+  ) {
+    this.manifest = manifest;
+    this.queryMatcher = queryMatcher;
+    this.executor = executor;
+    this.clarifications = clarifications;
+    this.answers = answers;
+  }
+
+  /**
+   * Match a query, perform the upstream call and answer the query from the response
+   * @param extraParams - Parameters supplied by the caller, merged over the extracted ones
+   */
+  async execute(
+    query: string,
+    extraParams: Record<string, any> = {},
+    options: QueryExecutionOptions = {}
+  ): Promise<QueryExecutionResult> {
+    const match = await this.queryMatcher.matchQuery(query, options.history);
+    const endpoint = this.findEndpoint(match);
+
+    if (!endpoint) {
+      return {
+        success: false,
+        status: 'no_match',
+        query,
+        match,
+        summary: `No matching endpoint was found for this query.${match.guidance ? ` ${match.guidance}` : ''}`,
+      };
+    }
+
+    return this.run(query, match, endpoint, { ...(match.params || {}), ...extraParams }, options);
+  }
+
+  /**
+   * Answer a clarification: merge the answers into the pending call and continue it
+   * The call stays pending while inputs are still missing or it awaits confirmation
+   * @throws ClarificationError when the clarification is unknown or has expired
+   */
+  async answer(
+    clarificationId: string,
+    answers: Record<string, any>,
+    options: QueryExecutionOptions = {}
+  ): Promise<QueryExecutionResult> {
+    const pending = this.clarifications.get(clarificationId);
+    if (!pending) {
+      throw new ClarificationError('Unknown or expired clarification');
+    }
+
+    const endpoint = this.findEndpoint(pending.match);
+    if (!endpoint) {
+      this.clarifications.delete(clarificationId);
+      throw new ClarificationError(`${pending.match.method} ${pending.match.endpoint} is no longer available`);
+    }
+
+    return this.run(
+      pending.query,
+      pending.match,
+      endpoint,
+      { ...pending.params, ...answers },
+      { paginate: pending.paginate, sessionId: pending.sessionId, ...options },
+      clarificationId
+    );
+  }
+
+  /**
+   * Question for the required inputs a matched query lacks or gives invalid values for,
+   * keeping the call pending; undefined when nothing needs asking or no endpoint matched
+   */
+  clarify(query: string, match: QueryMatchResult, options: QueryExecutionOptions = {}): ClarificationRequest | undefined {
+    const endpoint = this.findEndpoint(match);
+    if (!endpoint) return undefined;
+
+    const { params, missing, errors } = this.check(endpoint, match.params || {});
+    if (missing.length === 0 && errors.length === 0) return undefined;
+
+    const id = this.clarifications.create({ query, match, params, paginate: options.paginate, sessionId: options.sessionId });
+    return this.clarifications.request(id, endpoint, this.askFor(missing, errors), errors);
+  }
+
+  /**
+   * Pending call behind a clarification, for callers that record its outcome
+   */
+  getPendingCall(clarificationId: string): PendingCall | undefined {
+    return this.clarifications.get(clarificationId);
+  }
+
+  /**
+   * Validate and perform a matched call
+   * @param clarificationId - Set when continuing a pending call
+   */
+  private async run(
+    query: string,
+    match: QueryMatchResult,
+    endpoint: MCPEndpoint,
+    params: Record<string, any>,
+    options: QueryExecutionOptions,
+    clarificationId?: string
+  ): Promise<QueryExecutionResult> {
+    const checked = this.check(endpoint, params);
+    const { missing, errors } = checked;
+    params = checked.params;
+
+    if (missing.length > 0 || errors.length > 0) {
+      const id =
+        clarificationId && this.clarifications.update(clarificationId, params)
+          ? clarificationId
+          : this.clarifications.create({ query, match, params, paginate: options.paginate, sessionId: options.sessionId });
+
+      return {
+        success: false,
+        status: missing.length > 0 ? 'needs_input' : 'invalid_input',
+        query,
+        match: { ...match, params },
+        ...(missing.length > 0 ? { missing } : {}),
+        ...(errors.length > 0 ? { errors } : {}),
+        clarification: this.clarifications.request(id, endpoint, this.askFor(missing, errors), errors),
+        summary:
+          missing.length > 0
+            ? `More information is needed to call ${endpoint.method} ${endpoint.path}: ${missing.join(', ')}.`
+            : `Some values for ${endpoint.method} ${endpoint.path} are not valid:\n${ParamValidator.describe(errors)}`,
+      };
+    }
+
+    const result = await this.call(query, match, endpoint, params, options);
+
+    // A dry run or a call awaiting confirmation can be sent again under the same clarification
+    if (clarificationId) {
+      if (['dry_run', 'confirmation_required'].includes(result.status)) {
+        this.clarifications.update(clarificationId, params);
+      } else {
+        this.clarifications.delete(clarificationId);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Coerce parameters to the endpoint's schema, separating missing required inputs from invalid values
+   */
+  private check(
+    endpoint: MCPEndpoint,
+    params: Record<string, any>
+  ): { params: Record<string, any>; missing: string[]; errors: ParamValidationError[] } {
+    const validation = ParamValidator.validate(endpoint, params);
+
+    return {
+      params: validation.params,
+      missing: SchemaConverter.findMissingInputs(endpoint, params),
+      // A missing field inside an object counts as an invalid value of that object
+      errors: validation.errors.filter((error) => error.code !== 'missing' || error.path !== error.param),
+    };
+  }
+
+  /**
+   * Inputs a clarification asks for: the missing ones, then those with invalid values
+   */
+  private askFor(missing: string[], errors: ParamValidationError[]): string[] {
+    return [...new Set([...missing, ...errors.map((error) => error.param)])];
+  }
+
+  /**
+   * Send a complete call (or preview it) and answer the query from the result
+   */
+  private async call(
+    query: string,
+    match: QueryMatchResult,
+    endpoint: MCPEndpoint,
+    params: Record<string, any>,
+    options: QueryExecutionOptions
+  ): Promise<QueryExecutionResult> {
+
+    try {
+      if (options.dryRun) {
+        const preview = await this.executor.preview(endpoint, params);
+        const level = this.executor.getSafetyPolicy().levelFor(endpoint.method, endpoint);
+
+        return {
+          success: true,
+          status: 'dry_run',
+          query,
+          match: { ...match, params },
+          preview,
+          summary: `Dry run: would send ${preview.method} ${preview.url} (safety level: ${level}).`,
+        };
+      }
+
+      const result = await this.executor.execute(endpoint, params, {
+        confirmed: options.confirm,
+        paginate: options.paginate,
+      });
+      const answer = await this.answers.answer(query, endpoint, params, result);
+
+      return {
+        success: result.success,
+        status: 'completed',
+        query,
+        match: { ...match, params },
+        request: result.request,
+        response: {
+          status: result.status,
+          data: result.data,
+          headers: result.headers,
+          ...(result.pagination ? { pagination: result.pagination } : {}),
+        },
+        summary: answer.text,
+        answer,
+      };
+    } catch (error) {
+      if (error instanceof SafetyPolicyError) {
+        return {
+          success: false,
+          status: error.decision.reason!,
+          query,
+          match: { ...match, params },
+          preview: error.request,
+          error: error.message,
+          summary:
+            error.decision.reason === 'forbidden'
+              ? `${endpoint.method} ${endpoint.path} is not allowed by the safety policy.`
+              : `${endpoint.method} ${endpoint.path} changes data. Confirm to send it.`,
+        };
+      }
+
+      Logger.error(`Execution of ${endpoint.method} ${endpoint.path} failed`, error as Error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      return {
+        success: false,
+        status: 'failed',
+        query,
+        match: { ...match, params },
+        error: message,
+        summary: `The request to ${endpoint.method} ${endpoint.path} could not be completed: ${message}`,
+      };
+    }
+  }
+
+  /**
+   * Resolve the matched endpoint against the manifest
+   */
+  private findEndpoint(match: QueryMatchResult): MCPEndpoint | undefined {
+    return this.manifest.endpoints.find(
+      (ep) => ep.path === match.endpoint && ep.method === match.method?.toUpperCase()
+    );
+  }
+}
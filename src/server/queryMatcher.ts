@@ -3,10 +3,16 @@
  * Maps natural language queries to API endpoints using AI
  */
 
-import OpenAI from 'openai';
 import * as dotenv from 'dotenv';
 import { Logger } from '../utils/logger';
 import { MCPManifest, MCPEndpoint } from './manifest';
+import { SchemaConverter } from './schemaConverter';
+import { LLMProvider, LLMMessage, parseJsonResponse } from '../llm/llmProvider';
+import { ConversationTurn } from './conversationStore';
+import { ParamValidator, ParamValidationError } from './paramValidator';
+import { DEFAULT_MIN_CONFIDENCE, DEFAULT_TOP_K, EndpointRanker, IDENTIFIED_RESOURCE_PATTERN, MatchingConfig } from './endpointRanker';
+import { tokenize } from '../utils/tokenizer';
+import { EndpointIndex } from './endpointIndex';
 
 // Load environment variables
 dotenv.config();
@@ -16,12 +22,27 @@ export interface ParameterDetail {
   value: any;
   description?: string;
   type?: string;
+  /** "binary" for file fields */
+  format?: string;
   required?: boolean;
   location?: string;
-  source: 'extracted' | 'default' | 'missing' | 'optional';
+  /** "context" when the value was taken from an earlier turn of the conversation */
+  source: 'extracted' | 'default' | 'missing' | 'optional' | 'context';
+}
+
+/**
+ * Endpoint offered when no endpoint matched clearly enough
+ */
+export interface MatchCandidate {
+  endpoint: string;
+  method: string;
+  description?: string;
+  score: number;
+  confidence: number;
 }
 
 export interface QueryMatchResult {
+  /** Empty when no endpoint matched (see candidates) */
   endpoint: string;
   method: string;
   params?: Record<string, any>;
@@ -34,6 +55,14 @@ export interface QueryMatchResult {
   parameterDetails?: ParameterDetail[];
   expectedResponse?: string;
   apiName?: string;
+  /** Media type of the request body when it is not JSON (form or multipart) */
+  requestContentType?: string;
+  /** Parameters whose values were taken from earlier turns of the conversation */
+  contextParams?: string[];
+  /** Values that still do not fit the endpoint's schema after coercion (missing values are reported in missingInfo) */
+  validationErrors?: ParamValidationError[];
+  /** Best-ranked endpoints when keyword matching found no clear match */
+  candidates?: MatchCandidate[];
   
   missingInfo?: {
     requiredParams: string[];
@@ -45,39 +74,45 @@ export interface QueryMatchResult {
 }
 
 export class QueryMatcher {
-  private openai: OpenAI | null = null;
+  private llm: LLMProvider | null;
   private manifest: MCPManifest;
-  private modelName: string;
+  private ranker: EndpointRanker;
+  private minConfidence: number;
+  private topK: number;
+  private index?: EndpointIndex;
 
-  constructor(manifest: MCPManifest, openaiApiKey?: string | null, modelName?: string) {
+  /**
+   * @param index - Embedding index; with large manifests only the endpoints it retrieves are sent to the LLM
+   */
+  constructor(manifest: MCPManifest, llm?: LLMProvider | null, matching: MatchingConfig = {}, index?: EndpointIndex) {
     this.manifest = manifest;
-    this.modelName = modelName || 'gpt-4o-mini';
-
-    // Initialize OpenAI client if API key is available
-    const apiKey = openaiApiKey || process.env.OPENAI_API_KEY;
-    if (apiKey) {
-      this.openai = new OpenAI({
-        apiKey: apiKey,
-      });
-      Logger.info(`OpenAI client initialized for AI-powered query matching (model: ${this.modelName})`);
+    this.llm = llm || null;
+    this.index = index;
+    this.ranker = new EndpointRanker(manifest.endpoints, matching);
+    this.minConfidence = matching.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+    this.topK = matching.topK ?? DEFAULT_TOP_K;
+
+    if (this.llm) {
+      Logger.info(`AI-powered query matching enabled (${this.llm.name}, model: ${this.llm.model})`);
     } else {
-      Logger.warn('OpenAI API key not found in config or environment variables');
+      Logger.warn('No LLM provider configured');
       Logger.info('Query matching will use fallback logic instead of AI');
     }
   }
 
   /**
    * Match a natural language query to an API endpoint
+   * @param history - Earlier turns of the conversation, oldest first, used to resolve follow-ups
    */
-  async matchQuery(query: string): Promise<QueryMatchResult> {
+  async matchQuery(query: string, history: ConversationTurn[] = []): Promise<QueryMatchResult> {
     try {
-      Logger.info(`Matching query: "${query}"`);
+      Logger.info(`Matching query: "${query}"${history.length > 0 ? ` (${history.length} earlier turns)` : ''}`);
 
-      // Use OpenAI if available, otherwise use fallback
-      if (this.openai) {
-        return await this.matchWithOpenAI(query);
+      // Use the LLM if available, otherwise use fallback
+      if (this.llm) {
+        return await this.matchWithLLM(query, history);
       } else {
-        return this.matchWithFallback(query);
+        return this.matchWithFallback(query, history);
       }
     } catch (error) {
       Logger.error('Failed to match query', error as Error);
@@ -86,25 +121,26 @@ export class QueryMatcher {
   }
 
   /**
-   * Match query using OpenAI with flexible model support
+   * Match query using the configured LLM provider
    */
-  private async matchWithOpenAI(query: string): Promise<QueryMatchResult> {
-    if (!this.openai) {
-      throw new Error('OpenAI client not initialized');
+  private async matchWithLLM(query: string, history: ConversationTurn[]): Promise<QueryMatchResult> {
+    if (!this.llm) {
+      throw new Error('LLM provider not initialized');
     }
 
     try {
       // Build rich context from manifest with full documentation
-      const endpointsContext = this.buildRichEndpointsContext();
+      const endpoints = await this.retrieveEndpoints(query, history);
+      const endpointsContext = this.buildRichEndpointsContext(endpoints);
       const apiContext = this.buildAPIContext();
 
       const systemPrompt = `You are an expert API assistant for ${this.manifest.name}.
 
 ${apiContext}
 
-Available Endpoints:
+Available Endpoints${endpoints.length < this.manifest.endpoints.length ? ` (the ${endpoints.length} most relevant of ${this.manifest.endpoints.length})` : ''}:
 ${endpointsContext}
-
+${history.length > 0 ? `\n${this.buildConversationContext(history)}\n` : ''}
 CRITICAL INSTRUCTIONS:
 
 1. **EXTRACT ALL PARAMETER VALUES** from the user's query, whether they use:
@@ -161,6 +197,7 @@ CRITICAL INSTRUCTIONS:
      - requiredParams: Array of missing parameter names
      - suggestions: Helpful suggestions for each missing param
      - exampleQuery: Complete example with all required info
+   - contextParams: ONLY if values were taken from the conversation so far: array of those parameter names
 
 **TYPE-AWARE EXTRACTION EXAMPLES**:
 
@@ -187,102 +224,157 @@ Extract: {
 Be extremely thorough in extraction and **ALWAYS USE CORRECT JSON TYPES** based on the parameter type in the documentation.`;
 
 
-      Logger.info(`Calling ${this.modelName} for query matching...`);
+      Logger.info(`Calling ${this.llm.model} for query matching...`);
 
-      const response = await this.openai.chat.completions.create({
-        model: this.modelName,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: query }
-        ],
-        response_format: { type: 'json_object' },
+      const messages: LLMMessage[] = [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: query }
+      ];
+      const content = await this.llm.complete({
+        messages,
+        json: true,
         temperature: 0.3,
       });
 
-      const result = JSON.parse(response.choices[0].message.content || '{}');
+      let result = parseJsonResponse(content);
+
+      // Values that cannot be coerced to the documented types get one repair attempt
+      const invalid = this.invalidParams(result);
+      if (invalid.length > 0) {
+        result = await this.repairParams(messages, content, invalid, result);
+      }
       
       // Enrich result with manifest data
       return this.enrichResult(result, query);
     } catch (error) {
       Logger.error('LLM matching failed, falling back to keyword matching', error as Error);
-      return this.matchWithFallback(query);
+      return this.matchWithFallback(query, history);
     }
   }
 
   /**
-   * Simple fallback matching without AI
-   * Uses keyword matching and basic heuristics
+   * Endpoints to describe in the matching prompt, in manifest order
+   * With an embedding index and a large manifest: the endpoints most similar to the query,
+   * the best keyword matches, and those on the resource of the previous turn
+   * Also used to pick the endpoints described to the query planner
    */
-  private matchWithFallback(query: string): QueryMatchResult {
-    Logger.info('Using fallback keyword matching');
-
-    const queryLower = query.toLowerCase();
-
-    // Extract potential HTTP method from query
-    const methodKeywords: Record<string, string[]> = {
-      GET: ['get', 'fetch', 'retrieve', 'list', 'show', 'find', 'search'],
-      POST: ['create', 'add', 'post', 'new', 'insert'],
-      PUT: ['update', 'modify', 'edit', 'change', 'replace'],
-      DELETE: ['delete', 'remove', 'destroy'],
-      PATCH: ['patch', 'partial update'],
-    };
+  async retrieveEndpoints(query: string, history: ConversationTurn[] = []): Promise<MCPEndpoint[]> {
+    const endpoints = this.manifest.endpoints;
+    if (!this.index?.isReady() || endpoints.length < this.index.minEndpoints) {
+      return endpoints;
+    }
 
-    let matchedMethod = 'GET'; // Default
-    for (const [method, keywords] of Object.entries(methodKeywords)) {
-      if (keywords.some((keyword) => queryLower.includes(keyword))) {
-        matchedMethod = method;
-        break;
-      }
+    try {
+      const retrieved = await this.index.search(query);
+      const keys = new Set(retrieved.map(({ endpoint }) => `${endpoint.method} ${endpoint.path}`));
+
+      this.ranker
+        .rank(query)
+        .filter((entry) => entry.confidence > 0)
+        .slice(0, this.topK)
+        .forEach(({ endpoint }) => keys.add(`${endpoint.method} ${endpoint.path}`));
+
+      const previous = history[history.length - 1]?.endpoint;
+      const previousResource = previous ? this.resourceOf(previous) : undefined;
+
+      const selected = endpoints.filter(
+        (endpoint) =>
+          keys.has(`${endpoint.method} ${endpoint.path}`) ||
+          (previousResource !== undefined && this.resourceOf(endpoint.path) === previousResource)
+      );
+      Logger.info(`Retrieved ${selected.length} of ${endpoints.length} endpoints for the prompt`);
+
+      return selected.length > 0 ? selected : endpoints;
+    } catch (error) {
+      Logger.warn(`Endpoint retrieval failed, describing all endpoints: ${(error as Error).message}`);
+      return endpoints;
     }
+  }
 
-    // Try to match endpoint based on keywords in path/description
-    let bestMatch: MCPEndpoint | null = null;
-    let maxScore = 0;
+  /**
+   * Parameter values of an LLM result that do not fit the matched endpoint's schema
+   */
+  private invalidParams(llmResult: any): ParamValidationError[] {
+    const endpoint = this.findResultEndpoint(llmResult);
+    if (!endpoint) return [];
 
-    for (const endpoint of this.manifest.endpoints) {
-      let score = 0;
+    return ParamValidator.validate(endpoint, llmResult.params || {}).errors.filter((error) => error.code !== 'missing');
+  }
 
-      // Match method
-      if (endpoint.method === matchedMethod) {
-        score += 5;
-      }
+  /**
+   * Manifest endpoint an LLM result names; models may write the method in lower case
+   */
+  private findResultEndpoint(llmResult: any): MCPEndpoint | undefined {
+    const method = String(llmResult?.method || '').toUpperCase();
+    return this.manifest.endpoints.find((ep) => ep.path === llmResult?.endpoint && ep.method.toUpperCase() === method);
+  }
 
-      // Match path keywords
-      const pathKeywords = endpoint.path
-        .split('/')
-        .filter((part) => part && !part.startsWith('{'));
+  /**
+   * Ask the LLM once to correct invalid parameter values, keeping the original result if that fails
+   */
+  private async repairParams(
+    messages: LLMMessage[],
+    content: string,
+    errors: ParamValidationError[],
+    llmResult: any
+  ): Promise<any> {
+    Logger.info(`Asking ${this.llm!.model} to correct ${errors.length} invalid parameter value(s)`);
 
-      for (const keyword of pathKeywords) {
-        if (queryLower.includes(keyword.toLowerCase())) {
-          score += 3;
-        }
-      }
+    try {
+      const repaired = await this.llm!.complete({
+        messages: [
+          ...messages,
+          { role: 'assistant', content },
+          {
+            role: 'user',
+            content: `Some parameter values do not fit the API documentation:
+${ParamValidator.describe(errors)}
+
+Return the same JSON object with corrected params. Use the documented types, formats and allowed values. Leave a parameter out rather than guess when the query does not give a valid value for it.`,
+          },
+        ],
+        json: true,
+        temperature: 0,
+      });
 
-      // Match description
-      if (endpoint.description) {
-        const descWords = endpoint.description.toLowerCase().split(/\s+/);
-        for (const word of descWords) {
-          if (queryLower.includes(word) && word.length > 3) {
-            score += 1;
-          }
-        }
-      }
+      return parseJsonResponse(repaired);
+    } catch (error) {
+      Logger.warn(`Parameter repair failed: ${(error as Error).message}`);
+      return llmResult;
+    }
+  }
 
-      if (score > maxScore) {
-        maxScore = score;
-        bestMatch = endpoint;
-      }
+  /**
+   * Offline matching without AI
+   * Ranks endpoints with BM25 (see EndpointRanker); follow-ups reuse values from earlier turns.
+   * Below the confidence threshold no endpoint is chosen and the top candidates are returned
+   */
+  private matchWithFallback(query: string, history: ConversationTurn[] = []): QueryMatchResult {
+    Logger.info('Using offline keyword matching');
+
+    // Follow-ups ("now cancel it") most likely stay with the previous resource
+    const previous = history[history.length - 1];
+    const refersBack = /\b(it|its|that|this|them|they|those|these|same|again)\b/.test(query.toLowerCase());
+    const previousResource = refersBack && previous?.endpoint ? this.resourceOf(previous.endpoint) : undefined;
+    const onPreviousResource = (endpoint: MCPEndpoint) =>
+      previousResource !== undefined && this.resourceOf(endpoint.path) === previousResource;
+
+    const ranked = this.ranker
+      .rank(query)
+      .map((entry) => ({ ...entry, score: entry.score + (onPreviousResource(entry.endpoint) ? 2 : 0) }))
+      .sort((a, b) => b.score - a.score);
+    const best = ranked[0];
+
+    if (!best || (best.confidence < this.minConfidence && !onPreviousResource(best.endpoint))) {
+      Logger.warn(`No endpoint matched clearly (best confidence: ${best?.confidence ?? 0})`);
+      return this.noMatch(query, ranked);
     }
 
+    const bestMatch = best.endpoint;
+
     // Extract potential parameters from query
     const params = this.extractParametersFromQuery(query, bestMatch);
 
-    if (!bestMatch) {
-      // No good match found, return first endpoint as fallback
-      bestMatch = this.manifest.endpoints[0];
-      Logger.warn('No strong match found, returning first endpoint');
-    }
-
     // For POST/PUT/PATCH requests, also extract request body fields
     if (['POST', 'PUT', 'PATCH'].includes(bestMatch.method)) {
       const bodyFields = this.extractRequestBodyFields(query, bestMatch);
@@ -290,8 +382,16 @@ Be extremely thorough in extraction and **ALWAYS USE CORRECT JSON TYPES** based
       Object.assign(params, bodyFields);
     }
 
+    // Values the query leaves out may come from earlier turns
+    const contextParams = this.fillFromHistory(params, bestMatch, history);
+
+    // Extracted text becomes typed values ("42" → 42); what cannot be converted is reported
+    const validation = ParamValidator.validate(bestMatch, params);
+    Object.assign(params, validation.params);
+    const validationErrors = validation.errors.filter((error) => error.code !== 'missing');
+
     // Check for missing required information
-    const missingInfo = this.analyzeMissingInformation(query, bestMatch, params);
+    const missingInfo = this.analyzeMissingInformation(bestMatch, params);
 
     // Build rich response even for fallback
     const summary = this.generateFallbackSummary(
@@ -303,18 +403,50 @@ Be extremely thorough in extraction and **ALWAYS USE CORRECT JSON TYPES** based
       endpoint: bestMatch.path,
       method: bestMatch.method,
       params,
-      confidence: maxScore / 10, // Normalize to 0-1
-      reasoning: `Matched based on keywords (score: ${maxScore})`,
+      confidence: best.confidence,
+      reasoning: `Ranked first by keyword relevance (score: ${best.score})`,
       summary,
       apiName: this.manifest.name,
       endpointDescription: bestMatch.description,
-      parameterDetails: this.buildParameterDetails(params, bestMatch),
-      expectedResponse: 'API response will be returned after execution',
+      parameterDetails: this.buildParameterDetails(params, bestMatch, contextParams),
+      expectedResponse: this.describeExpectedResponse(bestMatch),
+      requestContentType: bestMatch.requestBody?.contentType,
+      ...(contextParams.length > 0 ? { contextParams } : {}),
+      ...(validationErrors.length > 0 ? { validationErrors } : {}),
       missingInfo,
       guidance: missingInfo ? this.generateGuidance(missingInfo, bestMatch) : undefined,
     };
   }
 
+  /**
+   * Result for a query no endpoint matches clearly, listing the best-ranked endpoints
+   */
+  private noMatch(query: string, ranked: Array<{ endpoint: MCPEndpoint; score: number; confidence: number }>): QueryMatchResult {
+    // Endpoints that share no word with the query (only a method bonus) are not worth offering
+    const candidates: MatchCandidate[] = ranked.filter((entry) => entry.confidence > 0).slice(0, this.topK).map(({ endpoint, score, confidence }) => ({
+      endpoint: endpoint.path,
+      method: endpoint.method,
+      ...(endpoint.description ? { description: endpoint.description } : {}),
+      score,
+      confidence,
+    }));
+
+    return {
+      endpoint: '',
+      method: '',
+      params: {},
+      confidence: ranked[0]?.confidence ?? 0,
+      reasoning: `No endpoint reached the confidence threshold of ${this.minConfidence}`,
+      summary: `No endpoint clearly matches "${query}".`,
+      apiName: this.manifest.name,
+      candidates,
+      guidance:
+        candidates.length > 0
+          ? `Did you mean one of these? ${candidates.map((candidate) => `${candidate.method} ${candidate.endpoint}`).join(', ')}`
+          : 'Try naming the resource you are interested in, as it appears in the API.',
+    };
+  }
+
   /**
    * Extract parameters from natural language query
    */
@@ -349,9 +481,101 @@ Be extremely thorough in extraction and **ALWAYS USE CORRECT JSON TYPES** based
       }
     }
 
+    // "pet 42" gives the petId of /pets/{petId}
+    const segments = endpoint.path.split('/').filter(Boolean);
+    segments.forEach((segment, i) => {
+      const name = segment.match(/^\{(.+)\}$/)?.[1];
+      const resource = i > 0 ? tokenize(segments[i - 1]).pop() : undefined;
+      if (!name || !resource || params[name] !== undefined) return;
+
+      for (const match of query.matchAll(IDENTIFIED_RESOURCE_PATTERN)) {
+        if (tokenize(match[1])[0] === resource) {
+          params[name] = match[2];
+          break;
+        }
+      }
+    });
+
     return params;
   }
 
+  /**
+   * Fill path and required parameters the query did not give from earlier turns, newest first
+   * A generic "id" is only reused from turns about the same resource
+   * @returns Names of the parameters that were filled
+   */
+  private fillFromHistory(params: Record<string, any>, endpoint: MCPEndpoint, history: ConversationTurn[]): string[] {
+    const filled: string[] = [];
+    if (history.length === 0) return filled;
+
+    const resource = this.resourceOf(endpoint.path);
+    const names = [
+      ...(endpoint.parameters || [])
+        .filter((param) => param.required || endpoint.path.includes(`{${param.name}}`))
+        .map((param) => param.name),
+      ...(endpoint.requestBody?.requiredFields || []),
+    ];
+
+    for (const name of names) {
+      if (params[name] !== undefined && params[name] !== '') continue;
+
+      for (const turn of [...history].reverse()) {
+        const sameResource = turn.endpoint !== undefined && this.resourceOf(turn.endpoint) === resource;
+        let value: any;
+
+        if (name.toLowerCase() === 'id') {
+          value = sameResource ? turn.params?.id ?? turn.values?.id : undefined;
+        } else {
+          // booking_id / bookingId also match the id of an earlier booking
+          const prefix = name.replace(/[_-]?id$/i, '').toLowerCase();
+          const aboutPrefix = prefix !== name.toLowerCase() && turn.endpoint !== undefined &&
+            this.resourceOf(turn.endpoint).toLowerCase().startsWith(prefix);
+          value = turn.params?.[name] ?? turn.values?.[name] ??
+            (aboutPrefix ? turn.params?.id ?? turn.values?.id : undefined);
+        }
+
+        if (value !== undefined) {
+          params[name] = value;
+          filled.push(name);
+          break;
+        }
+      }
+    }
+
+    return filled;
+  }
+
+  /**
+   * Resource a path is about: the segment before its first parameter, else its last segment
+   * e.g. /v1/bookings/{id}/cancel → bookings
+   */
+  private resourceOf(path: string): string {
+    const parts = path.split('/').filter(Boolean);
+    const firstParam = parts.findIndex((part) => part.startsWith('{'));
+    const statics = (firstParam === -1 ? parts : parts.slice(0, firstParam)).filter((part) => !part.startsWith('{'));
+    return statics[statics.length - 1] || '';
+  }
+
+  /**
+   * Earlier turns of the conversation for the AI prompt
+   */
+  private buildConversationContext(history: ConversationTurn[]): string {
+    const turns = history
+      .map((turn, idx) => {
+        const call = turn.endpoint
+          ? ` → ${turn.method} ${turn.endpoint}${turn.params && Object.keys(turn.params).length > 0 ? ` with ${JSON.stringify(turn.params)}` : ''}`
+          : '';
+        const response = turn.response !== undefined ? `\n   Response${turn.status ? ` (HTTP ${turn.status})` : ''}: ${turn.response}` : '';
+        return `${idx + 1}. "${turn.query}"${call}${response}`;
+      })
+      .join('\n');
+
+    return `Conversation So Far (oldest first):
+${turns}
+
+The query may follow up on this conversation. When it refers to earlier requests or results ("it", "that booking", "the same garage", "them"), take the parameter values from the calls and responses above.`;
+  }
+
   /**
    * Build context string from endpoints for AI prompt
    */
@@ -382,8 +606,8 @@ Version: ${this.manifest.version}`;
   /**
    * Build rich endpoints context with full documentation and type information
    */
-  private buildRichEndpointsContext(): string {
-    return this.manifest.endpoints
+  private buildRichEndpointsContext(endpoints: MCPEndpoint[] = this.manifest.endpoints): string {
+    return endpoints
       .map((endpoint, idx) => {
         const params =
           endpoint.parameters
@@ -402,19 +626,39 @@ Version: ${this.manifest.version}`;
             .map((propName) => {
               const prop = endpoint.requestBody!.properties![propName];
               const isRequired = endpoint.requestBody!.requiredFields?.includes(propName);
+              if (prop.format === 'binary') {
+                return `  - ${propName} (file, ${isRequired ? 'required' : 'optional'})${
+                  prop.description ? `\n    Description: ${prop.description}` : ''
+                }\n    Type: file\n    Example: "data:text/plain;base64,SGVsbG8=" or {"path": "./report.pdf"}`;
+              }
               return `  - ${propName} (${prop.type}, ${isRequired ? 'required' : 'optional'})${
                 prop.description ? `\n    Description: ${prop.description}` : ''
               }${this._getTypeExample(prop.type, propName)}`;
             })
             .join('\n');
 
-          requestBodyInfo = `\n   Request Body Fields:\n${bodyProps}`;
+          const contentType = endpoint.requestBody.contentType;
+          requestBodyInfo = `\n   Request Body Fields${contentType ? ` (sent as ${contentType})` : ''}:\n${bodyProps}`;
         }
 
-        return `${idx + 1}. ${endpoint.method} ${endpoint.path}
+        // Polymorphic bodies: list each alternative's shape
+        const bodySchema = endpoint.requestBody?.schema;
+        const variants = bodySchema?.oneOf || bodySchema?.anyOf;
+        if (Array.isArray(variants)) {
+          const discriminator = bodySchema.discriminator?.propertyName;
+          requestBodyInfo += `\n   Request Body Variants (${bodySchema.oneOf ? 'exactly one' : 'one or more'}${
+            discriminator ? `, selected by "${discriminator}"` : ''
+          }):\n${variants
+            .map((variant: any, i: number) => `  - ${variant.title || `Option ${i + 1}`}: ${SchemaConverter.outline(variant)}`)
+            .join('\n')}`;
+        }
+
+        return `${idx + 1}. ${endpoint.method} ${endpoint.path}${endpoint.deprecated ? ' (deprecated)' : ''}
    Description: ${endpoint.description || 'No description available'}
    Parameters:
-${params}${requestBodyInfo}${endpoint.response ? `\n   Expected Response: ${JSON.stringify(endpoint.response)}` : ''}`;
+${params}${requestBodyInfo}${endpoint.response ? `\n   Expected Response: ${SchemaConverter.outline(endpoint.response)}` : ''}${
+          endpoint.pagination ? `\n   Paginated (${endpoint.pagination.style}): all pages are fetched unless a page is given` : ''
+        }`;
       })
       .join('\n\n');
   }
@@ -475,38 +719,51 @@ ${params}${requestBodyInfo}${endpoint.response ? `\n   Expected Response: ${JSON
    * Enrich LLM result with manifest data
    */
   private enrichResult(llmResult: any, originalQuery: string): QueryMatchResult {
-    const matchedEndpoint = this.manifest.endpoints.find(
-      (ep) => ep.path === llmResult.endpoint && ep.method === llmResult.method
-    );
+    const matchedEndpoint = this.findResultEndpoint(llmResult);
+
+    const contextParams: string[] = Array.isArray(llmResult.contextParams)
+      ? llmResult.contextParams.filter((name: unknown) => typeof name === 'string')
+      : [];
+
+    const validation = matchedEndpoint ? ParamValidator.validate(matchedEndpoint, llmResult.params || {}) : undefined;
+    const params = validation ? validation.params : llmResult.params || {};
+    const validationErrors = validation?.errors.filter((error) => error.code !== 'missing') || [];
 
     return {
       ...llmResult,
+      method: matchedEndpoint?.method || llmResult.method,
+      params,
+      contextParams: contextParams.length > 0 ? contextParams : undefined,
+      validationErrors: validationErrors.length > 0 ? validationErrors : undefined,
       apiName: this.manifest.name,
       endpointDescription: matchedEndpoint?.description,
       summary: llmResult.summary || this.generateFallbackSummary(llmResult, originalQuery),
-      parameterDetails: this.buildParameterDetails(llmResult.params || {}, matchedEndpoint),
-      expectedResponse: llmResult.expectedResponse || 'API response will be returned after execution',
+      parameterDetails: this.buildParameterDetails(params, matchedEndpoint, contextParams),
+      expectedResponse: llmResult.expectedResponse || this.describeExpectedResponse(matchedEndpoint),
+      requestContentType: matchedEndpoint?.requestBody?.contentType,
     };
   }
 
   /**
    * Build detailed parameter information
+   * Request body fields are listed after the parameters, with location "body"
    */
   private buildParameterDetails(
     extractedParams: Record<string, any>,
-    endpoint?: MCPEndpoint
+    endpoint?: MCPEndpoint,
+    contextParams: string[] = []
   ): ParameterDetail[] {
-    if (!endpoint?.parameters) return [];
+    if (!endpoint) return [];
 
-    return endpoint.parameters.map((param) => {
+    const details: ParameterDetail[] = (endpoint.parameters || []).map((param) => {
       const hasValue = param.name in extractedParams;
 
-      // For parameters without explicit location, infer based on method
+      // For parameters without explicit location, infer from the request body and method
       let location = param.location;
       if (!location) {
         if (endpoint.path.includes(`{${param.name}}`)) {
           location = 'path';
-        } else if (['POST', 'PUT', 'PATCH'].includes(endpoint.method)) {
+        } else if (endpoint.requestBody || !['GET', 'HEAD', 'DELETE'].includes(endpoint.method)) {
           location = 'body';
         } else {
           location = 'query';
@@ -520,9 +777,29 @@ ${params}${requestBodyInfo}${endpoint.response ? `\n   Expected Response: ${JSON
         type: param.type,
         required: param.required,
         location: location,
-        source: hasValue ? 'extracted' : param.required ? 'missing' : 'optional',
+        source: hasValue ? (contextParams.includes(param.name) ? 'context' : 'extracted') : param.required ? 'missing' : 'optional',
       };
     });
+
+    for (const [name, prop] of Object.entries(endpoint.requestBody?.properties || {})) {
+      if (details.some((detail) => detail.name === name)) continue;
+
+      const hasValue = name in extractedParams;
+      const required = endpoint.requestBody?.requiredFields?.includes(name) || false;
+
+      details.push({
+        name,
+        value: hasValue ? extractedParams[name] : undefined,
+        description: prop.description,
+        type: prop.type,
+        ...(prop.format ? { format: prop.format } : {}),
+        required,
+        location: 'body',
+        source: hasValue ? (contextParams.includes(name) ? 'context' : 'extracted') : required ? 'missing' : 'optional',
+      });
+    }
+
+    return details;
   }
 
   /**
@@ -545,11 +822,36 @@ ${params}${requestBodyInfo}${endpoint.response ? `\n   Expected Response: ${JSON
     return `${action} ${resource} based on your request`;
   }
 
+  /**
+   * What the documented success response contains, e.g. "A list of pets (id, name, status)"
+   * The answer itself is written from the actual response once the call is made
+   */
+  private describeExpectedResponse(endpoint?: MCPEndpoint): string | undefined {
+    const schema = endpoint?.response;
+    if (!endpoint || !schema) return undefined;
+
+    const resource = endpoint.path.split('/').filter((part) => part && !part.startsWith('{')).pop() || 'resource';
+    const fieldsOf = (object: any) => {
+      const names = Object.keys(object?.properties || {});
+      return names.length > 0 ? ` (${names.slice(0, 6).join(', ')}${names.length > 6 ? ', …' : ''})` : '';
+    };
+
+    if (schema.type === 'array' || schema.items) {
+      return `A list of ${resource}${fieldsOf(schema.items)}`;
+    }
+
+    const listKey = Object.keys(schema.properties || {}).find((name) => schema.properties[name]?.type === 'array');
+    if (listKey && endpoint.method === 'GET' && !endpoint.path.endsWith('}')) {
+      return `A list of ${resource} in "${listKey}"${fieldsOf(schema.properties[listKey].items)}`;
+    }
+
+    return schema.properties ? `A ${resource} object${fieldsOf(schema)}` : undefined;
+  }
+
   /**
    * Analyze missing required information for an endpoint
    */
   private analyzeMissingInformation(
-    query: string,
     endpoint: MCPEndpoint,
     extractedParams: Record<string, any>
   ): { requiredParams: string[]; suggestions: string[]; exampleQuery: string; requestBodyFields?: string[] } | undefined {
@@ -569,9 +871,9 @@ ${params}${requestBodyInfo}${endpoint.response ? `\n   Expected Response: ${JSON
     }
 
     // For POST/PUT/PATCH requests, check for missing request body fields
+    // (the extracted params include body fields from the query and from earlier turns)
     if (['POST', 'PUT', 'PATCH'].includes(endpoint.method)) {
-      const bodyFields = this.extractRequestBodyFields(query, endpoint);
-      const missingBodyFields = this.analyzeMissingRequestBodyFields(endpoint, bodyFields);
+      const missingBodyFields = this.analyzeMissingRequestBodyFields(endpoint, extractedParams);
       
       if (missingBodyFields.length > 0) {
         missingInfo.push(...missingBodyFields);
@@ -0,0 +1,509 @@
+/**
+ * Multi-step query planning: turn one request into a short chain of endpoint
+ * calls, where later steps use values taken from earlier responses
+ *
+ * Parameter values may reference earlier steps with {{<stepId>.<path>}}, e.g.
+ * {{s1[max:created_at].id}}. A value that is exactly one reference keeps the
+ * referenced type; references inside longer strings are interpolated.
+ */
+
+import { Logger } from '../utils/logger';
+import { getValueAtPath, parseValuePath } from '../utils/valuePath';
+import { LLMProvider, parseJsonResponse } from '../llm/llmProvider';
+import { MCPManifest, MCPEndpoint, SafetyLevel } from './manifest';
+import { QueryMatcher } from './queryMatcher';
+import { PreparedRequest, RequestExecutor } from './requestExecutor';
+import { ResponseSummarizer } from './responseSummarizer';
+import { SchemaConverter } from './schemaConverter';
+import { ParamValidator, ParamValidationError } from './paramValidator';
+
+export const DEFAULT_MAX_PLAN_STEPS = 5;
+
+const REFERENCE_SOURCE = '\\{\\{\\s*([A-Za-z_][\\w-]*)((?:\\.|\\[)[^}]*)?\\s*\\}\\}';
+const REFERENCE_PATTERN = new RegExp(REFERENCE_SOURCE, 'g');
+const WHOLE_REFERENCE_PATTERN = new RegExp(`^${REFERENCE_SOURCE}$`);
+
+export interface PlanStep {
+  id: string;
+  endpoint: string;
+  method: string;
+  params: Record<string, any>;
+  description?: string;
+}
+
+export interface QueryPlan {
+  query: string;
+  steps: PlanStep[];
+  reasoning?: string;
+}
+
+export type PlanStepStatus =
+  | 'completed'
+  | 'needs_input'
+  | 'invalid_input'
+  | 'failed'
+  | 'skipped'
+  | 'dry_run'
+  | 'confirmation_required'
+  | 'forbidden';
+
+export interface PlanStepResult {
+  id: string;
+  status: PlanStepStatus;
+  endpoint: string;
+  method: string;
+  safety?: SafetyLevel;
+  params?: Record<string, any>;
+  /** Request that would be sent (credentials redacted); dry runs only */
+  preview?: PreparedRequest;
+  request?: {
+    method: string;
+    url: string;
+  };
+  response?: {
+    status: number;
+    data: any;
+  };
+  missing?: string[];
+  /** Values that do not fit the endpoint's schema */
+  errors?: ParamValidationError[];
+  error?: string;
+  summary: string;
+}
+
+export interface PlanExecutionResult {
+  success: boolean;
+  status: 'completed' | 'needs_input' | 'invalid_input' | 'failed' | 'dry_run' | 'confirmation_required' | 'forbidden';
+  query: string;
+  steps: PlanStepResult[];
+  summary: string;
+}
+
+export interface PlanExecutionOptions {
+  /** Confirm every step whose safety level is "confirm" */
+  confirm?: boolean;
+  /** Build the requests and return them without sending anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Raised when a plan is malformed, too long or refers to unknown endpoints
+ */
+export class PlanValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid plan: ${problems.join('; ')}`);
+    this.name = 'PlanValidationError';
+  }
+}
+
+export class QueryPlanner {
+  private manifest: MCPManifest;
+  private queryMatcher: QueryMatcher;
+  private executor: RequestExecutor;
+  private llm: LLMProvider | null;
+  private maxSteps: number;
+
+  constructor(
+    manifest: MCPManifest,
+    queryMatcher: QueryMatcher,
+    executor: RequestExecutor,
+    llm: LLMProvider | null,
+    maxSteps: number = DEFAULT_MAX_PLAN_STEPS
+  ) {
+    this.manifest = manifest;
+    this.queryMatcher = queryMatcher;
+    this.executor = executor;
+    this.llm = llm;
+    this.maxSteps = maxSteps;
+  }
+
+  /**
+   * Produce a plan for a query without running it
+   * Without an LLM the plan is the single best-matching endpoint
+   */
+  async plan(query: string): Promise<QueryPlan> {
+    if (!this.llm) {
+      const match = await this.queryMatcher.matchQuery(query);
+      const plan: QueryPlan = {
+        query,
+        steps: match.endpoint
+          ? [{ id: 's1', endpoint: match.endpoint, method: match.method, params: match.params || {}, description: match.summary }]
+          : [],
+        reasoning: 'No LLM configured; planned a single call from keyword matching',
+      };
+      this.validate(plan);
+      return plan;
+    }
+
+    Logger.info(`Planning multi-step query with ${this.llm.model}...`);
+
+    const content = await this.llm.complete({
+      messages: [
+        { role: 'system', content: this.buildPlanningPrompt(await this.queryMatcher.retrieveEndpoints(query)) },
+        { role: 'user', content: query },
+      ],
+      json: true,
+      temperature: 0.2,
+    });
+
+    const raw = parseJsonResponse(content);
+    const plan: QueryPlan = {
+      query,
+      steps: (Array.isArray(raw.steps) ? raw.steps : []).map((step: any, index: number) => ({
+        id: String(step.id || `s${index + 1}`),
+        endpoint: String(step.endpoint || ''),
+        method: String(step.method || 'GET').toUpperCase(),
+        params: step.params && typeof step.params === 'object' ? step.params : {},
+        ...(step.description ? { description: String(step.description) } : {}),
+      })),
+      ...(raw.reasoning ? { reasoning: String(raw.reasoning) } : {}),
+    };
+
+    this.validate(plan);
+    Logger.info(`Planned ${plan.steps.length} step(s)`);
+
+    return plan;
+  }
+
+  /**
+   * Check a plan before it is shown or run
+   * @throws PlanValidationError
+   */
+  validate(plan: QueryPlan): void {
+    const problems: string[] = [];
+    const steps = Array.isArray(plan?.steps) ? plan.steps : [];
+
+    if (steps.length === 0) {
+      problems.push('the plan has no steps');
+    }
+    if (steps.length > this.maxSteps) {
+      problems.push(`the plan has ${steps.length} steps, the limit is ${this.maxSteps}`);
+    }
+
+    const seen = new Set<string>();
+
+    steps.forEach((step, index) => {
+      const label = step?.id || `#${index + 1}`;
+
+      if (!step?.id) {
+        problems.push(`step ${label} has no id`);
+      } else if (seen.has(step.id)) {
+        problems.push(`step id "${step.id}" is used more than once`);
+      }
+
+      if (!this.findEndpoint(step?.method, step?.endpoint)) {
+        problems.push(`step ${label} uses unknown endpoint ${step?.method} ${step?.endpoint}`);
+      }
+
+      for (const reference of this.collectReferences(step?.params || {})) {
+        if (!seen.has(reference.stepId)) {
+          problems.push(`step ${label} refers to "${reference.stepId}", which is not an earlier step`);
+        } else if (reference.path && !parseValuePath(reference.path.replace(/^\./, ''))) {
+          problems.push(`step ${label} has an invalid reference path "${reference.path}"`);
+        }
+      }
+
+      if (step?.id) seen.add(step.id);
+    });
+
+    if (problems.length > 0) {
+      throw new PlanValidationError(problems);
+    }
+  }
+
+  /**
+   * Run a plan step by step, stopping at the first step that cannot complete
+   * Nothing is sent when any step is forbidden or still needs confirmation
+   */
+  async execute(plan: QueryPlan, options: PlanExecutionOptions = {}): Promise<PlanExecutionResult> {
+    this.validate(plan);
+
+    if (options.dryRun) {
+      return this.dryRun(plan);
+    }
+
+    const blocked = this.checkSafety(plan, options.confirm);
+    if (blocked) {
+      return blocked;
+    }
+
+    const outputs: Record<string, any> = {};
+    const results: PlanStepResult[] = [];
+    let status: PlanExecutionResult['status'] = 'completed';
+
+    for (const step of plan.steps) {
+      const endpoint = this.findEndpoint(step.method, step.endpoint)!;
+      const base = { id: step.id, endpoint: endpoint.path, method: endpoint.method };
+
+      if (status !== 'completed') {
+        results.push({ ...base, status: 'skipped', summary: 'Skipped because an earlier step did not complete.' });
+        continue;
+      }
+
+      let params: Record<string, any>;
+      try {
+        params = this.resolveParams(step.params || {}, outputs);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        status = 'needs_input';
+        results.push({ ...base, status: 'needs_input', error: message, summary: message });
+        continue;
+      }
+
+      const missing = SchemaConverter.findMissingInputs(endpoint, params);
+      if (missing.length > 0) {
+        status = 'needs_input';
+        results.push({
+          ...base,
+          status: 'needs_input',
+          params,
+          missing,
+          summary: `Step ${step.id} needs more information: ${missing.join(', ')}.`,
+        });
+        continue;
+      }
+
+      const validation = ParamValidator.validate(endpoint, params);
+      if (!validation.valid) {
+        status = 'invalid_input';
+        results.push({
+          ...base,
+          status: 'invalid_input',
+          params,
+          errors: validation.errors,
+          summary: `Step ${step.id} has invalid values:\n${ParamValidator.describe(validation.errors)}`,
+        });
+        continue;
+      }
+      params = validation.params;
+
+      try {
+        Logger.info(`Plan step ${step.id}: ${endpoint.method} ${endpoint.path}`);
+        const result = await this.executor.execute(endpoint, params, { confirmed: options.confirm });
+        outputs[step.id] = result.data;
+
+        if (!result.success) {
+          status = 'failed';
+        }
+
+        results.push({
+          ...base,
+          status: result.success ? 'completed' : 'failed',
+          params,
+          request: result.request,
+          response: { status: result.status, data: result.data },
+          summary: ResponseSummarizer.summarize(endpoint.method, endpoint.path, result, endpoint.response),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        Logger.error(`Plan step ${step.id} failed`, error as Error);
+        status = 'failed';
+        results.push({ ...base, status: 'failed', params, error: message, summary: `Step ${step.id} failed: ${message}` });
+      }
+    }
+
+    const completed = results.filter((r) => r.status === 'completed').length;
+
+    return {
+      success: status === 'completed',
+      status,
+      query: plan.query,
+      steps: results,
+      summary:
+        status === 'completed'
+          ? results[results.length - 1].summary
+          : `Completed ${completed} of ${plan.steps.length} steps. ${results.find((r) => r.status !== 'completed')?.summary}`,
+    };
+  }
+
+  /**
+   * Preview every step without sending anything
+   * Steps that use values from earlier responses cannot be built until the plan runs
+   */
+  private async dryRun(plan: QueryPlan): Promise<PlanExecutionResult> {
+    const policy = this.executor.getSafetyPolicy();
+    const results: PlanStepResult[] = [];
+
+    for (const step of plan.steps) {
+      const endpoint = this.findEndpoint(step.method, step.endpoint)!;
+      const safety = policy.levelFor(endpoint.method, endpoint);
+      const base = { id: step.id, endpoint: endpoint.path, method: endpoint.method, safety, params: step.params || {} };
+
+      if (this.collectReferences(step.params || {}).length > 0) {
+        results.push({
+          ...base,
+          status: 'dry_run',
+          summary: `Step ${step.id} uses values from earlier steps; its request is built when the plan runs.`,
+        });
+        continue;
+      }
+
+      const preview = await this.executor.preview(endpoint, step.params || {});
+      results.push({ ...base, status: 'dry_run', preview, summary: `Would send ${preview.method} ${preview.url}` });
+    }
+
+    const needsConfirmation = results.filter((r) => r.safety === 'confirm').length;
+    const forbidden = results.filter((r) => r.safety === 'forbidden').length;
+
+    return {
+      success: true,
+      status: 'dry_run',
+      query: plan.query,
+      steps: results,
+      summary: `Dry run of ${results.length} step(s) (${needsConfirmation} needing confirmation, ${forbidden} forbidden). Nothing was sent.`,
+    };
+  }
+
+  /**
+   * Result reporting forbidden or unconfirmed steps, or null when the whole plan may run
+   */
+  private checkSafety(plan: QueryPlan, confirmed?: boolean): PlanExecutionResult | null {
+    const policy = this.executor.getSafetyPolicy();
+    const decisions = plan.steps.map((step) => {
+      const endpoint = this.findEndpoint(step.method, step.endpoint)!;
+      return { step, endpoint, decision: policy.check(endpoint.method, endpoint, confirmed) };
+    });
+
+    const blocked = decisions.filter((d) => !d.decision.allowed);
+    if (blocked.length === 0) {
+      return null;
+    }
+
+    const status = blocked.some((d) => d.decision.reason === 'forbidden') ? 'forbidden' : 'confirmation_required';
+
+    return {
+      success: false,
+      status,
+      query: plan.query,
+      steps: decisions.map(({ step, endpoint, decision }) => ({
+        id: step.id,
+        endpoint: endpoint.path,
+        method: endpoint.method,
+        safety: decision.level,
+        status: decision.allowed ? 'skipped' : decision.reason!,
+        summary: decision.allowed ? 'Not run: another step is blocked.' : decision.message!,
+      })),
+      summary:
+        status === 'forbidden'
+          ? `The plan includes calls forbidden by the safety policy: ${this.describeSteps(blocked.filter((d) => d.decision.reason === 'forbidden'))}. Nothing was sent.`
+          : `The plan changes data and must be confirmed before it runs: ${this.describeSteps(blocked)}. Nothing was sent.`,
+    };
+  }
+
+  /**
+   * List steps as "s1 (DELETE /users/{id})"
+   */
+  private describeSteps(entries: Array<{ step: PlanStep; endpoint: MCPEndpoint }>): string {
+    return entries.map(({ step, endpoint }) => `${step.id} (${endpoint.method} ${endpoint.path})`).join(', ');
+  }
+
+  /**
+   * Replace {{step.path}} references with values from earlier responses
+   * @throws Error when a reference does not resolve
+   */
+  private resolveParams(value: any, outputs: Record<string, any>): any {
+    if (typeof value === 'string') {
+      const whole = value.match(WHOLE_REFERENCE_PATTERN);
+      if (whole) {
+        return this.lookup(whole[1], whole[2], outputs);
+      }
+
+      return value.replace(REFERENCE_PATTERN, (_match, stepId: string, path?: string) => {
+        const resolved = this.lookup(stepId, path, outputs);
+        return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+      });
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.resolveParams(item, outputs));
+    }
+
+    if (value && typeof value === 'object') {
+      const resolved: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        resolved[key] = this.resolveParams(item, outputs);
+      }
+      return resolved;
+    }
+
+    return value;
+  }
+
+  /**
+   * Read one reference from a step's response body
+   */
+  private lookup(stepId: string, path: string | undefined, outputs: Record<string, any>): any {
+    const trimmedPath = (path || '').trim().replace(/^\./, '');
+    const resolved = getValueAtPath(outputs[stepId], trimmedPath);
+
+    if (resolved === undefined) {
+      throw new Error(`Could not find ${trimmedPath || 'a value'} in the response of step ${stepId}`);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * All {{step.path}} references inside a parameter value
+   */
+  private collectReferences(value: any): Array<{ stepId: string; path?: string }> {
+    if (typeof value === 'string') {
+      return Array.from(value.matchAll(REFERENCE_PATTERN)).map((match) => ({
+        stepId: match[1],
+        path: match[2]?.trim(),
+      }));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.values(value).flatMap((item) => this.collectReferences(item));
+    }
+
+    return [];
+  }
+
+  /**
+   * Find a manifest endpoint by method and path template
+   */
+  private findEndpoint(method: string | undefined, path: string | undefined): MCPEndpoint | undefined {
+    return this.manifest.endpoints.find(
+      (ep) => ep.path === path && ep.method === (method || '').toUpperCase()
+    );
+  }
+
+  /**
+   * System prompt describing the endpoints and the plan format
+   * @param candidates - Endpoints to describe; with a large manifest, those retrieved for the query
+   */
+  private buildPlanningPrompt(candidates: MCPEndpoint[]): string {
+    const endpoints = candidates
+      .map((ep) => {
+        const schema = SchemaConverter.buildInputSchema(ep);
+        const inputs = Object.entries<any>(schema.properties || {})
+          .map(([name, prop]) => `${name}${(schema.required || []).includes(name) ? '*' : ''}: ${prop.type || 'any'}`)
+          .join(', ');
+        const returns = ep.response ? `\n  returns: ${SchemaConverter.outline(ep.response)}` : '';
+        return `- ${ep.method} ${ep.path}${ep.deprecated ? ' (deprecated)' : ''}${ep.description ? ` — ${ep.description}` : ''}${inputs ? `\n  inputs: ${inputs}` : ''}${returns}`;
+      })
+      .join('\n');
+
+    return `You plan API calls for ${this.manifest.name}. Break the user's request into the fewest calls needed, at most ${this.maxSteps}.
+
+Available endpoints (* = required input):
+${endpoints}
+
+Later steps can use values from earlier responses with {{stepId.path}} references, where the path starts at the response body (see "returns"):
+- {{s1.id}} — a field
+- {{s1[0].id}} / {{s1[-1].id}} — first / last array element
+- {{s1.items[max:created_at].id}} — element with the largest created_at (use min: for the smallest)
+
+Return JSON:
+{
+  "reasoning": "short explanation",
+  "steps": [
+    { "id": "s1", "endpoint": "/path/{param}", "method": "GET", "params": { "param": "value" }, "description": "what this step does" }
+  ]
+}
+
+Use endpoint paths exactly as listed, with path parameters passed in params. Only use values stated in the request or taken from earlier steps.`;
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Encodes request bodies for the upstream API in the media type the endpoint expects
+ *
+ *   application/json                   JSON (the default)
+ *   application/x-www-form-urlencoded  key=value pairs, arrays as repeated keys
+ *   multipart/form-data                form fields and file parts
+ *
+ * File fields (format: binary) accept a data: URL (a ";name=" parameter sets
+ * the file name), plain text content, or
+ *   { "base64": "...", "filename": "a.png", "contentType": "image/png" }
+ *   { "path": "./reports/q3.pdf" }
+ * Local paths are only read inside the configured upload directories, so a
+ * caller cannot send arbitrary files from the MCPhy host to the upstream API.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { MCPEndpoint } from './manifest';
+
+export const FORM_URLENCODED = 'application/x-www-form-urlencoded';
+export const MULTIPART_FORM_DATA = 'multipart/form-data';
+
+export interface UploadConfig {
+  /** Directories local files may be uploaded from; none by default */
+  allowedDirs?: string[];
+  /** Largest file accepted for upload, in bytes */
+  maxBytes?: number;
+}
+
+/**
+ * A file passed as a field value
+ */
+export interface FileInput {
+  path?: string;
+  base64?: string;
+  filename?: string;
+  contentType?: string;
+}
+
+export interface EncodedBody {
+  body: string | FormData | Blob;
+  /** Content-Type header to send; unset for multipart, where fetch adds the boundary */
+  contentType?: string;
+}
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+const DATA_URL = /^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,(.*)$/s;
+
+export class RequestBodyEncoder {
+  private allowedDirs: string[];
+  private maxBytes: number;
+
+  constructor(config: UploadConfig = {}) {
+    this.allowedDirs = (config.allowedDirs || []).map((dir) => path.resolve(dir));
+    this.maxBytes = config.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  /**
+   * Encode a body for an endpoint; non-JSON bodies follow the manifest's content type
+   * @throws UploadError when a file cannot be read or is not allowed
+   */
+  async encode(endpoint: MCPEndpoint, body: any): Promise<EncodedBody> {
+    const contentType = endpoint.requestBody?.contentType || 'application/json';
+    const fileFields = RequestBodyEncoder.fileFields(endpoint);
+
+    if (contentType === FORM_URLENCODED && this.isRecord(body)) {
+      return { body: this.encodeUrlEncoded(body), contentType };
+    }
+
+    if (contentType === MULTIPART_FORM_DATA && this.isRecord(body)) {
+      return { body: await this.encodeMultipart(body, fileFields) };
+    }
+
+    if (/[/+]json\b/.test(contentType) || contentType === '*/*') {
+      return { body: JSON.stringify(body), contentType: contentType === '*/*' ? 'application/json' : contentType };
+    }
+
+    // A whole-body upload (e.g. application/octet-stream) or a text payload
+    if (endpoint.requestBody?.schema?.format === 'binary' || this.isFileInput(body)) {
+      const file = await this.toFile(body, 'body');
+      return { body: file.blob, contentType: file.blob.type || contentType };
+    }
+
+    return { body: typeof body === 'string' ? body : JSON.stringify(body), contentType };
+  }
+
+  /**
+   * Largest file accepted for upload, in bytes
+   */
+  getMaxBytes(): number {
+    return this.maxBytes;
+  }
+
+  /**
+   * Names of the body fields that take a file
+   */
+  static fileFields(endpoint: MCPEndpoint): string[] {
+    return Object.entries(endpoint.requestBody?.properties || {})
+      .filter(([, prop]) => prop.format === 'binary')
+      .map(([name]) => name);
+  }
+
+  /**
+   * Readable summary of an encoded body for previews and logs (file contents are not shown)
+   */
+  static describe(body: string | FormData | Blob | undefined): string | undefined {
+    if (body === undefined || typeof body === 'string') return body;
+
+    if (body instanceof Blob) {
+      return `<${body.type || 'binary'}, ${body.size} bytes>`;
+    }
+
+    const parts: string[] = [];
+    body.forEach((value, name) => {
+      parts.push(
+        typeof value === 'string'
+          ? `${name}=${value}`
+          : `${name}=<file ${value.name}, ${value.type || 'application/octet-stream'}, ${value.size} bytes>`
+      );
+    });
+    return `${MULTIPART_FORM_DATA}: ${parts.join('; ')}`;
+  }
+
+  /**
+   * key=value pairs; nested objects are sent as JSON strings
+   */
+  private encodeUrlEncoded(body: Record<string, any>): string {
+    const search = new URLSearchParams();
+
+    for (const [name, value] of Object.entries(body)) {
+      if (value === undefined) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        search.append(name, this.fieldText(item));
+      }
+    }
+
+    return search.toString();
+  }
+
+  /**
+   * Multipart form with file parts for file fields and file objects
+   */
+  private async encodeMultipart(body: Record<string, any>, fileFields: string[]): Promise<FormData> {
+    const form = new FormData();
+
+    for (const [name, value] of Object.entries(body)) {
+      if (value === undefined) continue;
+
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (fileFields.includes(name) || this.isFileInput(item)) {
+          const file = await this.toFile(item, name);
+          form.append(name, file.blob, file.filename);
+        } else {
+          form.append(name, this.fieldText(item));
+        }
+      }
+    }
+
+    return form;
+  }
+
+  /**
+   * Resolve a file field value into its content and file name
+   */
+  private async toFile(value: any, fieldName: string): Promise<{ blob: Blob; filename: string }> {
+    let data: Buffer;
+    let filename = fieldName;
+    let contentType = 'application/octet-stream';
+
+    if (typeof value === 'string') {
+      const dataUrl = value.match(DATA_URL);
+      if (dataUrl) {
+        const [, mediaType, parameters, base64, payload] = dataUrl;
+        data = base64 ? Buffer.from(payload, 'base64') : Buffer.from(this.decodeDataUrlPart(payload, fieldName));
+        contentType = mediaType || 'text/plain';
+        const name = parameters.match(/;name=([^;]+)/)?.[1];
+        filename = name ? this.decodeDataUrlPart(name, fieldName) : filename;
+      } else {
+        // Plain text is sent as the file's content
+        data = Buffer.from(value);
+        contentType = 'text/plain';
+      }
+    } else if (this.isFileInput(value)) {
+      if (value.base64 !== undefined) {
+        data = Buffer.from(value.base64, 'base64');
+      } else {
+        const filePath = await this.resolveLocalPath(value.path!);
+
+        // Checked before reading so that a huge file is never loaded
+        const stats = await fs.stat(filePath);
+        if (!stats.isFile()) {
+          throw new UploadError(`${value.path} is not a file`);
+        }
+        if (stats.size > this.maxBytes) {
+          throw new UploadError(`File for "${fieldName}" is ${stats.size} bytes; the limit is ${this.maxBytes}`);
+        }
+
+        data = await fs.readFile(filePath);
+        filename = path.basename(filePath);
+      }
+      filename = value.filename || filename;
+      contentType = value.contentType || contentType;
+    } else {
+      throw new UploadError(`Field "${fieldName}" expects a file: a data: URL, text, or { base64 } / { path }`);
+    }
+
+    if (data.length > this.maxBytes) {
+      throw new UploadError(`File for "${fieldName}" is ${data.length} bytes; the limit is ${this.maxBytes}`);
+    }
+
+    return { blob: new Blob([data], { type: contentType }), filename };
+  }
+
+  /**
+   * Percent-decode part of a data: URL
+   * @throws UploadError when the encoding is malformed
+   */
+  private decodeDataUrlPart(text: string, fieldName: string): string {
+    try {
+      return decodeURIComponent(text);
+    } catch {
+      throw new UploadError(`Field "${fieldName}" has a malformed data: URL`);
+    }
+  }
+
+  /**
+   * Real path of a local file, only if it lies inside an allowed upload directory
+   */
+  private async resolveLocalPath(filePath: string): Promise<string> {
+    if (this.allowedDirs.length === 0) {
+      throw new UploadError('Uploading local files is disabled; set uploads.allowedDirs in the config');
+    }
+
+    let realPath: string;
+    try {
+      realPath = await fs.realpath(path.resolve(filePath));
+    } catch {
+      throw new UploadError(`File not found: ${filePath}`);
+    }
+
+    for (const dir of this.allowedDirs) {
+      const realDir = await fs.realpath(dir).catch(() => dir);
+      const relative = path.relative(realDir, realPath);
+      if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+        return realPath;
+      }
+    }
+
+    throw new UploadError(`${filePath} is outside the allowed upload directories`);
+  }
+
+  /**
+   * Text form of a non-file field value
+   */
+  private fieldText(value: any): string {
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  }
+
+  /**
+   * Plain object check
+   */
+  private isRecord(value: any): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Whether a value is a { path } or { base64 } file object
+   */
+  private isFileInput(value: any): value is FileInput {
+    return (
+      this.isRecord(value) &&
+      (typeof value.base64 === 'string' || typeof value.path === 'string') &&
+      Object.keys(value).every((key) => ['path', 'base64', 'filename', 'contentType'].includes(key))
+    );
+  }
+}
+
+/**
+ * Raised when a file field cannot be turned into an upload
+ */
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * Executes manifest endpoints against the upstream API
+ */
+
+import { Logger } from '../utils/logger';
+import { MCPEndpoint } from './manifest';
+import { BODY_ARGUMENT } from './schemaConverter';
+import { UpstreamAuth } from './upstreamAuth';
+import { SafetyPolicy, SafetyPolicyError, redactRequest } from './safetyPolicy';
+import { RequestBodyEncoder } from './requestBodyEncoder';
+import { ResponseHandler, SavedResponse } from './responseHandler';
+import { Paginator } from './pagination';
+import { GraphQLDocument } from './graphqlDocument';
+
+export interface RequestExecutorOptions {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  auth?: UpstreamAuth;
+  safety?: SafetyPolicy;
+  bodyEncoder?: RequestBodyEncoder;
+  responseHandler?: ResponseHandler;
+  paginator?: Paginator;
+}
+
+export interface ExecuteOptions {
+  /** The caller has confirmed a call whose safety level is "confirm" */
+  confirmed?: boolean;
+  /** Follow pages of a paginated endpoint; by default pages are followed unless a page is requested */
+  paginate?: boolean;
+}
+
+export interface PreparedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string | FormData | Blob;
+}
+
+export interface ExecutionResult {
+  success: boolean;
+  status: number;
+  data: any;
+  headers: Record<string, string>;
+  request: {
+    method: string;
+    url: string;
+  };
+  /** The body was larger than the configured limit and was cut off */
+  truncated?: boolean;
+  /** Where a binary or large body was saved instead of being returned */
+  saved?: SavedResponse;
+  /** Pages fetched and merged for a paginated endpoint */
+  pagination?: {
+    pages: number;
+    items: number;
+    /** False when the page or item cap stopped collection before the last page */
+    complete: boolean;
+  };
+}
+
+export class RequestExecutor {
+  private baseUrl: string;
+  private headers: Record<string, string>;
+  private auth?: UpstreamAuth;
+  private safety: SafetyPolicy;
+  private bodyEncoder: RequestBodyEncoder;
+  private responseHandler: ResponseHandler;
+  private paginator: Paginator;
+
+  constructor(options: RequestExecutorOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/$/, '');
+    this.headers = options.headers || {};
+    this.auth = options.auth;
+    this.safety = options.safety || new SafetyPolicy();
+    this.bodyEncoder = options.bodyEncoder || new RequestBodyEncoder();
+    this.responseHandler = options.responseHandler || new ResponseHandler();
+    this.paginator = options.paginator || new Paginator();
+  }
+
+  /**
+   * The safety policy applied before every call
+   */
+  getSafetyPolicy(): SafetyPolicy {
+    return this.safety;
+  }
+
+  /**
+   * The paginator following pages of list endpoints
+   */
+  getPaginator(): Paginator {
+    return this.paginator;
+  }
+
+  /**
+   * The handler reading response bodies, also used to shorten data for language models
+   */
+  getResponseHandler(): ResponseHandler {
+    return this.responseHandler;
+  }
+
+  /**
+   * Build the upstream request for an endpoint without sending it
+   * @throws UploadError when a file field cannot be read
+   */
+  async prepareRequest(endpoint: MCPEndpoint, params: Record<string, any> = {}): Promise<PreparedRequest> {
+    if (endpoint.graphql) {
+      return this.prepareGraphQLRequest(endpoint, params);
+    }
+
+    const pathParams: Record<string, any> = {};
+    const queryParams: Record<string, any> = {};
+    const headerParams: Record<string, string> = {};
+    let bodyParams: Record<string, any> = {};
+    let rawBody: any;
+
+    const acceptsBody = !['GET', 'HEAD'].includes(endpoint.method);
+
+    for (const [name, value] of Object.entries(params)) {
+      if (value === undefined) continue;
+
+      const param = endpoint.parameters?.find((p) => p.name === name);
+
+      // Non-object request bodies are passed whole under the "body" argument
+      if (!param && name === BODY_ARGUMENT && endpoint.requestBody) {
+        rawBody = value;
+        continue;
+      }
+
+      let location = param?.location;
+
+      if (!location) {
+        if (endpoint.path.includes(`{${name}}`)) {
+          location = 'path';
+        } else if (endpoint.requestBody || (acceptsBody && endpoint.method !== 'DELETE')) {
+          // A declared request body wins; a bare DELETE keeps its arguments in the query
+          location = 'body';
+        } else {
+          location = 'query';
+        }
+      }
+
+      if (location === 'path') {
+        pathParams[name] = value;
+      } else if (location === 'query') {
+        queryParams[name] = value;
+      } else if (location === 'header') {
+        headerParams[name] = String(value);
+      } else if (param && ['object', 'array'].includes(param.type)) {
+        // Swagger 2.0 "in: body" parameters carry the whole payload
+        rawBody = value;
+      } else {
+        bodyParams[name] = value;
+      }
+    }
+
+    // Substitute path parameters
+    let resolvedPath = endpoint.path;
+    for (const [name, value] of Object.entries(pathParams)) {
+      resolvedPath = resolvedPath.replace(`{${name}}`, encodeURIComponent(String(value)));
+    }
+
+    let url = this.baseUrl + resolvedPath;
+    const queryString = this.buildQueryString(queryParams);
+    if (queryString) {
+      url += `?${queryString}`;
+    }
+
+    const headers: Record<string, string> = {
+      ...this.headers,
+      ...headerParams,
+    };
+
+    const prepared: PreparedRequest = {
+      method: endpoint.method,
+      url,
+      headers,
+    };
+
+    if (rawBody !== undefined) {
+      bodyParams = rawBody;
+    }
+
+    if (acceptsBody && (rawBody !== undefined || Object.keys(bodyParams).length > 0)) {
+      const encoded = await this.bodyEncoder.encode(endpoint, bodyParams);
+      if (encoded.contentType) {
+        prepared.headers['Content-Type'] = encoded.contentType;
+      }
+      prepared.body = encoded.body;
+    }
+
+    return prepared;
+  }
+
+  /**
+   * POST of a GraphQL document for a GraphQL operation, with its arguments as variables
+   */
+  private prepareGraphQLRequest(endpoint: MCPEndpoint, params: Record<string, any>): PreparedRequest {
+    const operation = endpoint.graphql!;
+
+    return {
+      method: 'POST',
+      url: this.baseUrl + operation.endpoint,
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(GraphQLDocument.build(operation, params)),
+    };
+  }
+
+  /**
+   * Dry run: the exact request that would be sent, with credentials redacted
+   * No OAuth2 token is fetched for it
+   */
+  async preview(endpoint: MCPEndpoint, params: Record<string, any> = {}): Promise<PreparedRequest> {
+    const prepared = await this.prepareRequest(endpoint, params);
+    return redactRequest(await this.authenticate(prepared, endpoint, true), prepared);
+  }
+
+  /**
+   * Execute an endpoint with the given parameters
+   * @throws SafetyPolicyError when the endpoint is forbidden or needs confirmation
+   */
+  async execute(
+    endpoint: MCPEndpoint,
+    params: Record<string, any> = {},
+    options: ExecuteOptions = {}
+  ): Promise<ExecutionResult> {
+    const decision = this.safety.check(endpoint.method, endpoint, options.confirmed);
+    if (!decision.allowed) {
+      Logger.warn(`Blocked ${endpoint.method} ${endpoint.path}: ${decision.message}`);
+      throw new SafetyPolicyError(decision, await this.preview(endpoint, params));
+    }
+
+    if (this.paginator.shouldPaginate(endpoint, params, options.paginate)) {
+      const first = await this.prepareRequest(endpoint, params);
+      const result = await this.paginator.collect(endpoint, params, async (page) =>
+        this.send(endpoint, page.url ? { ...first, url: page.url } : await this.prepareRequest(endpoint, page.params))
+      );
+
+      if (result.pagination) {
+        Logger.info(`Fetched ${result.pagination.pages} page(s), ${result.pagination.items} item(s)`);
+      }
+      return result;
+    }
+
+    return this.send(endpoint, await this.prepareRequest(endpoint, params));
+  }
+
+  /**
+   * Send one prepared request and read its response
+   */
+  private async send(endpoint: MCPEndpoint, prepared: PreparedRequest): Promise<ExecutionResult> {
+    // Logged and returned without credentials (API keys may sit in the query string)
+    Logger.info(`Executing ${prepared.method} ${prepared.url}`);
+
+    let response = await this.fetch(await this.authenticate(prepared, endpoint));
+
+    // An OAuth2 token may have been revoked before its expiry; retry once with a fresh one
+    if (response.status === 401 && this.auth?.usesOAuth2(endpoint)) {
+      Logger.warn('Upstream returned 401, refreshing OAuth2 token and retrying');
+      this.auth.invalidateTokens(endpoint);
+      response = await this.fetch(await this.authenticate(prepared, endpoint));
+    }
+
+    const body = await this.responseHandler.read(response, `${endpoint.method} ${endpoint.path}`);
+
+    Logger.info(`Response status: ${response.status}`);
+    if (body.truncated) {
+      Logger.warn(`Response from ${prepared.method} ${prepared.url} exceeded ${this.responseHandler.getMaxBytes()} bytes and was cut off`);
+    }
+
+    // A GraphQL result is the operation's field, unless the server reported errors
+    const result =
+      endpoint.graphql && !body.saved && !body.truncated
+        ? GraphQLDocument.unwrap(endpoint.graphql, body.data)
+        : { success: true, data: body.data };
+
+    return {
+      success: response.ok && result.success,
+      status: response.status,
+      data: result.data,
+      headers: Object.fromEntries(response.headers.entries()),
+      request: {
+        method: prepared.method,
+        url: prepared.url,
+      },
+      ...(body.truncated ? { truncated: true } : {}),
+      ...(body.saved ? { saved: body.saved } : {}),
+    };
+  }
+
+  /**
+   * Copy of the request with upstream credentials added
+   */
+  private async authenticate(prepared: PreparedRequest, endpoint: MCPEndpoint, preview: boolean = false): Promise<PreparedRequest> {
+    const copy = { ...prepared, headers: { ...prepared.headers } };
+    return this.auth ? this.auth.apply(copy, endpoint, preview) : copy;
+  }
+
+  /**
+   * Send a prepared request
+   */
+  private fetch(prepared: PreparedRequest): Promise<Response> {
+    return fetch(prepared.url, {
+      method: prepared.method,
+      headers: prepared.headers,
+      body: prepared.body,
+    });
+  }
+
+  /**
+   * Encode query parameters, repeating keys for array values
+   */
+  private buildQueryString(queryParams: Record<string, any>): string {
+    const search = new URLSearchParams();
+
+    for (const [name, value] of Object.entries(queryParams)) {
+      if (Array.isArray(value)) {
+        value.forEach((item) => search.append(name, String(item)));
+      } else if (typeof value === 'object' && value !== null) {
+        search.append(name, JSON.stringify(value));
+      } else {
+        search.append(name, String(value));
+      }
+    }
+
+    return search.toString();
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * Reads upstream responses without assuming they are small JSON documents
+ *
+ *   JSON and text   parsed (JSON) or kept as text, up to maxBytes
+ *   binary          never decoded; described by type and size
+ *   large bodies    cut off at maxBytes, or written to saveDir and returned
+ *                   as a reference when a save directory is configured
+ *
+ * forLlm() shortens data before it is handed to a language model: long arrays
+ * keep their first items and the text is clipped to a character budget.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+export interface ResponseConfig {
+  /** Largest body held in memory, in bytes */
+  maxBytes?: number;
+  /** Directory binary and large bodies are written to; nothing is saved when unset */
+  saveDir?: string;
+  /** Text bodies larger than this are saved instead of returned (requires saveDir) */
+  saveAboveBytes?: number;
+  /** Array items kept per array when data is shortened for a language model */
+  maxItems?: number;
+  /** Characters of data given to a language model */
+  maxChars?: number;
+}
+
+/**
+ * Reference to a response body written to disk
+ */
+export interface SavedResponse {
+  savedTo: string;
+  contentType: string;
+  bytes: number;
+}
+
+export interface ResponseBody {
+  data: any;
+  contentType: string;
+  bytes: number;
+  /** The body was longer than maxBytes and was cut off */
+  truncated?: boolean;
+  saved?: SavedResponse;
+}
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_SAVE_ABOVE_BYTES = 1024 * 1024;
+const DEFAULT_MAX_ITEMS = 25;
+const DEFAULT_MAX_CHARS = 20000;
+
+const TEXT_TYPES = ['application/javascript', 'application/x-www-form-urlencoded', 'application/x-ndjson', 'application/yaml'];
+
+const EXTENSIONS: Record<string, string> = {
+  'application/json': 'json',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'application/xml': 'xml',
+  'text/csv': 'csv',
+  'text/html': 'html',
+  'text/plain': 'txt',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+export class ResponseHandler {
+  private maxBytes: number;
+  private saveDir?: string;
+  private saveAboveBytes: number;
+  private maxItems: number;
+  private maxChars: number;
+
+  constructor(config: ResponseConfig = {}) {
+    this.maxBytes = config.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.saveDir = config.saveDir ? path.resolve(config.saveDir) : undefined;
+    this.saveAboveBytes = config.saveAboveBytes ?? DEFAULT_SAVE_ABOVE_BYTES;
+    this.maxItems = config.maxItems ?? DEFAULT_MAX_ITEMS;
+    this.maxChars = config.maxChars ?? DEFAULT_MAX_CHARS;
+  }
+
+  /**
+   * Largest body held in memory, in bytes
+   */
+  getMaxBytes(): number {
+    return this.maxBytes;
+  }
+
+  /**
+   * Whether a media type is JSON
+   */
+  static isJson(contentType: string | null | undefined): boolean {
+    return /[/+]json\b/i.test(contentType || '');
+  }
+
+  /**
+   * Whether a media type can be shown as text; a missing type counts as text
+   */
+  static isText(contentType: string | null | undefined): boolean {
+    const type = (contentType || '').split(';')[0].trim().toLowerCase();
+    return (
+      !type ||
+      type.startsWith('text/') ||
+      /[/+](json|xml)$/.test(type) ||
+      TEXT_TYPES.includes(type)
+    );
+  }
+
+  /**
+   * Read a response body, streaming it to disk when it is binary or large and a save directory is set
+   * @param label - Names the saved file (e.g. "GET /reports")
+   */
+  async read(response: Response, label: string = 'response'): Promise<ResponseBody> {
+    const contentType = response.headers.get('content-type') || '';
+    const isText = ResponseHandler.isText(contentType);
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    let truncated = false;
+    let file: fs.WriteStream | undefined;
+    let filePath: string | undefined;
+    let fileError: Error | undefined;
+
+    const reader = response.body?.getReader();
+
+    while (reader) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      const chunk = Buffer.from(value);
+      bytes += chunk.length;
+
+      if (!file && this.saveDir && (!isText || bytes > this.saveAboveBytes)) {
+        filePath = path.join(this.saveDir, this.fileName(label, contentType));
+        await fs.ensureDir(this.saveDir);
+        file = fs.createWriteStream(filePath);
+        // A missing, unwritable or full directory is reported as an event, not thrown
+        file.on('error', (error) => {
+          fileError = error;
+        });
+        chunks.forEach((buffered) => file!.write(buffered));
+        chunks.length = 0;
+      }
+
+      if (file) {
+        if (fileError) break;
+        if (!file.write(chunk)) {
+          await this.settle(file, 'drain');
+        }
+      } else if (bytes > this.maxBytes) {
+        if (isText) {
+          chunks.push(chunk.subarray(0, chunk.length - (bytes - this.maxBytes)));
+        }
+        truncated = true;
+        await reader.cancel();
+        break;
+      } else if (isText) {
+        chunks.push(chunk);
+      }
+    }
+
+    if (file && filePath) {
+      if (!fileError) {
+        const closed = this.settle(file, 'close');
+        file.end();
+        await closed;
+      }
+
+      if (fileError) {
+        await reader?.cancel().catch(() => undefined);
+        file.destroy();
+        await fs.remove(filePath).catch(() => undefined);
+        throw new Error(`Could not save the response body to ${filePath}: ${fileError.message}`);
+      }
+
+      const saved: SavedResponse = { savedTo: filePath, contentType: contentType || 'application/octet-stream', bytes };
+      return {
+        data: { ...saved, message: `Response body (${bytes} bytes) saved to ${filePath}` },
+        contentType,
+        bytes,
+        saved,
+      };
+    }
+
+    if (!isText) {
+      return {
+        data: {
+          contentType,
+          bytes,
+          message: `Binary response (${truncated ? 'more than ' : ''}${bytes} bytes) not included; set responses.saveDir to keep it`,
+        },
+        contentType,
+        bytes,
+        ...(truncated ? { truncated } : {}),
+      };
+    }
+
+    const text = Buffer.concat(chunks).toString('utf8');
+
+    if (truncated) {
+      return { data: text, contentType, bytes, truncated };
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = text;
+    }
+
+    return { data, contentType, bytes };
+  }
+
+  /**
+   * Wait for a stream event, or for the stream to fail or close
+   */
+  private settle(stream: fs.WriteStream, event: 'drain' | 'close'): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const done = () => {
+        stream.off(event, done);
+        stream.off('error', done);
+        stream.off('close', done);
+        resolve();
+      };
+      stream.once(event, done);
+      stream.once('error', done);
+      stream.once('close', done);
+    });
+  }
+
+  /**
+   * Text of response data for a language model: long arrays shortened, then clipped
+   */
+  forLlm(data: any): string {
+    const text = typeof data === 'string' ? data : JSON.stringify(this.shorten(data), null, 2);
+
+    if (text === undefined) return '';
+    if (text.length <= this.maxChars) return text;
+
+    return `${text.slice(0, this.maxChars)}\n… [truncated: ${text.length} characters in total. Narrow the request with filters or pagination parameters]`;
+  }
+
+  /**
+   * Copy of data with every array cut to maxItems, noting how many items were left out
+   */
+  private shorten(value: any): any {
+    if (Array.isArray(value)) {
+      const kept = value.slice(0, this.maxItems).map((item) => this.shorten(item));
+      if (value.length > this.maxItems) {
+        kept.push(`… ${value.length - this.maxItems} more items not shown`);
+      }
+      return kept;
+    }
+
+    if (value && typeof value === 'object') {
+      const result: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.shorten(item);
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  /**
+   * Unique file name for a saved body, e.g. 1700000000000-get-reports-1a2b3c4d.csv
+   */
+  private fileName(label: string, contentType: string): string {
+    const type = contentType.split(';')[0].trim().toLowerCase();
+    const extension = EXTENSIONS[type] || (ResponseHandler.isJson(type) ? 'json' : 'bin');
+    const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'response';
+
+    return `${Date.now()}-${slug}-${randomUUID().slice(0, 8)}.${extension}`;
+  }
+}
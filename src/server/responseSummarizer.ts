@@ -0,0 +1,202 @@
+/**
+ * Template-based natural-language summaries of API responses
+ */
+
+import { ExecutionResult } from './requestExecutor';
+
+const MAX_PREVIEW_ITEMS = 3;
+const MAX_PREVIEW_FIELDS = 5;
+const MAX_TEXT_LENGTH = 200;
+
+export class ResponseSummarizer {
+  /**
+   * Summarize an upstream response for the endpoint that produced it
+   * @param responseSchema - Documented success schema, used to find the list in custom envelopes
+   */
+  static summarize(method: string, path: string, result: ExecutionResult, responseSchema?: any): string {
+    const summary = this.summarizeResult(method, path, result, responseSchema);
+    const pagination = result.pagination;
+
+    if (!pagination || pagination.pages < 2) {
+      return summary;
+    }
+    return `${summary} (${pagination.pages} pages${pagination.complete ? '' : '; more results exist beyond the page limit'})`;
+  }
+
+  /**
+   * Summary of the response body
+   */
+  private static summarizeResult(method: string, path: string, result: ExecutionResult, responseSchema?: any): string {
+    const resource = this.resourceName(path);
+
+    if (!result.success) {
+      return this.summarizeError(result);
+    }
+
+    if (result.saved) {
+      return `${this.actionPhrase(method, resource)} succeeded; the ${result.saved.bytes}-byte ${
+        result.saved.contentType
+      } response was saved to ${result.saved.savedTo}.`;
+    }
+
+    if (result.truncated) {
+      return `${this.actionPhrase(method, resource)} succeeded, but the response was too large and was cut off.`;
+    }
+
+    const data = result.data;
+
+    if (data === undefined || data === null || data === '') {
+      return `${this.actionPhrase(method, resource)} succeeded (HTTP ${result.status}) with no content returned.`;
+    }
+
+    if (Array.isArray(data)) {
+      return this.summarizeList(data, resource);
+    }
+
+    if (typeof data === 'object') {
+      // Common envelope shapes: { data: [...] }, { items: [...] }, { results: [...] },
+      // or, for collection reads, the array property the response schema declares
+      const isCollectionRead = method.toUpperCase() === 'GET' && !path.endsWith('}');
+      const listKey = [
+        'data',
+        'items',
+        'results',
+        'records',
+        ...(isCollectionRead ? this.schemaListKeys(responseSchema) : []),
+      ].find((key) => Array.isArray(data[key]));
+      if (listKey) {
+        return this.summarizeList(data[listKey], resource);
+      }
+
+      const fields = this.describeFields(data);
+      return `${this.actionPhrase(method, resource)} succeeded.${fields ? ` ${fields}` : ''}`;
+    }
+
+    return `${this.actionPhrase(method, resource)} returned: ${this.truncate(String(data))}`;
+  }
+
+  /**
+   * Top-level array properties declared by a response schema
+   */
+  private static schemaListKeys(schema: any): string[] {
+    return Object.entries<any>(schema?.properties || {})
+      .filter(([, prop]) => prop?.type === 'array' || prop?.items)
+      .map(([name]) => name);
+  }
+
+  /**
+   * Summarize a 4xx/5xx response
+   */
+  private static summarizeError(result: ExecutionResult): string {
+    const data = result.data;
+    let detail = '';
+
+    if (data && typeof data === 'object') {
+      // GraphQL servers list errors in an "errors" array
+      const message = data.message || data.error || data.detail || data.title || data.errors?.[0]?.message;
+      detail = typeof message === 'string' ? message : message ? JSON.stringify(message) : '';
+    } else if (typeof data === 'string') {
+      detail = data;
+    }
+
+    const error = `The API returned an error (HTTP ${result.status})${detail ? `: ${this.truncate(detail)}` : '.'}`;
+    const explanation = this.explainStatus(result.status);
+    return explanation ? `${error}${/[.!?]$/.test(error) ? '' : '.'} ${explanation}` : error;
+  }
+
+  /**
+   * What an error status usually means for the caller
+   */
+  private static explainStatus(status: number): string | undefined {
+    const explanations: Record<number, string> = {
+      400: 'The request was rejected; check the parameter values.',
+      401: 'The API did not accept the credentials; check the auth settings.',
+      403: 'The credentials are valid but not allowed to do this.',
+      404: 'The requested item does not exist; check the identifier.',
+      405: 'The API does not allow this method on this path.',
+      409: 'The request conflicts with the current state, e.g. the item already exists.',
+      413: 'The request body is too large.',
+      415: 'The API does not accept this content type.',
+      422: 'Some values were not valid; check the parameter values.',
+      429: 'Too many requests; wait a moment and try again.',
+    };
+
+    if (explanations[status]) return explanations[status];
+    if (status >= 500) return 'The API failed to handle the request; this is a server-side problem, try again later.';
+    return undefined;
+  }
+
+  /**
+   * Summarize a list response with a short preview
+   */
+  private static summarizeList(items: any[], resource: string): string {
+    if (items.length === 0) {
+      return `No ${resource} found.`;
+    }
+
+    const preview = items
+      .slice(0, MAX_PREVIEW_ITEMS)
+      .map((item) => this.labelFor(item))
+      .filter(Boolean);
+
+    const more = items.length > MAX_PREVIEW_ITEMS ? `, and ${items.length - MAX_PREVIEW_ITEMS} more` : '';
+    return `Found ${items.length} ${resource}${preview.length > 0 ? `: ${preview.join('; ')}${more}` : ''}.`;
+  }
+
+  /**
+   * Pick a human-readable label for a list item
+   */
+  private static labelFor(item: any): string {
+    if (item === null || typeof item !== 'object') {
+      return this.truncate(String(item), 60);
+    }
+
+    const name = item.name || item.title || item.label || item.email;
+    const id = item.id ?? item.uuid;
+
+    if (name && id !== undefined) return `${name} (id ${id})`;
+    if (name) return String(name);
+    if (id !== undefined) return `id ${id}`;
+    return this.describeFields(item);
+  }
+
+  /**
+   * Describe the scalar top-level fields of an object
+   */
+  private static describeFields(obj: Record<string, any>): string {
+    return Object.entries(obj)
+      .filter(([, value]) => value === null || typeof value !== 'object')
+      .slice(0, MAX_PREVIEW_FIELDS)
+      .map(([key, value]) => `${key}: ${this.truncate(String(value), 60)}`)
+      .join(', ');
+  }
+
+  /**
+   * Describe what the request did, e.g. "Creating bookings"
+   */
+  private static actionPhrase(method: string, resource: string): string {
+    const actions: Record<string, string> = {
+      GET: 'Retrieving',
+      POST: 'Creating',
+      PUT: 'Updating',
+      PATCH: 'Updating',
+      DELETE: 'Deleting',
+    };
+
+    return `${actions[method.toUpperCase()] || 'Processing'} ${resource}`;
+  }
+
+  /**
+   * Last static path segment, e.g. /garages/{id}/bookings → bookings
+   */
+  private static resourceName(path: string): string {
+    return path.split('/').filter((part) => part && !part.startsWith('{')).pop() || 'resource';
+  }
+
+  /**
+   * Shorten long text for display
+   */
+  private static truncate(text: string, length: number = MAX_TEXT_LENGTH): string {
+    return text.length > length ? `${text.slice(0, length)}…` : text;
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Safety policy for calls that reach the upstream API
+ *
+ *   safe       runs without confirmation
+ *   confirm    runs only when the caller explicitly confirms it
+ *   forbidden  never runs through MCPhy
+ *
+ * The level comes from the config (per endpoint), the manifest (endpoint.safety
+ * or x-mcphy-safety in the spec) or the HTTP method, in that order.
+ */
+
+import { MCPEndpoint, SafetyLevel } from './manifest';
+import { PreparedRequest } from './requestExecutor';
+import { RequestBodyEncoder } from './requestBodyEncoder';
+
+export interface SafetyConfig {
+  /** Level per HTTP method, merged over the built-in defaults */
+  methods?: Record<string, SafetyLevel>;
+  /** Level per endpoint, keyed "METHOD /path" as in the manifest */
+  endpoints?: Record<string, SafetyLevel>;
+}
+
+export interface SafetyDecision {
+  allowed: boolean;
+  level: SafetyLevel;
+  reason?: 'confirmation_required' | 'forbidden';
+  message?: string;
+}
+
+/** Header (or body flag) clients send to confirm a mutating call */
+export const CONFIRM_HEADER = 'x-mcphy-confirm';
+/** Header requesting a dry run: the request is built and returned, not sent */
+export const DRY_RUN_HEADER = 'x-mcphy-dry-run';
+
+export const REDACTED = '[REDACTED]';
+
+const DEFAULT_METHOD_LEVELS: Record<string, SafetyLevel> = {
+  GET: 'safe',
+  HEAD: 'safe',
+  OPTIONS: 'safe',
+  POST: 'confirm',
+  PUT: 'confirm',
+  PATCH: 'confirm',
+  DELETE: 'confirm',
+};
+
+const SAFETY_LEVELS: SafetyLevel[] = ['safe', 'confirm', 'forbidden'];
+
+// Header and query parameter names that carry credentials
+const SENSITIVE_NAME = /^(authorization|proxy-authorization|cookie|key|sig|signature)$|api[-_]?key|token|secret|password|session/i;
+
+export class SafetyPolicy {
+  private methods: Record<string, SafetyLevel>;
+  private endpoints: Record<string, SafetyLevel>;
+
+  constructor(config: SafetyConfig = {}) {
+    this.methods = { ...DEFAULT_METHOD_LEVELS };
+    for (const [method, level] of Object.entries(config.methods || {})) {
+      this.methods[method.toUpperCase()] = level;
+    }
+
+    this.endpoints = {};
+    for (const [key, level] of Object.entries(config.endpoints || {})) {
+      const [method, ...rest] = key.trim().split(/\s+/);
+      this.endpoints[`${method.toUpperCase()} ${rest.join(' ')}`] = level;
+    }
+  }
+
+  /**
+   * Effective level for an endpoint; requests without a manifest endpoint use the method default
+   */
+  levelFor(method: string, endpoint?: MCPEndpoint): SafetyLevel {
+    const upperMethod = method.toUpperCase();
+
+    if (endpoint) {
+      const configured = this.endpoints[`${upperMethod} ${endpoint.path}`];
+      if (SafetyPolicy.isLevel(configured)) return configured;
+      if (SafetyPolicy.isLevel(endpoint.safety)) return endpoint.safety;
+    }
+
+    // Unknown methods need confirmation rather than passing silently
+    return this.methods[upperMethod] || 'confirm';
+  }
+
+  /**
+   * Decide whether a call may be sent
+   */
+  check(method: string, endpoint: MCPEndpoint | undefined, confirmed: boolean = false): SafetyDecision {
+    const level = this.levelFor(method, endpoint);
+    const label = `${method.toUpperCase()} ${endpoint?.path || ''}`.trim();
+
+    if (level === 'forbidden') {
+      return {
+        allowed: false,
+        level,
+        reason: 'forbidden',
+        message: `${label} is forbidden by the safety policy`,
+      };
+    }
+
+    if (level === 'confirm' && !confirmed) {
+      return {
+        allowed: false,
+        level,
+        reason: 'confirmation_required',
+        message: `${label} changes data and must be confirmed before it is sent`,
+      };
+    }
+
+    return { allowed: true, level };
+  }
+
+  /**
+   * Interpret a confirm/dry-run flag from a body field or header
+   */
+  static isFlagSet(value: unknown): boolean {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'string') return ['true', '1', 'yes'].includes(value.trim().toLowerCase());
+    return false;
+  }
+
+  /**
+   * Check a value from config or a spec extension
+   */
+  static isLevel(value: unknown): value is SafetyLevel {
+    return SAFETY_LEVELS.includes(value as SafetyLevel);
+  }
+}
+
+/**
+ * Copy of a request that is safe to show: credential headers and query
+ * parameters are masked, as is anything added or changed by upstream auth;
+ * form and file bodies are summarized
+ * @param original - The request before credentials were applied
+ */
+export function redactRequest(sent: PreparedRequest, original?: PreparedRequest): PreparedRequest {
+  const headers: Record<string, string> = {};
+  const originalHeaders = new Map(
+    Object.entries(original?.headers || {}).map(([name, value]) => [name.toLowerCase(), value])
+  );
+
+  for (const [name, value] of Object.entries(sent.headers)) {
+    const changed = original !== undefined && originalHeaders.get(name.toLowerCase()) !== value;
+    headers[name] = SENSITIVE_NAME.test(name) || changed ? REDACTED : value;
+  }
+
+  let url = sent.url;
+  try {
+    const parsed = new URL(sent.url);
+    const originalQuery = original ? new URL(original.url).searchParams : undefined;
+    const redacted = new URLSearchParams();
+
+    parsed.searchParams.forEach((value, name) => {
+      const changed = originalQuery !== undefined && !originalQuery.getAll(name).includes(value);
+      redacted.append(name, SENSITIVE_NAME.test(name) || changed ? REDACTED : value);
+    });
+
+    parsed.search = redacted.toString();
+    url = parsed.toString().split(encodeURIComponent(REDACTED)).join(REDACTED);
+  } catch {
+    // Not an absolute URL; leave it as built
+  }
+
+  return {
+    method: sent.method,
+    url,
+    headers,
+    ...(sent.body !== undefined ? { body: RequestBodyEncoder.describe(sent.body) } : {}),
+  };
+}
+
+/**
+ * Raised when the safety policy blocks a call; carries the request that would have been sent
+ */
+export class SafetyPolicyError extends Error {
+  constructor(public readonly decision: SafetyDecision, public readonly request: PreparedRequest) {
+    super(decision.message || 'Blocked by the safety policy');
+    this.name = 'SafetyPolicyError';
+  }
+}
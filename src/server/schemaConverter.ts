@@ -0,0 +1,352 @@
+/**
+ * Converts manifest endpoints into JSON Schema tool input schemas
+ */
+
+import { MCPEndpoint, MCPParameter } from './manifest';
+
+/**
+ * Argument name used for request bodies that cannot be flattened
+ * into top-level properties (arrays, primitives, name collisions)
+ */
+export const BODY_ARGUMENT = 'body';
+
+// Fields listed per object by outline() before the rest are elided
+const MAX_OUTLINE_FIELDS = 12;
+// Enums longer than this are outlined by their type
+const MAX_OUTLINE_ENUM = 6;
+
+// JSON Schema keywords that carry over unchanged from OpenAPI schema objects
+const PASSTHROUGH_KEYWORDS = [
+  'title',
+  'description',
+  'format',
+  'enum',
+  'const',
+  'default',
+  'multipleOf',
+  'minimum',
+  'maximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'minProperties',
+  'maxProperties',
+  'deprecated',
+];
+
+export class SchemaConverter {
+  /**
+   * Build the complete input schema for an endpoint:
+   * path/query/header parameters plus the (flattened) request body
+   */
+  static buildInputSchema(endpoint: MCPEndpoint): any {
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+
+    for (const param of endpoint.parameters || []) {
+      properties[param.name] = this.parameterToSchema(param);
+      if (param.required || param.location === 'path') {
+        required.push(param.name);
+      }
+    }
+
+    const bodySchema = this.buildBodySchema(endpoint);
+
+    if (bodySchema) {
+      const canFlatten =
+        bodySchema.type === 'object' &&
+        bodySchema.properties &&
+        Object.keys(bodySchema.properties).every((name) => !(name in properties));
+
+      if (canFlatten) {
+        Object.assign(properties, bodySchema.properties);
+        required.push(...(bodySchema.required || []));
+      } else {
+        properties[BODY_ARGUMENT] = {
+          ...bodySchema,
+          description: bodySchema.description || 'Request body',
+        };
+        if (endpoint.requestBody?.required) {
+          required.push(BODY_ARGUMENT);
+        }
+      }
+    }
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required: Array.from(new Set(required)) } : {}),
+    };
+  }
+
+  /**
+   * Required inputs (parameters and body fields) that have no value
+   */
+  static findMissingInputs(endpoint: MCPEndpoint, params: Record<string, any>): string[] {
+    const schema = this.buildInputSchema(endpoint);
+    return (schema.required || []).filter(
+      (name: string) => params[name] === undefined || params[name] === null || params[name] === ''
+    );
+  }
+
+  /**
+   * Convert an OpenAPI (3.x or Swagger 2.0) schema object to JSON Schema
+   * Recursive structures are cut off at the point where they repeat
+   */
+  static toJsonSchema(schema: any, direction: 'input' | 'output' = 'input'): any {
+    return this.convert(schema, direction, []);
+  }
+
+  /**
+   * Compact outline of a JSON Schema for prompts, e.g. {id: integer, tags: [string]}
+   */
+  static outline(schema: any, depth: number = 2): string {
+    if (!schema || typeof schema !== 'object') return 'any';
+
+    const alternatives = schema.oneOf || schema.anyOf;
+    if (Array.isArray(alternatives)) {
+      return alternatives.map((alt: any) => this.outline(alt, depth)).join(' | ');
+    }
+
+    if (schema.type === 'array' || schema.items) {
+      return `[${this.outline(schema.items, depth)}]`;
+    }
+
+    if (schema.properties) {
+      if (depth <= 0) return 'object';
+
+      const names = Object.keys(schema.properties);
+      const fields = names
+        .slice(0, MAX_OUTLINE_FIELDS)
+        .map((name) => `${name}: ${this.outline(schema.properties[name], depth - 1)}`);
+      const more = names.length > MAX_OUTLINE_FIELDS ? ', …' : '';
+
+      return `{${fields.join(', ')}${more}}`;
+    }
+
+    if (schema.const !== undefined) return JSON.stringify(schema.const);
+    if (Array.isArray(schema.enum) && schema.enum.length > 0 && schema.enum.length <= MAX_OUTLINE_ENUM) {
+      return schema.enum.map((value: any) => JSON.stringify(value)).join(' | ');
+    }
+
+    if (Array.isArray(schema.type)) return schema.type.join(' | ');
+    return schema.type || 'any';
+  }
+
+  /**
+   * Build the JSON Schema for a single parameter
+   */
+  private static parameterToSchema(param: MCPParameter): any {
+    const schema = this.toJsonSchema(param.schema || {});
+
+    if (!schema.type && !schema.oneOf && !schema.anyOf && !schema.allOf) {
+      schema.type = this.normalizeType(param.type);
+    }
+
+    if (param.description && !schema.description) {
+      schema.description = param.description;
+    }
+
+    return schema;
+  }
+
+  /**
+   * Build the JSON Schema of the request body
+   */
+  private static buildBodySchema(endpoint: MCPEndpoint): any | null {
+    const requestBody = endpoint.requestBody;
+    if (!requestBody) return null;
+
+    if (requestBody.schema) {
+      const schema = this.toJsonSchema(requestBody.schema);
+
+      // Apply types inferred later (e.g. by the LLM enhancer) where the spec had none
+      if (schema.properties && requestBody.properties) {
+        for (const [name, prop] of Object.entries(requestBody.properties)) {
+          const target = schema.properties[name];
+          if (target && !target.type && !target.oneOf && !target.anyOf && !target.allOf) {
+            target.type = this.normalizeType(prop.type);
+          }
+        }
+      }
+
+      return schema;
+    }
+
+    if (requestBody.properties) {
+      const properties: Record<string, any> = {};
+      for (const [name, prop] of Object.entries(requestBody.properties)) {
+        properties[name] =
+          prop.format === 'binary'
+            ? this.fileInputSchema(prop.description)
+            : {
+                type: this.normalizeType(prop.type),
+                ...(prop.description ? { description: prop.description } : {}),
+              };
+      }
+
+      return {
+        type: 'object',
+        properties,
+        ...(requestBody.requiredFields?.length ? { required: requestBody.requiredFields } : {}),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Recursive conversion with cycle detection
+   */
+  private static convert(schema: any, direction: 'input' | 'output', stack: any[]): any {
+    if (!schema || typeof schema !== 'object') {
+      return {};
+    }
+
+    if (stack.includes(schema)) {
+      return {
+        type: 'object',
+        description: `Recursive reference${schema.title ? ` to ${schema.title}` : ''}`,
+      };
+    }
+
+    if (typeof schema.$ref === 'string') {
+      return { description: `Unresolved reference ${schema.$ref}` };
+    }
+
+    const nextStack = [...stack, schema];
+    const result: any = {};
+
+    for (const keyword of PASSTHROUGH_KEYWORDS) {
+      if (schema[keyword] !== undefined) {
+        result[keyword] = schema[keyword];
+      }
+    }
+
+    if (schema.type === 'file') {
+      result.type = 'string';
+      result.format = 'binary';
+    } else if (schema.type !== undefined) {
+      result.type = schema.type;
+    }
+
+    // File fields take the file's content or a reference the executor can read
+    if (direction === 'input' && result.type === 'string' && result.format === 'binary') {
+      return this.fileInputSchema(result.description);
+    }
+
+    // OpenAPI 3.0 nullable → JSON Schema type union
+    if (schema.nullable === true && typeof result.type === 'string') {
+      result.type = [result.type, 'null'];
+    }
+
+    // OpenAPI 3.0 boolean exclusive bounds → numeric form
+    if (schema.exclusiveMinimum === true && schema.minimum !== undefined) {
+      result.exclusiveMinimum = schema.minimum;
+      delete result.minimum;
+    } else if (typeof schema.exclusiveMinimum === 'number') {
+      result.exclusiveMinimum = schema.exclusiveMinimum;
+    }
+    if (schema.exclusiveMaximum === true && schema.maximum !== undefined) {
+      result.exclusiveMaximum = schema.maximum;
+      delete result.maximum;
+    } else if (typeof schema.exclusiveMaximum === 'number') {
+      result.exclusiveMaximum = schema.exclusiveMaximum;
+    }
+
+    if (schema.example !== undefined) {
+      result.examples = [schema.example];
+    } else if (Array.isArray(schema.examples)) {
+      result.examples = schema.examples;
+    }
+
+    if (schema.items) {
+      result.items = this.convert(schema.items, direction, nextStack);
+    }
+
+    if (schema.properties) {
+      result.properties = {};
+      const hidden: string[] = [];
+
+      for (const [name, propSchema] of Object.entries<any>(schema.properties)) {
+        // readOnly fields are server-generated; writeOnly fields never come back
+        if (direction === 'input' && propSchema?.readOnly) {
+          hidden.push(name);
+          continue;
+        }
+        if (direction === 'output' && propSchema?.writeOnly) {
+          hidden.push(name);
+          continue;
+        }
+        result.properties[name] = this.convert(propSchema, direction, nextStack);
+      }
+
+      if (Array.isArray(schema.required)) {
+        const required = schema.required.filter((name: string) => !hidden.includes(name));
+        if (required.length > 0) {
+          result.required = required;
+        }
+      }
+
+      if (!result.type) {
+        result.type = 'object';
+      }
+    }
+
+    if (schema.additionalProperties !== undefined) {
+      result.additionalProperties =
+        typeof schema.additionalProperties === 'object'
+          ? this.convert(schema.additionalProperties, direction, nextStack)
+          : schema.additionalProperties;
+    }
+
+    for (const combinator of ['allOf', 'oneOf', 'anyOf']) {
+      if (Array.isArray(schema[combinator])) {
+        result[combinator] = schema[combinator].map((sub: any) => this.convert(sub, direction, nextStack));
+      }
+    }
+
+    if (schema.not) {
+      result.not = this.convert(schema.not, direction, nextStack);
+    }
+
+    return result;
+  }
+
+  /**
+   * Input schema of a file field (see RequestBodyEncoder)
+   */
+  private static fileInputSchema(description?: string): any {
+    return {
+      description: `${description ? `${description}. ` : ''}File to upload`,
+      anyOf: [
+        { type: 'string', description: 'data: URL (data:image/png;base64,...) or the text content of the file' },
+        {
+          type: 'object',
+          properties: {
+            base64: { type: 'string', description: 'Base64-encoded file content' },
+            path: { type: 'string', description: 'Local file path (only inside the configured upload directories)' },
+            filename: { type: 'string' },
+            contentType: { type: 'string' },
+          },
+          additionalProperties: false,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Map manifest type names onto JSON Schema types
+   */
+  private static normalizeType(type: string | undefined): string {
+    const typeLower = (type || 'string').toLowerCase();
+    if (['integer', 'int'].includes(typeLower)) return 'integer';
+    if (['number', 'float', 'double'].includes(typeLower)) return 'number';
+    if (['boolean', 'bool'].includes(typeLower)) return 'boolean';
+    if (['array', 'object'].includes(typeLower)) return typeLower;
+    return 'string';
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Normalizes dereferenced OpenAPI schemas for the manifest
+ *
+ *   allOf          merged into one schema (properties, required, type)
+ *   oneOf/anyOf    kept as alternatives; with a discriminator, each alternative
+ *                  pins the discriminator property to its value
+ *   recursion      cut off where a schema repeats, so the result is a finite tree
+ *   repetition     a composite schema is expanded once per normalized tree; later
+ *                  uses point back to it, which keeps mutually referencing
+ *                  schemas from growing the tree exponentially
+ *
+ * swagger-parser dereferences $refs into shared (possibly circular) objects;
+ * passing the spec's named schemas lets the normalizer recover their names.
+ */
+
+export interface SchemaNormalizerOptions {
+  /** Named schemas (components.schemas or definitions), used for titles and discriminator values */
+  namedSchemas?: Record<string, any>;
+  /** Nesting depth after which sub-schemas are summarized */
+  maxDepth?: number;
+}
+
+const DEFAULT_MAX_DEPTH = 8;
+
+// Keywords rebuilt by the normalizer instead of copied
+const STRUCTURAL_KEYWORDS = ['properties', 'required', 'items', 'additionalProperties', 'allOf', 'oneOf', 'anyOf', 'not'];
+
+export class SchemaNormalizer {
+  private names: Map<any, string>;
+  private maxDepth: number;
+
+  constructor(options: SchemaNormalizerOptions = {}) {
+    this.names = new Map();
+    for (const [name, schema] of Object.entries(options.namedSchemas || {})) {
+      if (schema && typeof schema === 'object' && !this.names.has(schema)) {
+        this.names.set(schema, name);
+      }
+    }
+    this.maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  }
+
+  /**
+   * Normalize a schema into a finite, JSON-serializable tree
+   */
+  normalize(schema: any): any {
+    return this.walk(schema, [], new Set());
+  }
+
+  /**
+   * Top-level fields of a normalized schema; alternatives contribute all of their
+   * fields, which are only required when every alternative requires them
+   */
+  static collectProperties(schema: any): { properties: Record<string, any>; required: string[] } {
+    if (!schema || typeof schema !== 'object') {
+      return { properties: {}, required: [] };
+    }
+
+    const alternatives = schema.oneOf || schema.anyOf;
+    if (!schema.properties && Array.isArray(alternatives) && alternatives.length > 0) {
+      const collected = alternatives.map((alt: any) => this.collectProperties(alt));
+      const properties = Object.assign({}, ...collected.map((c: any) => c.properties));
+      const required = collected[0].required.filter((name: string) =>
+        collected.every((c: any) => c.required.includes(name))
+      );
+      return { properties, required };
+    }
+
+    return {
+      properties: schema.properties || {},
+      required: Array.isArray(schema.required) ? schema.required : [],
+    };
+  }
+
+  /**
+   * Recursive normalization with cycle, repetition and depth limits
+   * @param expanded - Composite schemas already expanded in this tree
+   * @param inline - Expand even when already expanded; allOf parts are merged and need their fields
+   */
+  private walk(schema: any, stack: any[], expanded: Set<any>, inline: boolean = false): any {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      return {};
+    }
+
+    const name = this.names.get(schema);
+
+    if (stack.includes(schema)) {
+      return {
+        type: 'object',
+        description: `Recursive reference${name ? ` to ${name}` : schema.title ? ` to ${schema.title}` : ''}`,
+      };
+    }
+
+    if (stack.length >= this.maxDepth) {
+      return {
+        type: schema.type || 'object',
+        description: `Nested ${name || schema.title || 'schema'} omitted (nesting too deep)`,
+      };
+    }
+
+    if (typeof schema.$ref === 'string') {
+      return { description: `Unresolved reference ${schema.$ref}` };
+    }
+
+    if (this.isComposite(schema)) {
+      if (expanded.has(schema) && !inline) {
+        return {
+          type: schema.type || 'object',
+          ...(name ? { title: name } : {}),
+          description: `Same as ${name || schema.title || 'the schema'} described earlier`,
+        };
+      }
+      expanded.add(schema);
+    }
+
+    const nextStack = [...stack, schema];
+    let result: any = {};
+
+    for (const [keyword, value] of Object.entries(schema)) {
+      if (!STRUCTURAL_KEYWORDS.includes(keyword)) {
+        result[keyword] = value;
+      }
+    }
+
+    if (name && !result.title) {
+      result.title = name;
+    }
+
+    if (schema.properties && typeof schema.properties === 'object') {
+      result.properties = {};
+      for (const [propName, propSchema] of Object.entries(schema.properties)) {
+        result.properties[propName] = this.walk(propSchema, nextStack, expanded);
+      }
+    }
+
+    if (Array.isArray(schema.required) && schema.required.length > 0) {
+      result.required = [...schema.required];
+    }
+
+    if (schema.items) {
+      result.items = this.walk(schema.items, nextStack, expanded);
+    }
+
+    if (schema.additionalProperties !== undefined) {
+      result.additionalProperties =
+        typeof schema.additionalProperties === 'object'
+          ? this.walk(schema.additionalProperties, nextStack, expanded)
+          : schema.additionalProperties;
+    }
+
+    if (schema.not) {
+      result.not = this.walk(schema.not, nextStack, expanded);
+    }
+
+    for (const combinator of ['oneOf', 'anyOf'] as const) {
+      if (Array.isArray(schema[combinator])) {
+        result[combinator] = schema[combinator].map((alt: any) => this.walk(alt, nextStack, expanded));
+        if (schema.discriminator?.propertyName) {
+          this.pinDiscriminator(schema.discriminator, schema[combinator], result[combinator]);
+        }
+      }
+    }
+
+    // Inherited parts first (their fields lead), the schema's own keywords win
+    if (Array.isArray(schema.allOf)) {
+      const parts = schema.allOf.map((part: any) => this.walk(part, nextStack, expanded, true));
+      const own = result;
+      result = [...parts, own].reduce((merged: any, part: any) => this.merge(merged, part), {});
+
+      // A base schema's title does not name the merged schema
+      if (!own.title) {
+        delete result.title;
+      }
+    }
+
+    if (result.properties && !result.type) {
+      result.type = 'object';
+    }
+
+    return result;
+  }
+
+  /**
+   * Schemas with nested parts; leaf schemas are cheap to repeat and always copied
+   */
+  private isComposite(schema: any): boolean {
+    return STRUCTURAL_KEYWORDS.some(
+      (keyword) => keyword !== 'required' && schema[keyword] !== null && typeof schema[keyword] === 'object'
+    );
+  }
+
+  /**
+   * Merge two normalized schemas; the overlay's keywords win, the base's fields come first
+   */
+  private merge(base: any, overlay: any): any {
+    const merged: any = { ...base, ...overlay };
+
+    if (base.properties || overlay.properties) {
+      merged.properties = { ...(base.properties || {}) };
+      for (const [propName, propSchema] of Object.entries<any>(overlay.properties || {})) {
+        merged.properties[propName] = merged.properties[propName]
+          ? this.merge(merged.properties[propName], propSchema)
+          : propSchema;
+      }
+    }
+
+    const required = Array.from(new Set([...(base.required || []), ...(overlay.required || [])]));
+    if (required.length > 0) {
+      merged.required = required;
+    }
+
+    return merged;
+  }
+
+  /**
+   * Set the discriminator property of each alternative to the value that selects it
+   */
+  private pinDiscriminator(discriminator: any, originals: any[], alternatives: any[]): void {
+    const propertyName: string = discriminator.propertyName;
+    const mapping: Record<string, string> = discriminator.mapping || {};
+
+    alternatives.forEach((alt, index) => {
+      const schemaName = this.names.get(originals[index]);
+      const mapped = Object.entries(mapping).find(
+        ([, target]) => schemaName !== undefined && (target === schemaName || target.endsWith(`/${schemaName}`))
+      );
+      const existing = alt.properties?.[propertyName];
+      const value =
+        mapped?.[0] ??
+        (Array.isArray(existing?.enum) && existing.enum.length === 1 ? existing.enum[0] : undefined) ??
+        schemaName ??
+        alt.title;
+
+      if (value === undefined) return;
+
+      alt.properties = {
+        ...(alt.properties || {}),
+        [propertyName]: { ...(existing || { type: 'string' }), enum: [value] },
+      };
+      alt.required = Array.from(new Set([...(alt.required || []), propertyName]));
+      if (!alt.type) {
+        alt.type = 'object';
+      }
+    });
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * MCP stdio transport
+ * Reads newline-delimited JSON-RPC messages from stdin and writes responses to stdout;
+ * requests to the client (elicitation) are written to stdout as well
+ */
+
+import * as readline from 'readline';
+import { Logger } from '../utils/logger';
+import {
+  ClientRequests,
+  JsonRpcErrorCode,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  MCPClientConnection,
+  MCPProtocolHandler,
+} from './mcpProtocol';
+
+export class StdioTransport {
+  private handler: MCPProtocolHandler;
+  private input: NodeJS.ReadableStream;
+  private output: NodeJS.WritableStream;
+  private clientRequests: ClientRequests = new ClientRequests();
+  private clientCapabilities?: Record<string, any>;
+
+  constructor(
+    handler: MCPProtocolHandler,
+    input: NodeJS.ReadableStream = process.stdin,
+    output: NodeJS.WritableStream = process.stdout
+  ) {
+    this.handler = handler;
+    this.input = input;
+    this.output = output;
+  }
+
+  /**
+   * Start processing messages
+   * Resolves once the input stream closes
+   */
+  start(): Promise<void> {
+    return new Promise((resolve) => {
+      const rl = readline.createInterface({ input: this.input, terminal: false });
+      const pending: Promise<void>[] = [];
+
+      rl.on('line', (line) => {
+        if (!line.trim()) return;
+        pending.push(this.handleLine(line));
+      });
+
+      rl.on('close', async () => {
+        // Nothing can answer requests to the client any more
+        this.clientRequests.cancelAll('stdio transport closed');
+        await Promise.all(pending);
+        Logger.info('stdio transport closed');
+        resolve();
+      });
+
+      Logger.info('MCP stdio transport ready');
+    });
+  }
+
+  /**
+   * Parse and answer a single line
+   */
+  private async handleLine(line: string): Promise<void> {
+    let message: any;
+
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.send({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: JsonRpcErrorCode.PARSE_ERROR, message: 'Parse error' },
+      });
+      return;
+    }
+
+    if (ClientRequests.isResponse(message)) {
+      if (!this.clientRequests.resolve(message)) {
+        Logger.warn(`Ignoring response to unknown request ${message.id}`);
+      }
+      return;
+    }
+
+    if (message?.method === 'initialize') {
+      this.clientCapabilities = message.params?.capabilities;
+    }
+
+    const response = await this.handler.handleMessage(message, this.connection());
+    if (response) {
+      this.send(response);
+    }
+  }
+
+  /**
+   * Connection through which tool calls send requests to the client
+   */
+  private connection(): MCPClientConnection {
+    return {
+      capabilities: this.clientCapabilities,
+      request: (method, params) => this.clientRequests.send(method, params, (request) => this.send(request)),
+    };
+  }
+
+  /**
+   * Write a message to the output stream
+   */
+  private send(message: JsonRpcRequest | JsonRpcResponse): void {
+    this.output.write(JSON.stringify(message) + '\n');
+  }
+}
@@ -52,7 +52,7 @@ export class EndpointRenderer {
                     </div>
                     <div class="text-xs font-mono text-gray-700 mb-2">${endpoint.endpoint}</div>
                     <div class="flex items-center justify-between">
-                        <span class="text-xs text-gray-500">${Math.round(endpoint.confidence * 100)}%</span>
+                        <span class="text-xs text-gray-500">${typeof endpoint.confidence === 'number' ? `${Math.round(endpoint.confidence * 100)}%` : 'plan step'}</span>
                         ${endpoint.params && Object.keys(endpoint.params).length > 0 ?
                             `<span class="text-xs text-gray-500">${Object.keys(endpoint.params).length} params</span>` :
                             ''
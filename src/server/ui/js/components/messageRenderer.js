@@ -2,12 +2,21 @@
  * Component for rendering chat messages
  */
 
-import { scrollToBottom } from '../utils/helpers.js';
+import { scrollToBottom, escapeHtml } from '../utils/helpers.js';
 
 export class MessageRenderer {
     constructor(messagesContainer) {
         this.messagesContainer = messagesContainer;
         this.onFormSubmitCallback = null;
+        this.onPlanRunCallback = null;
+    }
+
+    /**
+     * Register callback for running a previewed plan
+     * @param {Function} callback - The callback function, called with the plan
+     */
+    onPlanRun(callback) {
+        this.onPlanRunCallback = callback;
     }
 
     /**
@@ -42,6 +51,37 @@ export class MessageRenderer {
         scrollToBottom(this.messagesContainer);
     }
 
+    /**
+     * Add a message for a query no endpoint clearly matched, listing the closest candidates
+     * @param {Object} result - The query result (with candidates)
+     */
+    addNoMatchMessage(result) {
+        const messageDiv = document.createElement('div');
+        messageDiv.className = 'mb-4';
+        const candidates = result.candidates || [];
+
+        messageDiv.innerHTML = `
+            <div class="bg-white border border-gray-200 rounded-lg p-5 shadow-sm">
+                <p class="text-base text-gray-800 font-medium mb-2">${escapeHtml(result.summary)}</p>
+                ${candidates.length > 0 ? `
+                    <p class="text-xs text-gray-500 mb-2">Closest endpoints:</p>
+                    <ul class="space-y-1">
+                        ${candidates.map(candidate => `
+                            <li class="flex items-center space-x-2">
+                                <span class="text-xs font-mono px-2 py-0.5 rounded bg-gray-100 text-gray-700">${escapeHtml(candidate.method)}</span>
+                                <code class="text-sm text-gray-800">${escapeHtml(candidate.endpoint)}</code>
+                                ${candidate.description ? `<span class="text-xs text-gray-500">${escapeHtml(candidate.description)}</span>` : ''}
+                            </li>
+                        `).join('')}
+                    </ul>
+                ` : `<p class="text-xs text-gray-500">${escapeHtml(result.guidance || '')}</p>`}
+            </div>
+        `;
+
+        this.messagesContainer.appendChild(messageDiv);
+        scrollToBottom(this.messagesContainer);
+    }
+
     /**
      * Add an endpoint match message
      * @param {Object} result - The query result
@@ -50,8 +90,9 @@ export class MessageRenderer {
         const messageDiv = document.createElement('div');
         messageDiv.className = 'mb-4';
 
-        // Check if there's missing information
-        const hasMissingInfo = result.missingInfo && result.missingInfo.requiredParams.length > 0;
+        // Check if there's missing information (a clarification from the server lists its typed fields)
+        const hasMissingInfo = Boolean(result.clarification) ||
+            (result.missingInfo && result.missingInfo.requiredParams.length > 0);
 
         messageDiv.innerHTML = `
             <div class="bg-white border border-gray-200 rounded-lg p-5 shadow-sm">
@@ -105,8 +146,8 @@ export class MessageRenderer {
                 <div class="space-y-1">
                     ${filledParams.map(param => `
                         <div class="flex items-center justify-between text-sm py-1">
-                            <span class="font-mono text-gray-700">${param.name}</span>
-                            <span class="text-gray-900 font-medium">${JSON.stringify(param.value)}</span>
+                            <span class="font-mono text-gray-700">${param.name}${param.source === 'context' ? ' <span class="text-xs text-gray-400" title="Taken from an earlier message">(from earlier)</span>' : ''}</span>
+                            <span class="text-gray-900 font-medium">${param.format === 'binary' ? 'file' : JSON.stringify(param.value)}</span>
                         </div>
                     `).join('')}
                 </div>
@@ -123,19 +164,21 @@ export class MessageRenderer {
      * @returns {string} HTML string
      */
     _renderInlineForm(missingInfo, paramDetails, extractedParams, result) {
-        const missingParams = missingInfo.requiredParams;
+        const fields = result.clarification
+            ? result.clarification.fields.map(field => ({ ...field, format: field.type === 'file' ? 'binary' : field.format }))
+            : missingInfo.requiredParams.map(paramName =>
+                paramDetails?.find(p => p.name === paramName) || { name: paramName, type: 'string' });
 
         return `
             <div class="mt-4 pt-4 border-t border-gray-200">
                 <div class="mb-3">
                     <h4 class="text-sm font-medium text-gray-800 mb-1">Complete Required Information</h4>
-                    <p class="text-xs text-gray-500">Fill in the missing fields to proceed with the API call</p>
+                    <p class="text-xs text-gray-500">${result.clarification ? escapeHtml(result.clarification.message) : 'Fill in the missing fields to proceed with the API call'}</p>
                 </div>
 
                 <form class="inline-param-form space-y-3" data-endpoint="${result.endpoint}" data-method="${result.method}">
-                    ${missingParams.map(paramName => {
-                        const param = paramDetails?.find(p => p.name === paramName) || { name: paramName, type: 'string' };
-                        const currentValue = extractedParams?.[paramName] || '';
+                    ${fields.map(param => {
+                        const currentValue = extractedParams?.[param.name] ?? param.default ?? '';
 
                         // Determine HTML input type and attributes based on parameter type
                         const inputConfig = this._getInputConfig(param);
@@ -148,6 +191,17 @@ export class MessageRenderer {
                                     ${param.type ? `<span class="text-gray-400 font-normal ml-1">(${param.type})</span>` : ''}
                                 </label>
                                 ${param.description ? `<p class="text-xs text-gray-500 mb-1">${param.description}</p>` : ''}
+                                ${param.error ? `<p class="text-xs text-red-600 mb-1">${escapeHtml(param.error)}</p>` : ''}
+                                ${Array.isArray(param.enum) ? `
+                                <select
+                                    name="${param.name}"
+                                    data-type="${param.type || 'string'}"
+                                    required
+                                    class="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-gray-400 focus:border-transparent"
+                                >
+                                    ${param.enum.map(option => `<option value="${escapeHtml(String(option))}" ${String(option) === String(currentValue) ? 'selected' : ''}>${escapeHtml(String(option))}</option>`).join('')}
+                                </select>
+                                ` : `
                                 <input
                                     type="${inputConfig.type}"
                                     name="${param.name}"
@@ -158,9 +212,10 @@ export class MessageRenderer {
                                     ${inputConfig.min !== undefined ? `min="${inputConfig.min}"` : ''}
                                     ${inputConfig.max !== undefined ? `max="${inputConfig.max}"` : ''}
                                     data-type="${param.type || 'string'}"
-                                    required
+                                    ${inputConfig.type === 'checkbox' ? (currentValue === true ? 'checked' : '') : 'required'}
                                     class="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-gray-400 focus:border-transparent"
                                 />
+                                `}
                             </div>
                         `;
                     }).join('')}
@@ -193,6 +248,14 @@ export class MessageRenderer {
         const type = (param.type || 'string').toLowerCase();
         const name = (param.name || '').toLowerCase();
 
+        // File fields of form and multipart bodies
+        if (param.format === 'binary') {
+            return {
+                type: 'file',
+                placeholder: '',
+            };
+        }
+
         // Map parameter types to HTML input types
         if (type === 'integer' || type === 'int') {
             return {
@@ -217,7 +280,14 @@ export class MessageRenderer {
             };
         }
 
-        if (type === 'date' || name.includes('date')) {
+        if (param.format === 'date-time') {
+            return {
+                type: 'datetime-local',
+                placeholder: 'YYYY-MM-DD HH:MM',
+            };
+        }
+
+        if (type === 'date' || param.format === 'date' || name.includes('date')) {
             return {
                 type: 'date',
                 placeholder: 'YYYY-MM-DD',
@@ -276,21 +346,32 @@ export class MessageRenderer {
         const cancelBtn = messageDiv.querySelector('.cancel-form');
 
         if (form) {
-            form.addEventListener('submit', (e) => {
+            form.addEventListener('submit', async (e) => {
                 e.preventDefault();
 
                 // Collect form data with type conversion
                 const newParams = {};
-                const inputs = form.querySelectorAll('input[name]');
+                const inputs = form.querySelectorAll('input[name], select[name]');
 
-                inputs.forEach(input => {
+                for (const input of inputs) {
                     const name = input.name;
                     const dataType = input.getAttribute('data-type');
                     const value = input.value;
 
+                    if (input.type === 'checkbox') {
+                        newParams[name] = input.checked;
+                        continue;
+                    }
+
+                    // Files are sent as data: URLs, which the server turns into uploads
+                    if (input.type === 'file') {
+                        newParams[name] = input.files[0] ? await this._readFileAsDataUrl(input.files[0]) : undefined;
+                        continue;
+                    }
+
                     // Convert value based on data type
                     newParams[name] = this._convertToType(value, dataType, input.type);
-                });
+                }
 
                 // Merge with existing params (existing params should already be correctly typed from LLM)
                 const allParams = { ...result.params, ...newParams };
@@ -303,12 +384,15 @@ export class MessageRenderer {
                         endpoint: result.endpoint,
                         method: result.method,
                         params: allParams,
-                        result: result
+                        result: result,
+                        // Answers to the server's clarification continue its pending call
+                        clarificationId: result.clarification?.id,
+                        answers: newParams
                     });
                 }
 
                 // Disable form to prevent double submission
-                form.querySelectorAll('input, button').forEach(el => el.disabled = true);
+                form.querySelectorAll('input, select, button').forEach(el => el.disabled = true);
             });
         }
 
@@ -321,6 +405,27 @@ export class MessageRenderer {
         }
     }
 
+    /**
+     * Read a file as a data: URL carrying its file name
+     * @param {File} file - The selected file
+     * @returns {Promise<string>} data:<type>;name=<file name>;base64,...
+     */
+    _readFileAsDataUrl(file) {
+        return new Promise((resolve, reject) => {
+            const reader = new FileReader();
+
+            reader.onload = (e) => {
+                resolve(e.target.result.replace(/^data:([^;,]*)/, `data:$1;name=${encodeURIComponent(file.name)}`));
+            };
+
+            reader.onerror = () => {
+                reject(new Error('Failed to read file'));
+            };
+
+            reader.readAsDataURL(file);
+        });
+    }
+
     /**
      * Convert string value to appropriate type
      * @param {string} value - The string value from input
@@ -411,6 +516,8 @@ export class MessageRenderer {
                     </span>
                 </div>
 
+                ${apiResult.answer ? this._renderAnswer(apiResult.answer) : ''}
+
                 <div>
                     <h4 class="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Data</h4>
                     <div class="bg-gray-50 rounded-md p-3 border border-gray-200 max-h-64 overflow-y-auto">
@@ -418,6 +525,8 @@ export class MessageRenderer {
                     </div>
                 </div>
 
+                ${apiResult.download ? this._renderDownload(apiResult.download) : ''}
+
                 ${!isSuccess && apiResult.error ? `
                     <div class="mt-3 pt-3 border-t border-gray-100">
                         <p class="text-xs text-red-600">
@@ -435,6 +544,161 @@ export class MessageRenderer {
         scrollToBottom(this.messagesContainer);
     }
 
+    /**
+     * Render the answer to the query and the response fields it cites
+     * @param {Object} answer - { text, citations: [{ path, value }], source }
+     * @returns {string} HTML string
+     */
+    _renderAnswer(answer) {
+        const formatValue = value => typeof value === 'string' ? value : JSON.stringify(value);
+
+        return `
+            <div class="mb-4">
+                <p class="text-base text-gray-800 whitespace-pre-wrap">${escapeHtml(answer.text)}</p>
+                ${answer.citations && answer.citations.length > 0 ? `
+                    <div class="mt-2 flex flex-wrap gap-1">
+                        ${answer.citations.map(citation => `
+                            <span class="text-xs font-mono px-2 py-0.5 rounded bg-gray-100 text-gray-600" title="${escapeHtml(formatValue(citation.value)).replace(/"/g, '&quot;')}">
+                                ${escapeHtml(citation.path)}
+                            </span>
+                        `).join('')}
+                    </div>
+                ` : ''}
+            </div>
+        `;
+    }
+
+    /**
+     * Render a download link (and an inline preview for images) for a file response
+     * @param {Object} download - { url, filename, contentType, size }
+     * @returns {string} HTML string
+     */
+    _renderDownload(download) {
+        return `
+            <div class="mt-3 pt-3 border-t border-gray-100">
+                ${download.contentType.startsWith('image/') ? `
+                    <img src="${download.url}" alt="${escapeHtml(download.filename)}" class="max-h-64 mb-2 rounded border border-gray-200" />
+                ` : ''}
+                <a href="${download.url}" download="${escapeHtml(download.filename)}" class="text-sm text-gray-800 underline">
+                    Download ${escapeHtml(download.filename)}
+                </a>
+                <span class="text-xs text-gray-500 ml-2">${escapeHtml(download.contentType)}, ${download.size} bytes</span>
+            </div>
+        `;
+    }
+
+    /**
+     * Add a plan preview with Run / Cancel buttons
+     * @param {Object} plan - The plan returned by the server
+     */
+    addPlanMessage(plan) {
+        const messageDiv = document.createElement('div');
+        messageDiv.className = 'mb-4';
+
+        messageDiv.innerHTML = `
+            <div class="bg-white border border-gray-200 rounded-lg p-5 shadow-sm">
+                <div class="mb-4">
+                    <p class="text-base text-gray-800 font-medium">Plan: ${plan.steps.length} step${plan.steps.length === 1 ? '' : 's'}</p>
+                    ${plan.reasoning ? `<p class="text-xs text-gray-500 mt-1">${escapeHtml(plan.reasoning)}</p>` : ''}
+                </div>
+
+                <ol class="space-y-3 mb-4">
+                    ${plan.steps.map(step => `
+                        <li class="border border-gray-100 rounded-md p-3">
+                            <div class="flex items-center space-x-3 mb-1">
+                                <span class="text-xs text-gray-400 font-mono">${escapeHtml(step.id)}</span>
+                                <span class="text-xs font-mono px-2 py-1 rounded bg-gray-800 text-white">${escapeHtml(step.method)}</span>
+                                <span class="text-sm font-mono text-gray-600">${escapeHtml(step.endpoint)}</span>
+                            </div>
+                            ${step.description ? `<p class="text-xs text-gray-600 mb-1">${escapeHtml(step.description)}</p>` : ''}
+                            ${Object.keys(step.params || {}).length > 0 ? `
+                                <pre class="text-xs text-gray-700 whitespace-pre-wrap font-mono bg-gray-50 rounded p-2">${escapeHtml(JSON.stringify(step.params, null, 2))}</pre>
+                            ` : ''}
+                        </li>
+                    `).join('')}
+                </ol>
+
+                <div class="flex items-center space-x-2">
+                    <button type="button" class="run-plan px-4 py-2 bg-gray-800 text-white text-sm rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 transition-colors">
+                        Run Plan
+                    </button>
+                    <button type="button" class="cancel-plan px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 transition-colors">
+                        Cancel
+                    </button>
+                </div>
+            </div>
+        `;
+
+        const buttons = messageDiv.querySelectorAll('button');
+
+        messageDiv.querySelector('.run-plan').addEventListener('click', () => {
+            buttons.forEach(button => button.disabled = true);
+            if (this.onPlanRunCallback) {
+                this.onPlanRunCallback(plan);
+            }
+        });
+
+        messageDiv.querySelector('.cancel-plan').addEventListener('click', () => {
+            buttons.forEach(button => button.disabled = true);
+            messageDiv.style.opacity = '0.5';
+        });
+
+        this.messagesContainer.appendChild(messageDiv);
+        scrollToBottom(this.messagesContainer);
+    }
+
+    /**
+     * Add the results of an executed plan
+     * @param {Object} result - The plan execution result
+     */
+    addPlanResultMessage(result) {
+        const messageDiv = document.createElement('div');
+        messageDiv.className = 'mb-4';
+
+        const statusStyles = {
+            completed: 'bg-gray-800',
+            needs_input: 'bg-yellow-500',
+            invalid_input: 'bg-yellow-500',
+            failed: 'bg-red-500',
+            skipped: 'bg-gray-300',
+            confirmation_required: 'bg-yellow-500',
+            forbidden: 'bg-red-500',
+        };
+
+        messageDiv.innerHTML = `
+            <div class="bg-white border ${result.success ? 'border-gray-200' : 'border-red-300'} rounded-lg p-5 shadow-sm">
+                <p class="text-base text-gray-800 font-medium mb-4">${escapeHtml(result.summary)}</p>
+
+                <ol class="space-y-3">
+                    ${result.steps.map(step => `
+                        <li class="border border-gray-100 rounded-md p-3">
+                            <div class="flex items-center space-x-3 mb-1">
+                                <span class="text-xs text-gray-400 font-mono">${escapeHtml(step.id)}</span>
+                                <span class="text-xs font-mono px-2 py-1 rounded bg-gray-800 text-white">${escapeHtml(step.method)}</span>
+                                <span class="text-sm font-mono text-gray-600">${escapeHtml(step.endpoint)}</span>
+                                <span class="text-xs px-2 py-1 rounded text-white ml-auto ${statusStyles[step.status] || 'bg-gray-500'}">
+                                    ${step.response ? step.response.status : escapeHtml(step.status)}
+                                </span>
+                            </div>
+                            <p class="text-xs text-gray-600">${escapeHtml(step.summary)}</p>
+                            ${step.response ? `
+                                <details class="mt-2">
+                                    <summary class="text-xs text-gray-500 cursor-pointer">Response data</summary>
+                                    <div class="bg-gray-50 rounded-md p-2 border border-gray-200 max-h-48 overflow-y-auto mt-1">
+                                        <pre class="text-xs text-gray-700 whitespace-pre-wrap font-mono">${escapeHtml(JSON.stringify(step.response.data, null, 2))}</pre>
+                                    </div>
+                                </details>
+                            ` : ''}
+                        </li>
+                    `).join('')}
+                </ol>
+            </div>
+        `;
+
+        this.messagesContainer.appendChild(messageDiv);
+        scrollToBottom(this.messagesContainer);
+    }
+
     /**
      * Detect if error is likely due to API spec issues
      * @param {Object} apiResult - The API response
@@ -2,6 +2,8 @@
  * Component for handling API specification upload
  */
 
+import { ApiService } from '../services/apiService.js';
+
 export class SpecUploadHandler {
     constructor() {
         this.selectedFile = null;
@@ -143,11 +145,11 @@ export class SpecUploadHandler {
 
         // Validate file type
         const validTypes = ['application/json', 'text/plain', ''];
-        const validExtensions = ['.json', '.yaml', '.yml'];
+        const validExtensions = ['.json', '.yaml', '.yml', '.graphql', '.gql', '.graphqls', '.har', '.curl'];
         const hasValidExtension = validExtensions.some(ext => file.name.toLowerCase().endsWith(ext));
 
         if (!validTypes.includes(file.type) && !hasValidExtension) {
-            this.showStatus('error', 'Please upload a JSON or YAML file');
+            this.showStatus('error', 'Please upload a JSON, YAML, GraphQL schema, HAR or curl file');
             return;
         }
 
@@ -172,7 +174,7 @@ export class SpecUploadHandler {
      */
     async loadCurrentSpecInfo() {
         try {
-            const response = await fetch('/api/spec-info');
+            const response = await ApiService.request('/api/spec-info');
             const data = await response.json();
 
             document.getElementById('specName').textContent = data.name || 'Unknown';
@@ -206,12 +208,12 @@ export class SpecUploadHandler {
             console.log('File content read, length:', content.length);
 
             // Detect spec type
-            const specType = this.detectSpecType(content);
+            const specType = this.detectSpecType(content, this.selectedFile.name);
             console.log('Detected spec type:', specType);
 
             // Send to backend
             console.log('Sending to /api/update-spec...');
-            const response = await fetch('/api/update-spec', {
+            const response = await ApiService.request('/api/update-spec', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
@@ -267,9 +269,15 @@ export class SpecUploadHandler {
             const reader = new FileReader();
 
             reader.onload = (e) => {
+                const content = e.target.result;
+
+                // GraphQL SDL, curl commands and Insomnia YAML are text; other files must be JSON
+                if (/\.(graphql|gql|graphqls|curl)$/i.test(file.name) || this.isInsomniaYaml(content)) {
+                    resolve(content);
+                    return;
+                }
+
                 try {
-                    const content = e.target.result;
-                    // Try to parse as JSON
                     JSON.parse(content);
                     resolve(content);
                 } catch (error) {
@@ -287,19 +295,48 @@ export class SpecUploadHandler {
 
     /**
      * Detect spec type
+     * @param {string} content - The file content
+     * @param {string} fileName - The file name; GraphQL SDL is recognised by its extension
+     * @returns {string} "openapi", "postman", "insomnia", "graphql", "har" or "curl"
      */
-    detectSpecType(content) {
+    detectSpecType(content, fileName = '') {
+        if (/\.(graphql|gql|graphqls)$/i.test(fileName)) {
+            return 'graphql';
+        }
+        if (/\.curl$/i.test(fileName)) {
+            return 'curl';
+        }
+        if (this.isInsomniaYaml(content)) {
+            return 'insomnia';
+        }
+
         try {
             const parsed = JSON.parse(content);
             if (parsed.info?.schema?.includes('postman')) {
                 return 'postman';
             }
+            if (parsed._type === 'export' && Array.isArray(parsed.resources)) {
+                return 'insomnia';
+            }
+            if (parsed.__schema || parsed.data?.__schema) {
+                return 'graphql';
+            }
+            if (Array.isArray(parsed.log?.entries)) {
+                return 'har';
+            }
             return 'openapi';
         } catch {
             return 'openapi';
         }
     }
 
+    /**
+     * Whether the content is an Insomnia v5 collection, which is YAML
+     */
+    isInsomniaYaml(content) {
+        return /^type:\s*["']?collection\.insomnia\.rest/m.test(content);
+    }
+
     /**
      * Show status message
      */
@@ -33,6 +33,8 @@ class MCPhyApp {
 
         this.specUploadHandler = new SpecUploadHandler();
 
+        this.planModeToggle = document.getElementById('planMode');
+
         this.init();
     }
 
@@ -77,6 +79,11 @@ class MCPhyApp {
         this.messageRenderer.onFormSubmit((formData) => {
             this.handleInlineFormSubmit(formData);
         });
+
+        // Register plan run handler
+        this.messageRenderer.onPlanRun((plan) => {
+            this.runPlan(plan);
+        });
     }
 
     /**
@@ -98,6 +105,10 @@ class MCPhyApp {
      * @param {string} query - The user's query
      */
     async handleQuery(query) {
+        if (this.planModeToggle?.checked) {
+            return this.handlePlanQuery(query);
+        }
+
         // Add user message
         this.messageRenderer.addMessage(query, 'user');
 
@@ -108,8 +119,14 @@ class MCPhyApp {
         this.state.setLoading(true);
 
         try {
-            // Send query to backend
-            const queryResult = await ApiService.sendQuery(query);
+            // Send query to backend; the query is kept to answer it from the response
+            const queryResult = { ...(await ApiService.sendQuery(query)), query };
+
+            // Nothing matched clearly: show the closest endpoints instead of guessing
+            if (!queryResult.endpoint) {
+                this.messageRenderer.addNoMatchMessage(queryResult);
+                return;
+            }
 
             // Add called endpoint to sidebar
             this.state.addCalledEndpoint({
@@ -123,8 +140,8 @@ class MCPhyApp {
             this.messageRenderer.addEndpointMatchMessage(queryResult);
 
             // Check if we can make the API call
-            const hasMissingInfo = queryResult.missingInfo &&
-                                  queryResult.missingInfo.requiredParams.length > 0;
+            const hasMissingInfo = Boolean(queryResult.clarification) ||
+                                  (queryResult.missingInfo && queryResult.missingInfo.requiredParams.length > 0);
 
             if (!hasMissingInfo) {
                 // Make the actual API call immediately
@@ -144,23 +161,92 @@ class MCPhyApp {
         }
     }
 
+    /**
+     * Handle a query in multi-step mode: show the plan for confirmation
+     * @param {string} query - The user's query
+     */
+    async handlePlanQuery(query) {
+        this.messageRenderer.addMessage(query, 'user');
+        this.formHandler.clear();
+        this.state.setLoading(true);
+
+        try {
+            const plan = await ApiService.createPlan(query);
+            this.messageRenderer.addPlanMessage(plan);
+        } catch (error) {
+            console.error('Error planning query:', error);
+            this.messageRenderer.addMessage(
+                `Could not plan this request: ${error.message}`,
+                'error'
+            );
+        } finally {
+            this.state.setLoading(false);
+            this.formHandler.focus();
+        }
+    }
+
+    /**
+     * Run a previewed plan and show the results of each step
+     * @param {Object} plan - The plan to run
+     */
+    async runPlan(plan) {
+        this.state.setLoading(true);
+
+        try {
+            this.messageRenderer.addMessage(
+                `Running ${plan.steps.length}-step plan...`,
+                'system'
+            );
+
+            const result = await ApiService.executePlan(plan);
+
+            // Only steps that reached the upstream API count as called
+            result.steps
+                .filter(step => !['skipped', 'confirmation_required', 'forbidden'].includes(step.status))
+                .forEach(step => {
+                    this.state.addCalledEndpoint({
+                        endpoint: step.endpoint,
+                        method: step.method,
+                        params: step.params,
+                    });
+                });
+
+            this.messageRenderer.addPlanResultMessage(result);
+        } catch (error) {
+            console.error('Plan execution failed:', error);
+            this.messageRenderer.addMessage(
+                `Plan execution failed: ${error.message}`,
+                'error'
+            );
+        } finally {
+            this.state.setLoading(false);
+            this.formHandler.focus();
+        }
+    }
+
     /**
      * Handle inline form submission with completed parameters
      * @param {Object} formData - The form submission data
      */
     async handleInlineFormSubmit(formData) {
-        const { endpoint, method, params, result } = formData;
+        const { endpoint, method, params, result, clarificationId, answers } = formData;
 
         // Set loading state
         this.state.setLoading(true);
 
         try {
+            if (clarificationId) {
+                await this.answerClarification(clarificationId, answers);
+                return;
+            }
+
             // Make the API call with completed parameters
             await this.makeApiCall({
                 endpoint,
                 method,
                 params,
-                parameterDetails: result.parameterDetails
+                parameterDetails: result.parameterDetails,
+                query: result.query
             });
         } catch (error) {
             console.error('Error processing inline form:', error);
@@ -174,6 +260,44 @@ class MCPhyApp {
         }
     }
 
+    /**
+     * Send answers to a clarification and show the outcome of the continued call
+     * @param {string} clarificationId - ID of the server's clarification request
+     * @param {Object} answers - Values for the requested fields
+     */
+    async answerClarification(clarificationId, answers) {
+        try {
+            const result = await ApiService.answerClarification(clarificationId, answers);
+
+            // Still incomplete or invalid: ask for those fields again
+            if (['needs_input', 'invalid_input'].includes(result.status) && result.clarification) {
+                this.messageRenderer.addEndpointMatchMessage({
+                    ...result.match,
+                    summary: result.summary,
+                    clarification: result.clarification,
+                });
+                return;
+            }
+
+            const { match } = result;
+            this.messageRenderer.addMessage(`Making ${match.method} request to ${match.endpoint}...`, 'system');
+            this.messageRenderer.addApiResponseMessage({
+                success: result.success,
+                status: result.response?.status ?? result.status,
+                data: result.response ? result.response.data : result.preview || result.summary,
+                headers: result.response?.headers || {},
+                error: result.error,
+                answer: result.answer,
+            }, match);
+        } catch (error) {
+            console.error('Clarification failed:', error);
+            this.messageRenderer.addMessage(
+                `Could not continue the request: ${error.message}`,
+                'error'
+            );
+        }
+    }
+
     /**
      * Make an API call through the proxy
      * @param {Object} queryResult - The query result with endpoint information
@@ -196,8 +320,18 @@ class MCPhyApp {
                 parameterDetails
             );
 
+            // Answer the query from the response; the raw data is still shown below the answer
+            let answer = null;
+            if (queryResult.query && apiResult.status && !apiResult.download) {
+                answer = await ApiService.answerQuery(queryResult.query, { ...queryResult, params }, apiResult)
+                    .catch(error => {
+                        console.warn('Could not answer from the response:', error);
+                        return null;
+                    });
+            }
+
             // Display the API response
-            this.messageRenderer.addApiResponseMessage(apiResult, queryResult);
+            this.messageRenderer.addApiResponseMessage({ ...apiResult, answer }, queryResult);
 
         } catch (error) {
             console.error('API call failed:', error);
@@ -226,6 +360,7 @@ class MCPhyApp {
      * Reset the entire application
      */
     reset() {
+        ApiService.resetSession();
         this.clearMessages();
         this.clearHistory();
         this.formHandler.clear();
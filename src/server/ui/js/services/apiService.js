@@ -2,7 +2,74 @@
  * API Service for handling all HTTP requests to the backend
  */
 
+import { generateId } from '../utils/helpers.js';
+
+const API_KEY_STORAGE_KEY = 'mcphy.apiKey';
+const CONFIRM_HEADER = 'X-MCPhy-Confirm';
+const STREAMED_HEADER = 'X-MCPhy-Streamed';
+const SESSION_HEADER = 'X-MCPhy-Session';
+const MAX_INLINE_TEXT_BYTES = 100 * 1024;
+
+// The server remembers earlier queries of this conversation to resolve follow-ups
+let sessionId = generateId();
+
 export class ApiService {
+    /**
+     * Fetch wrapper that sends the stored MCPhy API key and the conversation session
+     * On 401 the user is asked for a key once and the request is retried
+     * @param {string} url - The request URL
+     * @param {Object} options - fetch options
+     * @returns {Promise<Response>} The fetch response
+     */
+    static async request(url, options = {}) {
+        const send = () => {
+            const headers = { ...(options.headers || {}), [SESSION_HEADER]: sessionId };
+            const apiKey = localStorage.getItem(API_KEY_STORAGE_KEY);
+            if (apiKey) {
+                headers['X-API-Key'] = apiKey;
+            }
+            return fetch(url, { ...options, headers });
+        };
+
+        const response = await send();
+
+        if (response.status === 401) {
+            const apiKey = window.prompt('This MCPhy server requires an API key:');
+            if (apiKey) {
+                localStorage.setItem(API_KEY_STORAGE_KEY, apiKey.trim());
+                return send();
+            }
+        }
+
+        return response;
+    }
+
+    /**
+     * Start a new conversation; the server forgets the previous one
+     */
+    static async resetSession() {
+        const previous = sessionId;
+        sessionId = generateId();
+        await ApiService.request(`/mcp/sessions/${encodeURIComponent(previous)}`, { method: 'DELETE' }).catch(() => {});
+    }
+
+    /**
+     * Ask the user to confirm a call the server's safety policy held back
+     * @param {string} message - Why confirmation is needed
+     * @param {Object} request - Optional redacted request that would be sent
+     * @returns {boolean} True if the user confirmed
+     */
+    static confirmMutation(message, request = null) {
+        let text = message;
+        if (request) {
+            text += `\n\n${request.method} ${request.url}`;
+            if (request.body) {
+                text += `\n\n${request.body}`;
+            }
+        }
+        return window.confirm(`${text}\n\nSend this request?`);
+    }
+
     /**
      * Fetch available endpoints from the API
      * @returns {Promise<Array>} List of available endpoints
@@ -10,7 +77,7 @@ export class ApiService {
      */
     static async fetchEndpoints() {
         try {
-            const response = await fetch('/api/endpoints');
+            const response = await ApiService.request('/api/endpoints');
             if (!response.ok) {
                 throw new Error(`Failed to fetch endpoints: ${response.statusText}`);
             }
@@ -29,7 +96,7 @@ export class ApiService {
      */
     static async sendQuery(query) {
         try {
-            const response = await fetch('/mcp/query', {
+            const response = await ApiService.request('/mcp/query', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
@@ -48,16 +115,139 @@ export class ApiService {
         }
     }
 
+    /**
+     * Answer the missing fields of a pending call; the server merges them and runs the call
+     * @param {string} clarificationId - ID of the server's clarification request
+     * @param {Object} answers - Values for the requested fields
+     * @param {boolean} confirm - Whether the user already confirmed a data-changing call
+     * @returns {Promise<Object>} Execution result (status "needs_input" or "invalid_input" carries a new clarification)
+     * @throws {Error} If the clarification expired or the server errors
+     */
+    static async answerClarification(clarificationId, answers, confirm = false) {
+        const response = await ApiService.request(`/mcp/clarifications/${encodeURIComponent(clarificationId)}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ answers, confirm }),
+        });
+
+        const result = await response.json();
+
+        // The call stays pending while it waits for confirmation
+        if (result.status === 'confirmation_required' && !confirm) {
+            if (ApiService.confirmMutation(result.summary, result.preview)) {
+                return ApiService.answerClarification(clarificationId, {}, true);
+            }
+            return { ...result, summary: 'Cancelled: the request was not sent.' };
+        }
+
+        if (!result.status) {
+            throw new Error(result.message || `Request failed: ${response.statusText}`);
+        }
+
+        return result;
+    }
+
+    /**
+     * Ask for an answer to a query grounded in the response of the call made for it
+     * @param {string} query - The user's natural language query
+     * @param {Object} queryResult - The matched endpoint (endpoint, method, params)
+     * @param {Object} apiResult - The proxied API response (status, data)
+     * @returns {Promise<Object>} Answer text, cited response fields and whether an LLM wrote it
+     * @throws {Error} If the server cannot answer
+     */
+    static async answerQuery(query, queryResult, apiResult) {
+        const response = await ApiService.request('/mcp/answer', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                query,
+                method: queryResult.method,
+                endpoint: queryResult.endpoint,
+                params: queryResult.params,
+                response: {
+                    status: apiResult.status,
+                    data: apiResult.data,
+                    truncated: apiResult.truncated,
+                    saved: apiResult.saved,
+                },
+            }),
+        });
+
+        const result = await response.json();
+        if (!response.ok) {
+            throw new Error(result.message || `Answer failed: ${response.statusText}`);
+        }
+
+        return result;
+    }
+
+    /**
+     * Ask the server for a multi-step plan without running it
+     * @param {string} query - The user's natural language query
+     * @returns {Promise<Object>} The plan with its steps
+     * @throws {Error} If planning fails or the plan is rejected
+     */
+    static async createPlan(query) {
+        const response = await ApiService.request('/mcp/plan', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ query }),
+        });
+
+        const result = await response.json();
+        if (!response.ok) {
+            throw new Error(result.message || `Planning failed: ${response.statusText}`);
+        }
+
+        return result;
+    }
+
+    /**
+     * Run a previously created plan
+     * @param {Object} plan - The plan returned by createPlan
+     * @returns {Promise<Object>} Per-step results (also returned when a step fails)
+     * @throws {Error} If the plan is rejected or the server errors
+     */
+    static async executePlan(plan, confirm = false) {
+        const response = await ApiService.request('/mcp/plan/execute', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ plan, confirm }),
+        });
+
+        const result = await response.json();
+
+        // Steps that change data run only after the user confirms the whole plan
+        if (result.status === 'confirmation_required' && !confirm && ApiService.confirmMutation(result.summary)) {
+            return ApiService.executePlan(plan, true);
+        }
+
+        if (!Array.isArray(result.steps)) {
+            throw new Error(result.message || `Plan execution failed: ${response.statusText}`);
+        }
+
+        return result;
+    }
+
     /**
      * Make an API call through the proxy
      * @param {string} endpoint - The endpoint path (may contain {param} placeholders)
      * @param {string} method - The HTTP method
      * @param {Object} params - The parameters to send
      * @param {Array} parameterDetails - Optional parameter details with location info
+     * @param {boolean} confirm - Whether the user already confirmed a data-changing call
      * @returns {Promise<Object>} API response
      * @throws {Error} If the request fails
      */
-    static async makeApiCall(endpoint, method, params = {}, parameterDetails = null) {
+    static async makeApiCall(endpoint, method, params = {}, parameterDetails = null, confirm = false) {
         try {
             // Separate parameters by location
             const pathParams = {};
@@ -123,6 +313,7 @@ export class ApiService {
                 method: method,
                 headers: {
                     'Content-Type': 'application/json',
+                    ...(confirm ? { [CONFIRM_HEADER]: 'true' } : {}),
                 },
             };
 
@@ -132,13 +323,56 @@ export class ApiService {
             }
 
             // Make the API call
-            const response = await fetch(finalUrl, requestOptions);
+            const response = await ApiService.request(finalUrl, requestOptions);
+
+            // Files and other non-JSON bodies arrive as sent by the API instead of wrapped in JSON
+            if (response.headers.get(STREAMED_HEADER)) {
+                return ApiService.readStreamedResponse(response, finalEndpoint);
+            }
+
             const result = await response.json();
 
+            // The server holds back data-changing calls until they are confirmed
+            if (response.status === 428 && result.confirmationRequired && !confirm) {
+                if (ApiService.confirmMutation(result.message, result.request)) {
+                    return ApiService.makeApiCall(endpoint, method, params, parameterDetails, true);
+                }
+                return { ...result, data: result.request, message: 'Cancelled: the request was not sent.' };
+            }
+
             return result;
         } catch (error) {
             console.error('API call failed:', error);
             throw error;
         }
     }
+
+    /**
+     * Turn a passed-through API response into a result with a download link
+     * @param {Response} response - The proxy response
+     * @param {string} endpoint - The requested path, used to name the download
+     * @returns {Promise<Object>} API result; small text bodies are also shown inline
+     */
+    static async readStreamedResponse(response, endpoint) {
+        const blob = await response.blob();
+        const contentType = response.headers.get('Content-Type') || blob.type || 'application/octet-stream';
+        const disposition = response.headers.get('Content-Disposition') || '';
+        const filename = disposition.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i)?.[1]
+            || endpoint.split('/').filter(Boolean).pop()
+            || 'download';
+        const isText = /^text\/|[/+](json|xml)\b/i.test(contentType);
+
+        return {
+            success: response.ok,
+            status: response.status,
+            data: isText && blob.size <= MAX_INLINE_TEXT_BYTES ? await blob.text() : `${contentType}, ${blob.size} bytes`,
+            headers: Object.fromEntries(response.headers.entries()),
+            download: {
+                url: URL.createObjectURL(blob),
+                filename: decodeURIComponent(filename),
+                contentType,
+                size: blob.size,
+            },
+        };
+    }
 }
@@ -72,3 +72,11 @@ export function escapeHtml(html) {
     div.textContent = html;
     return div.innerHTML;
 }
+
+/**
+ * Generate a random ID (a UUID where the browser supports it)
+ * @returns {string} The new ID
+ */
+export function generateId() {
+    return window.crypto?.randomUUID?.() || `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
@@ -0,0 +1,328 @@
+/**
+ * Authentication profiles for calls to the upstream API
+ * Secrets are always read from environment variables, never from the config file
+ */
+
+import { Logger } from '../utils/logger';
+import { MCPEndpoint, SecurityRequirement } from './manifest';
+import { PreparedRequest } from './requestExecutor';
+
+export interface BearerAuthProfile {
+  type: 'bearer';
+  tokenEnv: string;
+}
+
+export interface ApiKeyAuthProfile {
+  type: 'apiKey';
+  in?: 'header' | 'query';
+  name?: string;
+  valueEnv: string;
+}
+
+export interface BasicAuthProfile {
+  type: 'basic';
+  usernameEnv: string;
+  passwordEnv: string;
+}
+
+export interface OAuth2AuthProfile {
+  type: 'oauth2';
+  tokenUrl?: string;
+  clientIdEnv: string;
+  clientSecretEnv: string;
+  scopes?: string[];
+  audience?: string;
+  clientAuth?: 'basic' | 'body';
+}
+
+export type AuthProfile = BearerAuthProfile | ApiKeyAuthProfile | BasicAuthProfile | OAuth2AuthProfile;
+
+export interface UpstreamAuthConfig {
+  profiles?: Record<string, AuthProfile>;
+  /** Maps OpenAPI security scheme names to profile names (defaults to same name) */
+  schemes?: Record<string, string>;
+  /** Profile used for endpoints that declare no security requirements */
+  defaultProfile?: string;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Refresh OAuth2 tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+/** Stands in for an OAuth2 token in previews; redaction masks it like a real one */
+const PREVIEW_TOKEN = 'oauth2-access-token';
+
+export class UpstreamAuth {
+  private config: UpstreamAuthConfig;
+  private securitySchemes: Record<string, any>;
+  private tokenCache: Map<string, CachedToken> = new Map();
+
+  constructor(config: UpstreamAuthConfig = {}, securitySchemes: Record<string, any> = {}) {
+    this.config = config;
+    this.securitySchemes = securitySchemes;
+
+    const profileCount = Object.keys(config.profiles || {}).length;
+    if (profileCount > 0) {
+      Logger.info(`Upstream auth: ${profileCount} profile(s) configured`);
+    }
+  }
+
+  /**
+   * Add credentials to a prepared request for the given endpoint
+   * @param preview - For dry runs and blocked calls: marks where an OAuth2 token goes without fetching one
+   */
+  async apply(request: PreparedRequest, endpoint?: MCPEndpoint, preview: boolean = false): Promise<PreparedRequest> {
+    const profileNames = this.selectProfiles(endpoint);
+
+    for (const { profileName, schemeName } of profileNames) {
+      const profile = this.resolveProfile(profileName, schemeName);
+      if (profile) {
+        await this.applyProfile(request, profileName, profile, preview);
+      }
+    }
+
+    return request;
+  }
+
+  /**
+   * Whether the given endpoint uses an OAuth2 profile (eligible for retry on 401)
+   */
+  usesOAuth2(endpoint?: MCPEndpoint): boolean {
+    return this.selectProfiles(endpoint).some(
+      ({ profileName, schemeName }) => this.resolveProfile(profileName, schemeName)?.type === 'oauth2'
+    );
+  }
+
+  /**
+   * Drop cached OAuth2 tokens used by an endpoint so the next call fetches new ones
+   */
+  invalidateTokens(endpoint?: MCPEndpoint): void {
+    for (const { profileName } of this.selectProfiles(endpoint)) {
+      this.tokenCache.delete(profileName);
+    }
+  }
+
+  /**
+   * Build starter profiles for the security schemes of a spec
+   * Env var names are derived from the scheme name, e.g. petstore_auth → PETSTORE_AUTH_TOKEN
+   */
+  static profilesFromSecuritySchemes(securitySchemes: Record<string, any>): Record<string, AuthProfile> {
+    const profiles: Record<string, AuthProfile> = {};
+
+    for (const [name, scheme] of Object.entries(securitySchemes || {})) {
+      const envPrefix = name.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+      const type = String(scheme.type || '').toLowerCase();
+      const httpScheme = String(scheme.scheme || '').toLowerCase();
+
+      if (type === 'apikey') {
+        profiles[name] = {
+          type: 'apiKey',
+          in: scheme.in === 'query' ? 'query' : 'header',
+          name: scheme.name,
+          valueEnv: `${envPrefix}_KEY`,
+        };
+      } else if ((type === 'http' && httpScheme === 'basic') || type === 'basic') {
+        profiles[name] = {
+          type: 'basic',
+          usernameEnv: `${envPrefix}_USERNAME`,
+          passwordEnv: `${envPrefix}_PASSWORD`,
+        };
+      } else if (type === 'http' && httpScheme === 'bearer') {
+        profiles[name] = { type: 'bearer', tokenEnv: `${envPrefix}_TOKEN` };
+      } else if (type === 'oauth2') {
+        profiles[name] = {
+          type: 'oauth2',
+          clientIdEnv: `${envPrefix}_CLIENT_ID`,
+          clientSecretEnv: `${envPrefix}_CLIENT_SECRET`,
+        };
+      }
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Choose which profiles apply to an endpoint
+   * OpenAPI requirements are alternatives; the first one whose schemes all have
+   * usable profiles wins, and every scheme in it is applied
+   */
+  private selectProfiles(endpoint?: MCPEndpoint): Array<{ profileName: string; schemeName?: string }> {
+    const requirements: SecurityRequirement[] | undefined = endpoint?.security;
+
+    if (requirements === undefined || requirements === null) {
+      return this.config.defaultProfile ? [{ profileName: this.config.defaultProfile }] : [];
+    }
+
+    for (const requirement of requirements) {
+      const schemeNames = Object.keys(requirement);
+
+      // An empty requirement ({}) means anonymous access is allowed
+      if (schemeNames.length === 0) {
+        return [];
+      }
+
+      const selected = schemeNames.map((schemeName) => ({
+        schemeName,
+        profileName: this.config.schemes?.[schemeName] || schemeName,
+      }));
+
+      if (selected.every(({ profileName, schemeName }) => this.resolveProfile(profileName, schemeName))) {
+        return selected;
+      }
+    }
+
+    if (requirements.length > 0) {
+      Logger.warn(
+        `No auth profile configured for ${endpoint?.method} ${endpoint?.path} (schemes: ${requirements
+          .map((r) => Object.keys(r).join('+'))
+          .join(' | ')})`
+      );
+    }
+
+    return [];
+  }
+
+  /**
+   * Look up a profile and fill gaps from the matching OpenAPI security scheme
+   */
+  private resolveProfile(profileName: string, schemeName?: string): AuthProfile | null {
+    const profile = this.config.profiles?.[profileName];
+    if (!profile) return null;
+
+    const scheme = schemeName ? this.securitySchemes[schemeName] : undefined;
+
+    if (profile.type === 'apiKey' && scheme?.type?.toLowerCase() === 'apikey') {
+      return { ...profile, in: profile.in || scheme.in, name: profile.name || scheme.name };
+    }
+
+    if (profile.type === 'oauth2' && !profile.tokenUrl) {
+      const tokenUrl = scheme?.flows?.clientCredentials?.tokenUrl || scheme?.tokenUrl;
+      return tokenUrl ? { ...profile, tokenUrl } : null;
+    }
+
+    return profile;
+  }
+
+  /**
+   * Apply a single profile to the request
+   */
+  private async applyProfile(request: PreparedRequest, profileName: string, profile: AuthProfile, preview: boolean): Promise<void> {
+    switch (profile.type) {
+      case 'bearer': {
+        const token = this.readSecret(profile.tokenEnv, profileName);
+        if (token) this.setHeader(request, 'Authorization', `Bearer ${token}`);
+        break;
+      }
+      case 'apiKey': {
+        const value = this.readSecret(profile.valueEnv, profileName);
+        if (!value) break;
+        if (!profile.name) {
+          Logger.warn(`Auth profile "${profileName}" has no key name`);
+          break;
+        }
+        if (profile.in === 'query') {
+          const url = new URL(request.url);
+          url.searchParams.set(profile.name, value);
+          request.url = url.toString();
+        } else {
+          this.setHeader(request, profile.name, value);
+        }
+        break;
+      }
+      case 'basic': {
+        const username = this.readSecret(profile.usernameEnv, profileName);
+        const password = this.readSecret(profile.passwordEnv, profileName);
+        if (username !== undefined && password !== undefined) {
+          const encoded = Buffer.from(`${username}:${password}`).toString('base64');
+          this.setHeader(request, 'Authorization', `Basic ${encoded}`);
+        }
+        break;
+      }
+      case 'oauth2': {
+        const token = preview ? PREVIEW_TOKEN : await this.getOAuth2Token(profileName, profile);
+        if (token) this.setHeader(request, 'Authorization', `Bearer ${token}`);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Fetch (or reuse) a client-credentials access token
+   */
+  private async getOAuth2Token(profileName: string, profile: OAuth2AuthProfile): Promise<string | undefined> {
+    const cached = this.tokenCache.get(profileName);
+    if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return cached.accessToken;
+    }
+
+    const clientId = this.readSecret(profile.clientIdEnv, profileName);
+    const clientSecret = this.readSecret(profile.clientSecretEnv, profileName);
+    if (!clientId || !clientSecret || !profile.tokenUrl) {
+      return undefined;
+    }
+
+    const body = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (profile.scopes?.length) body.set('scope', profile.scopes.join(' '));
+    if (profile.audience) body.set('audience', profile.audience);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+
+    if (profile.clientAuth === 'body') {
+      body.set('client_id', clientId);
+      body.set('client_secret', clientSecret);
+    } else {
+      const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    Logger.info(`Requesting OAuth2 token for profile "${profileName}"`);
+
+    const response = await fetch(profile.tokenUrl, { method: 'POST', headers, body: body.toString() });
+    if (!response.ok) {
+      throw new Error(`OAuth2 token request for profile "${profileName}" failed with status ${response.status}`);
+    }
+
+    const tokenResponse: any = await response.json();
+    if (!tokenResponse.access_token) {
+      throw new Error(`OAuth2 token response for profile "${profileName}" has no access_token`);
+    }
+
+    const expiresIn = Number(tokenResponse.expires_in) || 3600;
+    this.tokenCache.set(profileName, {
+      accessToken: tokenResponse.access_token,
+      expiresAt: Date.now() + expiresIn * 1000,
+    });
+
+    return tokenResponse.access_token;
+  }
+
+  /**
+   * Read a secret from the environment
+   */
+  private readSecret(envName: string, profileName: string): string | undefined {
+    const value = process.env[envName];
+    if (value === undefined || value === '') {
+      Logger.warn(`Auth profile "${profileName}": environment variable ${envName} is not set`);
+      return undefined;
+    }
+    return value;
+  }
+
+  /**
+   * Set a header, replacing any existing value regardless of case
+   */
+  private setHeader(request: PreparedRequest, name: string, value: string): void {
+    for (const key of Object.keys(request.headers)) {
+      if (key.toLowerCase() === name.toLowerCase()) {
+        delete request.headers[key];
+      }
+    }
+    request.headers[name] = value;
+  }
+}
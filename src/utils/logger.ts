@@ -10,17 +10,35 @@ export enum LogLevel {
 }
 
 export class Logger {
+  private static useStderr = false;
+
+  /**
+   * Send all log output to stderr
+   * Required when stdout carries protocol messages (e.g. MCP over stdio)
+   */
+  static redirectToStderr(): void {
+    this.useStderr = true;
+  }
+
   private static formatMessage(level: LogLevel, message: string): string {
     const timestamp = new Date().toISOString();
     return `[${timestamp}] [${level}] ${message}`;
   }
 
+  private static write(message: string): void {
+    if (this.useStderr) {
+      console.error(message);
+    } else {
+      console.log(message);
+    }
+  }
+
   static info(message: string): void {
-    console.log(this.formatMessage(LogLevel.INFO, message));
+    this.write(this.formatMessage(LogLevel.INFO, message));
   }
 
   static success(message: string): void {
-    console.log(this.formatMessage(LogLevel.SUCCESS, message));
+    this.write(this.formatMessage(LogLevel.SUCCESS, message));
   }
 
   static warn(message: string): void {
@@ -0,0 +1,59 @@
+/**
+ * Helpers for OpenAPI-style path templates such as /users/{id}
+ */
+
+/**
+ * Match a concrete path against a template
+ * Returns the extracted path parameters, or null when the path does not match
+ * (including parameters with malformed percent-encoding)
+ */
+export function matchPathTemplate(template: string, actualPath: string): Record<string, string> | null {
+  const templateParts = template.split('/').filter(Boolean);
+  const pathParts = actualPath.split('?')[0].split('/').filter(Boolean);
+
+  if (templateParts.length !== pathParts.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < templateParts.length; i++) {
+    const param = templateParts[i].match(/^\{(.+)\}$/);
+
+    if (param) {
+      try {
+        params[param[1]] = decodeURIComponent(pathParts[i]);
+      } catch {
+        return null;
+      }
+    } else if (templateParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Find the best template for a concrete path
+ * Templates with more literal segments win, so /users/me beats /users/{id}
+ */
+export function findMatchingTemplate<T extends { path: string }>(
+  candidates: T[],
+  actualPath: string
+): T | undefined {
+  let best: T | undefined;
+  let bestLiterals = -1;
+
+  for (const candidate of candidates) {
+    if (!matchPathTemplate(candidate.path, actualPath)) continue;
+
+    const literals = candidate.path.split('/').filter((part) => part && !part.startsWith('{')).length;
+    if (literals > bestLiterals) {
+      best = candidate;
+      bestLiterals = literals;
+    }
+  }
+
+  return best;
+}
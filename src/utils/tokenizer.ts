@@ -0,0 +1,62 @@
+/**
+ * Word tokenization for offline text matching
+ */
+
+const STOPWORDS = new Set([
+  'a', 'about', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'can', 'could', 'do', 'does',
+  'each', 'every', 'for', 'from', 'give', 'he', 'her', 'here', 'his', 'how', 'if', 'in', 'into', 'is', 'it', 'its',
+  'just', 'let', 'like', 'me', 'my', 'need', 'now', 'of', 'on', 'or', 'our', 'please', 'she', 'should', 'so',
+  'some', 'tell', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to',
+  'us', 'via', 'want', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/**
+ * Lowercased, stemmed words of a text
+ * camelCase, snake_case and kebab-case identifiers are split into words; numbers,
+ * single letters and common English function words are left out
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !/^\d+$/.test(word) && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Light suffix stemmer: plural, -ing and -ed forms and a final "e" are removed,
+ * so that "bookings", "booking" and "book", or "created" and "create", share a stem
+ */
+export function stem(word: string): string {
+  let result = word.toLowerCase();
+  if (result.length <= 3) return result;
+
+  if (result.endsWith('ies') && result.length > 4) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (result.endsWith('sses') || /(x|ch|sh|z)es$/.test(result)) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('s') && !/(ss|us|is)$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  let suffixRemoved = false;
+  if (result.endsWith('ing') && result.length > 6) {
+    result = result.slice(0, -3);
+    suffixRemoved = true;
+  } else if (result.endsWith('ed') && result.length > 4) {
+    result = result.slice(0, -2);
+    suffixRemoved = true;
+  }
+
+  // "shipped" → "shipp" → "ship", but "billing" → "bill"
+  if (suffixRemoved && result.length > 3 && /([^aeiouls])\1$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  if (result.endsWith('e') && result.length > 3) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
@@ -0,0 +1,96 @@
+/**
+ * Small path language for picking values out of JSON responses
+ *
+ *   items[0].id          first element
+ *   items[-1].id         last element
+ *   items[max:created].id  element with the largest "created" value
+ *   items[min:price]     element with the smallest "price" value
+ */
+
+type PathToken = { key: string } | { index: number } | { extreme: 'max' | 'min'; field: string };
+
+/**
+ * Split a path into tokens; returns null when the syntax is invalid
+ */
+export function parseValuePath(path: string): PathToken[] | null {
+  const tokens: PathToken[] = [];
+  const pattern = /\.?([^.[\]]+)|\[([^\]]*)\]/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(path)) !== null) {
+    if (match.index !== consumed) return null;
+    consumed = pattern.lastIndex;
+
+    if (match[1] !== undefined) {
+      tokens.push({ key: match[1] });
+      continue;
+    }
+
+    const inner = match[2].trim();
+    const extreme = inner.match(/^(max|min):(.+)$/);
+
+    if (extreme) {
+      tokens.push({ extreme: extreme[1] as 'max' | 'min', field: extreme[2].trim() });
+    } else if (/^-?\d+$/.test(inner)) {
+      tokens.push({ index: parseInt(inner, 10) });
+    } else {
+      tokens.push({ key: inner.replace(/^['"]|['"]$/g, '') });
+    }
+  }
+
+  return consumed === path.length ? tokens : null;
+}
+
+/**
+ * Resolve a path against a value; returns undefined when any segment is missing
+ */
+export function getValueAtPath(value: any, path: string): any {
+  if (!path) return value;
+
+  const tokens = parseValuePath(path);
+  if (!tokens) return undefined;
+
+  let current = value;
+
+  for (const token of tokens) {
+    if (current === undefined || current === null) return undefined;
+
+    if ('key' in token) {
+      current = current[token.key];
+    } else if ('index' in token) {
+      if (!Array.isArray(current)) return undefined;
+      current = current[token.index < 0 ? current.length + token.index : token.index];
+    } else {
+      if (!Array.isArray(current) || current.length === 0) return undefined;
+      const direction = token.extreme === 'max' ? 1 : -1;
+      current = current.reduce((best, item) =>
+        compareValues(item?.[token.field], best?.[token.field]) * direction > 0 ? item : best
+      );
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Order numbers (and numeric strings) numerically, date strings chronologically and other strings lexically
+ */
+function compareValues(a: any, b: any): number {
+  if (a === undefined || a === null) return -1;
+  if (b === undefined || b === null) return 1;
+
+  const numberA = Number(a);
+  const numberB = Number(b);
+  if (a !== '' && b !== '' && !isNaN(numberA) && !isNaN(numberB)) {
+    return numberA - numberB;
+  }
+
+  const dateA = Date.parse(String(a));
+  const dateB = Date.parse(String(b));
+  if (!isNaN(dateA) && !isNaN(dateB)) {
+    return dateA - dateB;
+  }
+
+  return String(a).localeCompare(String(b));
+}